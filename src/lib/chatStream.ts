@@ -0,0 +1,73 @@
+import { supabase, supabaseUrl, supabaseAnonKey } from './supabase'
+
+export interface ChatStreamHandlers {
+  onToken: (text: string) => void
+  onSources: (sources: any[]) => void
+}
+
+// supabase.functions.invoke buffers the whole body, so the streaming mode of
+// chat-rag is called with fetch and its server-sent events are parsed here.
+export async function streamChatRag(
+  body: Record<string, any>,
+  handlers: ChatStreamHandlers,
+  signal: AbortSignal
+): Promise<void> {
+  const { data: { session } } = await supabase.auth.getSession()
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/chat-rag`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      apikey: supabaseAnonKey,
+      Authorization: `Bearer ${session?.access_token ?? supabaseAnonKey}`
+    },
+    body: JSON.stringify({ ...body, stream: true }),
+    signal
+  })
+
+  if (!response.ok || !response.body) {
+    const errorBody = await response.json().catch(() => null)
+    throw new Error(errorBody?.error || `chat-rag request failed (${response.status})`)
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { value, done } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf('\n\n')
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary)
+      buffer = buffer.slice(boundary + 2)
+      handleEvent(rawEvent, handlers)
+      boundary = buffer.indexOf('\n\n')
+    }
+  }
+}
+
+function handleEvent(rawEvent: string, handlers: ChatStreamHandlers) {
+  let event = 'message'
+  let data = ''
+  for (const line of rawEvent.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim()
+    else if (line.startsWith('data:')) data += line.slice(5).trim()
+  }
+  if (!data) return
+
+  const payload = JSON.parse(data)
+  switch (event) {
+    case 'token':
+      handlers.onToken(payload.text)
+      break
+    case 'sources':
+      handlers.onSources(payload.sources || [])
+      break
+    case 'error':
+      throw new Error(payload.error)
+  }
+}
@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest'
+import { getExtension, isHiddenPath, readZipEntries } from './files'
+
+interface TestEntry {
+  name: string
+  text?: string // omitted for directories
+  deflate?: boolean
+}
+
+type Bytes = Uint8Array<ArrayBuffer>
+
+const encoder = new TextEncoder()
+
+async function deflateRaw(data: Bytes): Promise<Bytes> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+// Minimal ZIP writer: local headers, central directory and end record. CRCs are left
+// at 0 because readZipEntries does not check them
+async function buildZip(entries: TestEntry[]): Promise<Bytes> {
+  const locals: Uint8Array[] = []
+  const centrals: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const raw = encoder.encode(entry.text ?? '')
+    const data = entry.deflate ? await deflateRaw(raw) : raw
+    const method = entry.deflate ? 8 : 0
+
+    const local = new Uint8Array(30 + name.length + data.length)
+    const lv = new DataView(local.buffer)
+    lv.setUint32(0, 0x04034b50, true)
+    lv.setUint16(4, 20, true)
+    lv.setUint16(8, method, true)
+    lv.setUint32(18, data.length, true)
+    lv.setUint32(22, raw.length, true)
+    lv.setUint16(26, name.length, true)
+    local.set(name, 30)
+    local.set(data, 30 + name.length)
+
+    const central = new Uint8Array(46 + name.length)
+    const cv = new DataView(central.buffer)
+    cv.setUint32(0, 0x02014b50, true)
+    cv.setUint16(4, 20, true)
+    cv.setUint16(6, 20, true)
+    cv.setUint16(10, method, true)
+    cv.setUint32(20, data.length, true)
+    cv.setUint32(24, raw.length, true)
+    cv.setUint16(28, name.length, true)
+    cv.setUint32(42, offset, true)
+    central.set(name, 46)
+
+    locals.push(local)
+    centrals.push(central)
+    offset += local.length
+  }
+
+  const centralSize = centrals.reduce((sum, c) => sum + c.length, 0)
+  const end = new Uint8Array(22)
+  const ev = new DataView(end.buffer)
+  ev.setUint32(0, 0x06054b50, true)
+  ev.setUint16(8, entries.length, true)
+  ev.setUint16(10, entries.length, true)
+  ev.setUint32(12, centralSize, true)
+  ev.setUint32(16, offset, true)
+
+  const zip = new Uint8Array(offset + centralSize + end.length)
+  let position = 0
+  for (const part of [...locals, ...centrals, end]) {
+    zip.set(part, position)
+    position += part.length
+  }
+  return zip
+}
+
+async function entryTexts(zip: Bytes) {
+  const entries = await readZipEntries(new Blob([zip]))
+  return Promise.all(entries.map(async entry => ({ name: entry.name, text: await entry.data.text() })))
+}
+
+describe('readZipEntries', () => {
+  it('reads stored entries', async () => {
+    const zip = await buildZip([
+      { name: 'rules.txt', text: 'T 7.1.1 Brakes on all four wheels.' },
+      { name: 'notes.md', text: '# Notes' }
+    ])
+
+    expect(await entryTexts(zip)).toEqual([
+      { name: 'rules.txt', text: 'T 7.1.1 Brakes on all four wheels.' },
+      { name: 'notes.md', text: '# Notes' }
+    ])
+  })
+
+  it('inflates deflated entries and skips directories', async () => {
+    const text = 'EV 4.1 Separation of the tractive system. '.repeat(50)
+    const zip = await buildZip([
+      { name: 'rules/' },
+      { name: 'rules/ev.txt', text, deflate: true },
+      { name: 'rules/short.txt', text: 'stored', deflate: false }
+    ])
+
+    expect(await entryTexts(zip)).toEqual([
+      { name: 'rules/ev.txt', text },
+      { name: 'rules/short.txt', text: 'stored' }
+    ])
+  })
+
+  it('returns hidden and __MACOSX entries for the caller to filter with isHiddenPath', async () => {
+    const zip = await buildZip([
+      { name: 'rules.pdf', text: '%PDF' },
+      { name: '__MACOSX/._rules.pdf', text: 'fork' },
+      { name: 'folder/.DS_Store', text: 'ds' }
+    ])
+
+    const names = (await readZipEntries(new Blob([zip]))).map(entry => entry.name)
+    expect(names).toEqual(['rules.pdf', '__MACOSX/._rules.pdf', 'folder/.DS_Store'])
+    expect(names.filter(name => !isHiddenPath(name))).toEqual(['rules.pdf'])
+  })
+
+  it('rejects files without an end of central directory record', async () => {
+    const zip = await buildZip([{ name: 'rules.txt', text: 'T 7.1.1' }])
+
+    await expect(readZipEntries(new Blob([zip.slice(0, zip.length - 10)]))).rejects.toThrow('Not a valid ZIP archive')
+    await expect(readZipEntries(new Blob(['not a zip']))).rejects.toThrow('Not a valid ZIP archive')
+  })
+
+  it('rejects a central directory that points outside the archive', async () => {
+    const zip = await buildZip([{ name: 'rules.txt', text: 'T 7.1.1' }])
+    new DataView(zip.buffer).setUint32(zip.length - 6, zip.length, true)
+
+    await expect(readZipEntries(new Blob([zip]))).rejects.toThrow('Corrupt ZIP archive')
+  })
+
+  it('rejects entries whose data is cut off', async () => {
+    const zip = await buildZip([{ name: 'rules.txt', text: 'T 7.1.1 Brakes' }])
+    // Central directory entry claims more data than the archive holds
+    const centralStart = new DataView(zip.buffer).getUint32(zip.length - 6, true)
+    new DataView(zip.buffer).setUint32(centralStart + 20, 10_000, true)
+
+    await expect(readZipEntries(new Blob([zip]))).rejects.toThrow('Corrupt ZIP archive entry rules.txt')
+  })
+})
+
+describe('isHiddenPath', () => {
+  it('flags dotfiles and macOS resource forks at any depth', () => {
+    expect(isHiddenPath('.hidden.pdf')).toBe(true)
+    expect(isHiddenPath('docs/.git/config')).toBe(true)
+    expect(isHiddenPath('__MACOSX/docs/rules.pdf')).toBe(true)
+    expect(isHiddenPath('docs/rules.v2.pdf')).toBe(false)
+  })
+})
+
+describe('getExtension', () => {
+  it('returns the lower-case extension', () => {
+    expect(getExtension('Rules 2025.PDF')).toBe('pdf')
+    expect(getExtension('archive.tar.gz')).toBe('gz')
+    expect(getExtension('README')).toBe('')
+  })
+})
@@ -0,0 +1,82 @@
+export interface ZipEntry {
+  name: string // path inside the archive
+  data: Blob
+}
+
+const EOCD_SIGNATURE = 0x06054b50
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50
+
+// Hex SHA-256 of the file bytes, stored as documents.content_hash
+export async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data)
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export function getExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.')
+  return dot === -1 ? '' : fileName.slice(dot + 1).toLowerCase()
+}
+
+// macOS resource forks and dotfiles that end up in zipped folders
+export function isHiddenPath(path: string): boolean {
+  return path.split('/').some(part => part.startsWith('.') || part === '__MACOSX')
+}
+
+// Reads the files of a ZIP archive in the browser. Stored and deflated entries are
+// supported (deflate through DecompressionStream); ZIP64 archives are not.
+export async function readZipEntries(file: Blob): Promise<ZipEntry[]> {
+  const buffer = await file.arrayBuffer()
+  const view = new DataView(buffer)
+
+  // The end of central directory record sits in the last 22 bytes plus an optional comment
+  let eocd = -1
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd === -1) throw new Error('Not a valid ZIP archive')
+
+  const entryCount = view.getUint16(eocd + 10, true)
+  let offset = view.getUint32(eocd + 16, true)
+  const decoder = new TextDecoder()
+  const entries: ZipEntry[] = []
+
+  for (let i = 0; i < entryCount; i++) {
+    // The central directory ends where the end of central directory record starts
+    if (offset + 46 > eocd || view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) throw new Error('Corrupt ZIP archive')
+
+    const method = view.getUint16(offset + 10, true)
+    const compressedSize = view.getUint32(offset + 20, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const localHeaderOffset = view.getUint32(offset + 42, true)
+    if (offset + 46 + nameLength > eocd) throw new Error('Corrupt ZIP archive')
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength))
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith('/')) continue // directory
+    if (compressedSize === 0xffffffff) throw new Error('ZIP64 archives are not supported')
+
+    // The local header repeats the name and has its own extra field
+    if (localHeaderOffset + 30 > buffer.byteLength) throw new Error(`Corrupt ZIP archive entry ${name}`)
+    const dataStart = localHeaderOffset + 30
+      + view.getUint16(localHeaderOffset + 26, true)
+      + view.getUint16(localHeaderOffset + 28, true)
+    if (dataStart + compressedSize > buffer.byteLength) throw new Error(`Corrupt ZIP archive entry ${name}`)
+    const compressed = new Blob([buffer.slice(dataStart, dataStart + compressedSize)])
+
+    if (method === 0) {
+      entries.push({ name, data: compressed })
+    } else if (method === 8) {
+      const inflated = compressed.stream().pipeThrough(new DecompressionStream('deflate-raw'))
+      entries.push({ name, data: await new Response(inflated).blob() })
+    } else {
+      throw new Error(`Unsupported compression method in ${name}`)
+    }
+  }
+
+  return entries
+}
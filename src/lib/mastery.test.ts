@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import {
+  difficultyFor,
+  expectedCredit,
+  INITIAL_MASTERY,
+  MasteryState,
+  newMasteryState,
+  parseDifficulty,
+  pickNextTopic,
+  updateMastery
+} from './mastery'
+
+const NOW = new Date('2025-06-01T12:00:00Z')
+const state = (mastery: number, answered: number): MasteryState => ({ mastery, answered, last_answered_at: null })
+
+describe('parseDifficulty', () => {
+  it('accepts any casing and defaults to medium', () => {
+    expect(parseDifficulty('Hard')).toBe('hard')
+    expect(parseDifficulty(' easy ')).toBe('easy')
+    expect(parseDifficulty('expert')).toBe('medium')
+    expect(parseDifficulty(undefined)).toBe('medium')
+  })
+})
+
+describe('updateMastery', () => {
+  it('expects half credit at the matching difficulty', () => {
+    expect(expectedCredit(0.5, 'medium')).toBe(0.5)
+    expect(expectedCredit(0.5, 'easy')).toBeGreaterThan(0.5)
+    expect(expectedCredit(0.5, 'hard')).toBeLessThan(0.5)
+  })
+
+  it('moves further for surprising results', () => {
+    const hardCorrect = updateMastery(newMasteryState(), 1, 'hard', NOW)
+    const easyCorrect = updateMastery(newMasteryState(), 1, 'easy', NOW)
+    const easyWrong = updateMastery(newMasteryState(), 0, 'easy', NOW)
+
+    expect(hardCorrect.mastery).toBeGreaterThan(easyCorrect.mastery)
+    expect(easyCorrect.mastery).toBeGreaterThan(INITIAL_MASTERY)
+    expect(INITIAL_MASTERY - easyWrong.mastery).toBeGreaterThan(hardCorrect.mastery - INITIAL_MASTERY)
+    expect(hardCorrect).toMatchObject({ answered: 1, last_answered_at: NOW.toISOString() })
+  })
+
+  it('counts partial credit in between', () => {
+    const partial = updateMastery(newMasteryState(), 0.5, 'medium', NOW)
+    expect(partial.mastery).toBe(INITIAL_MASTERY)
+  })
+
+  it('settles with more answers and stays within 0..1', () => {
+    const first = updateMastery(state(0.5, 0), 1, 'medium', NOW).mastery - 0.5
+    const later = updateMastery(state(0.5, 20), 1, 'medium', NOW).mastery - 0.5
+    expect(later).toBeLessThan(first)
+
+    let current = newMasteryState()
+    for (let i = 0; i < 30; i++) current = updateMastery(current, 0, 'easy', NOW)
+    expect(current.mastery).toBeGreaterThanOrEqual(0)
+    for (let i = 0; i < 60; i++) current = updateMastery(current, 1, 'hard', NOW)
+    expect(current.mastery).toBeLessThanOrEqual(1)
+    expect(current.mastery).toBeGreaterThan(0.8)
+  })
+})
+
+describe('difficultyFor', () => {
+  it('asks harder questions as mastery grows', () => {
+    expect(difficultyFor(0.1)).toBe('easy')
+    expect(difficultyFor(INITIAL_MASTERY)).toBe('medium')
+    expect(difficultyFor(0.9)).toBe('hard')
+  })
+})
+
+describe('pickNextTopic', () => {
+  const topics = ['Braking', 'Powertrain', 'Aerodynamics']
+
+  it('picks the weakest topic, then the least practiced', () => {
+    const states = new Map([
+      ['Braking', state(0.3, 4)],
+      ['Powertrain', state(0.7, 2)]
+    ])
+    expect(pickNextTopic(states, topics)).toBe('Braking')
+
+    states.set('Braking', state(0.5, 4))
+    states.set('Aerodynamics', state(0.5, 1))
+    expect(pickNextTopic(states, topics)).toBe('Aerodynamics')
+  })
+
+  it('does not repeat the previous topic', () => {
+    const states = new Map([['Braking', state(0.1, 4)]])
+    expect(pickNextTopic(states, topics, 'Braking')).toBe('Powertrain')
+    expect(pickNextTopic(states, ['Braking'], 'Braking')).toBe('Braking')
+  })
+})
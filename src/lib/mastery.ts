@@ -0,0 +1,67 @@
+/**
+ * Topic Mastery
+ * One 0..1 estimate per topic and user. Every graded answer moves it towards the
+ * credit earned, weighted by how surprising the result was for the question's
+ * difficulty (Elo style): a correct hard answer counts more than a correct easy one.
+ * The adaptive quiz asks about the weakest topic at a difficulty matching its mastery.
+ */
+
+export type Difficulty = 'easy' | 'medium' | 'hard'
+
+export interface MasteryState {
+  mastery: number
+  answered: number
+  last_answered_at: string | null
+}
+
+export const INITIAL_MASTERY = 0.5
+// Mastery at which the expected credit on a question is 50%
+const DIFFICULTY_LEVEL: Record<Difficulty, number> = { easy: 0.2, medium: 0.5, hard: 0.8 }
+const SLOPE = 5
+// The first answers on a topic move the estimate most
+const FIRST_STEP = 0.4
+const MIN_STEP = 0.1
+
+export function newMasteryState(): MasteryState {
+  return { mastery: INITIAL_MASTERY, answered: 0, last_answered_at: null }
+}
+
+// Generated questions say "hard", the question bank "Hard", unknown values count as medium
+export function parseDifficulty(value: unknown): Difficulty {
+  const difficulty = typeof value === 'string' ? value.trim().toLowerCase() : ''
+  return difficulty === 'easy' || difficulty === 'hard' ? difficulty : 'medium'
+}
+
+export function expectedCredit(mastery: number, difficulty: Difficulty): number {
+  return 1 / (1 + Math.exp(-SLOPE * (mastery - DIFFICULTY_LEVEL[difficulty])))
+}
+
+export function updateMastery(state: MasteryState, credit: number, difficulty: Difficulty, now = new Date()): MasteryState {
+  const step = Math.max(MIN_STEP, FIRST_STEP / (state.answered + 1))
+  const mastery = state.mastery + step * (credit - expectedCredit(state.mastery, difficulty))
+
+  return {
+    mastery: Math.round(Math.max(0, Math.min(1, mastery)) * 1000) / 1000,
+    answered: state.answered + 1,
+    last_answered_at: now.toISOString()
+  }
+}
+
+export function difficultyFor(mastery: number): Difficulty {
+  if (mastery < 0.35) return 'easy'
+  if (mastery < 0.65) return 'medium'
+  return 'hard'
+}
+
+/**
+ * Weakest topic first, topics with fewer answers break ties. The previous topic is
+ * skipped so a session does not get stuck on one topic.
+ */
+export function pickNextTopic(states: Map<string, MasteryState>, topics: string[], previousTopic: string | null = null): string {
+  const candidates = topics.length > 1 ? topics.filter(topic => topic !== previousTopic) : topics
+  const stateOf = (topic: string) => states.get(topic) ?? newMasteryState()
+
+  return [...candidates].sort((a, b) =>
+    stateOf(a).mastery - stateOf(b).mastery || stateOf(a).answered - stateOf(b).answered
+  )[0]
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { cleanJsonString, parseQuestionBank } from './questionBank'
+
+const QUIZ = {
+  quiz_id: 'q-17',
+  year: '2024',
+  class: 'EV',
+  event: [{ short_name: 'FSG' }],
+  questions: [
+    {
+      question_id: 'x-1',
+      type: 'single-choice',
+      text: 'How many brake circuits are required?',
+      answers: [
+        { answer_text: 'One', is_correct: false },
+        { answer_text: 'Two', is_correct: true }
+      ],
+      solution: [{ text: 'T 7.1.2' }]
+    },
+    { question_id: 'x-2', type: 'input', text: 'Maximum voltage?' }
+  ]
+}
+
+describe('cleanJsonString', () => {
+  it('removes form feeds, line breaks and non-printable characters', () => {
+    expect(cleanJsonString('\f{"a":\r\n"b\u0007"}\n')).toBe('{"a": "b"}')
+  })
+
+  it('keeps Latin-1 characters', () => {
+    expect(cleanJsonString('{"unit": "°C"}')).toBe('{"unit": "°C"}')
+  })
+
+  it('normalizes spacing around trailing booleans', () => {
+    expect(cleanJsonString('{"is_correct":   true   }')).toBe('{"is_correct": true }')
+    expect(cleanJsonString('{"is_correct":false}')).toBe('{"is_correct": false }')
+  })
+})
+
+describe('parseQuestionBank', () => {
+  it('maps each quiz block to question_bank rows', () => {
+    const text = `QUIZ 1\n${JSON.stringify(QUIZ, null, 2)}\fQUIZ 2\n${JSON.stringify({ ...QUIZ, quiz_id: 'q-18', event: [] })}`
+    const result = parseQuestionBank(text)
+
+    expect(result).toMatchObject({ blocks: 2, successCount: 2, failCount: 0 })
+    expect(result.questions).toHaveLength(4)
+    expect(result.questions[0]).toEqual({
+      external_id: 'x-1',
+      quiz_id: 'q-17',
+      year: 2024,
+      class: 'EV',
+      source_event: 'FSG',
+      type: 'single-choice',
+      question_text: 'How many brake circuits are required?',
+      options: [{ text: 'One', is_correct: false }, { text: 'Two', is_correct: true }],
+      images: [],
+      explanation: 'T 7.1.2'
+    })
+    expect(result.questions[1]).toMatchObject({ options: [], explanation: null })
+    expect(result.questions[2].source_event).toBe('Unknown')
+  })
+
+  it('skips blocks that are not valid JSON', () => {
+    const text = `QUIZ 1 {"quiz_id": "broken", "questions": [ QUIZ 2 ${JSON.stringify(QUIZ)}`
+    const result = parseQuestionBank(text)
+
+    expect(result).toMatchObject({ blocks: 2, successCount: 1, failCount: 1 })
+    expect(result.questions).toHaveLength(2)
+  })
+
+  it('ignores text too short to be a quiz', () => {
+    expect(parseQuestionBank('QUIZ 1\n\nQUIZ 2 {}').blocks).toBe(0)
+  })
+})
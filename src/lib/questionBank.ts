@@ -0,0 +1,82 @@
+/**
+ * Question Bank Import
+ * Parses the official quiz export: JSON quiz objects separated by "QUIZ <n>"
+ * headers, often damaged by PDF/OCR conversion
+ */
+
+export interface QuestionBankRow {
+  external_id: string
+  quiz_id: string
+  year: number
+  class: string
+  source_event: string
+  type: string
+  question_text: string
+  options: { text: string; is_correct: boolean }[]
+  images: any[]
+  explanation: string | null
+}
+
+export interface ParsedQuestionBank {
+  blocks: number
+  questions: QuestionBankRow[]
+  successCount: number
+  failCount: number
+}
+
+export function cleanJsonString(str: string): string {
+  return str
+    // 1. Remove Form Feed characters
+    .replace(/\f/g, '')
+    // 2. Replace actual newlines/returns with spaces (fixes unescaped newlines in strings)
+    .replace(/[\r\n]+/g, ' ')
+    // 3. Fix corrupted "true"/"false" if they have weird spacing (common in OCR)
+    .replace(/:\s*true\s*}/g, ': true }')
+    .replace(/:\s*false\s*}/g, ': false }')
+    // 4. Remove any non-printable ASCII characters (except valid ones)
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, '')
+    .trim()
+}
+
+// Blocks that fail to parse are counted and skipped
+export function parseQuestionBank(text: string): ParsedQuestionBank {
+  const parts = text.split(/QUIZ\s+\d+/).filter(part => part.trim().length > 10)
+
+  const questions: QuestionBankRow[] = []
+  let successCount = 0
+  let failCount = 0
+
+  for (let i = 0; i < parts.length; i++) {
+    try {
+      const quiz = JSON.parse(cleanJsonString(parts[i]))
+      questions.push(...mapQuizQuestions(quiz))
+      successCount++
+    } catch {
+      console.error(`Block ${i} failed. Preview: ${parts[i].substring(0, 50)}...`)
+      failCount++
+    }
+  }
+
+  return { blocks: parts.length, questions, successCount, failCount }
+}
+
+function mapQuizQuestions(quiz: any): QuestionBankRow[] {
+  const eventName = quiz.event && quiz.event[0] ? quiz.event[0].short_name : 'Unknown'
+  const quizYear = parseInt(quiz.year) || 0
+
+  return quiz.questions.map((q: any) => ({
+    external_id: q.question_id,
+    quiz_id: quiz.quiz_id,
+    year: quizYear,
+    class: quiz.class,
+    source_event: eventName,
+    type: q.type,
+    question_text: q.text,
+    options: q.answers?.map((a: any) => ({
+      text: a.answer_text,
+      is_correct: a.is_correct
+    })) || [],
+    images: q.images || [],
+    explanation: q.solution && q.solution[0] ? q.solution[0].text : null
+  }))
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { answerQuality, MIN_EASE, newReviewState, scheduleReview } from './spacedRepetition'
+
+const NOW = new Date('2025-06-01T12:00:00Z')
+const daysAfterNow = (iso: string) => (new Date(iso).getTime() - NOW.getTime()) / (24 * 60 * 60 * 1000)
+
+describe('answerQuality', () => {
+  it('rates answers on the SM-2 scale', () => {
+    expect(answerQuality({ correct: true, credit: 1 }, true, 5_000)).toBe(5)
+    expect(answerQuality({ correct: true, credit: 1 }, true, 60_000)).toBe(4)
+    expect(answerQuality({ correct: true, credit: 1 }, true, null)).toBe(4)
+    expect(answerQuality({ correct: false, credit: 0.5 }, true, 5_000)).toBe(2)
+    expect(answerQuality({ correct: false, credit: 0 }, true, 5_000)).toBe(1)
+    expect(answerQuality({ correct: false, credit: 0 }, false, null)).toBe(0)
+  })
+})
+
+describe('scheduleReview', () => {
+  it('starts new questions with 1 and 6 day intervals', () => {
+    const first = scheduleReview(newReviewState(NOW), 4, NOW)
+    expect(first).toMatchObject({ interval_days: 1, repetitions: 1, lapses: 0, ease: 2.5 })
+    expect(daysAfterNow(first.due_at)).toBe(1)
+    expect(first.last_reviewed_at).toBe(NOW.toISOString())
+
+    const second = scheduleReview(first, 4, NOW)
+    expect(second).toMatchObject({ interval_days: 6, repetitions: 2 })
+  })
+
+  it('multiplies the interval by the ease after that', () => {
+    const state = { ...newReviewState(NOW), interval_days: 6, repetitions: 2, ease: 2.5 }
+    const next = scheduleReview(state, 5, NOW)
+
+    expect(next.interval_days).toBe(15)
+    expect(next.ease).toBe(2.6)
+    expect(daysAfterNow(next.due_at)).toBe(15)
+  })
+
+  it('brings wrong answers back tomorrow and lowers the ease', () => {
+    const state = { ...newReviewState(NOW), interval_days: 15, repetitions: 3, ease: 2.5 }
+    const next = scheduleReview(state, 1, NOW)
+
+    expect(next).toMatchObject({ interval_days: 1, repetitions: 0, lapses: 1 })
+    expect(next.ease).toBeCloseTo(1.96)
+  })
+
+  it('does not count a lapse for a question that was never learned', () => {
+    expect(scheduleReview(newReviewState(NOW), 0, NOW).lapses).toBe(0)
+  })
+
+  it('keeps the ease above the minimum', () => {
+    let state = newReviewState(NOW)
+    for (let i = 0; i < 10; i++) state = scheduleReview(state, 0, NOW)
+    expect(state.ease).toBe(MIN_EASE)
+  })
+})
@@ -0,0 +1,74 @@
+import type { GradeResult } from '../../supabase/functions/_shared/grading'
+
+/**
+ * SM-2 Scheduler
+ * Each answered question_bank question gets an ease factor and an interval. Correct
+ * answers push the next review further out, wrong answers bring it back to tomorrow
+ * and make the question "harder" (lower ease), so it comes back more often.
+ */
+
+export interface ReviewState {
+  ease: number
+  interval_days: number
+  repetitions: number // correct answers in a row
+  lapses: number
+  due_at: string
+  last_reviewed_at: string | null
+}
+
+export const DEFAULT_EASE = 2.5
+export const MIN_EASE = 1.3
+// Correct answers given faster than this count as "easy"
+const QUICK_ANSWER_MS = 20_000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function newReviewState(now = new Date()): ReviewState {
+  return {
+    ease: DEFAULT_EASE,
+    interval_days: 0,
+    repetitions: 0,
+    lapses: 0,
+    due_at: now.toISOString(),
+    last_reviewed_at: null
+  }
+}
+
+/**
+ * Answer quality on the SM-2 scale (0-5):
+ * 5 quick correct, 4 correct, 2 partially correct, 1 wrong, 0 no answer
+ */
+export function answerQuality(grade: GradeResult, answered: boolean, timeSpentMs: number | null): number {
+  if (!answered) return 0
+  if (grade.correct) return timeSpentMs !== null && timeSpentMs < QUICK_ANSWER_MS ? 5 : 4
+  return grade.credit > 0 ? 2 : 1
+}
+
+export function scheduleReview(state: ReviewState, quality: number, now = new Date()): ReviewState {
+  const q = Math.max(0, Math.min(5, Math.round(quality)))
+  const ease = Math.max(MIN_EASE, state.ease + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)))
+
+  let intervalDays: number
+  let repetitions: number
+  let lapses = state.lapses
+
+  if (q >= 3) {
+    repetitions = state.repetitions + 1
+    if (repetitions === 1) intervalDays = 1
+    else if (repetitions === 2) intervalDays = 6
+    else intervalDays = Math.round(state.interval_days * state.ease)
+  } else {
+    // Relearn: back to tomorrow
+    repetitions = 0
+    intervalDays = 1
+    if (state.repetitions > 0) lapses++
+  }
+
+  return {
+    ease: Math.round(ease * 100) / 100,
+    interval_days: intervalDays,
+    repetitions,
+    lapses,
+    due_at: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+    last_reviewed_at: now.toISOString()
+  }
+}
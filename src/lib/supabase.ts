@@ -1,7 +1,7 @@
 import { createClient } from '@supabase/supabase-js'
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
+export const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
+export const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
 
 if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error('Missing Supabase environment variables')
@@ -18,6 +18,150 @@ export interface Document {
   file_size: number
   mime_type: string
   uploaded_by: string
+  family_id: string | null
+  season: number | null
+  version: string | null
+  is_active: boolean
+  content_hash: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Documents that are versions of each other, e.g. the yearly FS rulebooks
+export interface DocumentFamily {
+  id: string
+  name: string
+  description: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Changelog returned by the rulebook-diff function
+export interface RuleChange {
+  rule_id: string
+  change_type: 'added' | 'removed' | 'modified'
+  before: string | null
+  after: string | null
+  summary: string | null
+}
+
+export interface RulebookDiff {
+  base: Pick<Document, 'id' | 'name' | 'season' | 'version'>
+  target: Pick<Document, 'id' | 'name' | 'season' | 'version'>
+  summary: { added: number; removed: number; modified: number; total: number }
+  changes: RuleChange[]
+  quiz: { questions: QuizQuestion[]; source: string } | null
+}
+
+// Flag written by process-document when a new document mostly repeats an existing one
+export interface DocumentDuplicate {
+  id: string
+  document_id: string
+  duplicate_of: string
+  matched_sections: number
+  total_sections: number
+  overlap: number
+  created_at: string
+}
+
+export type IngestionStatus = 'queued' | 'extracting' | 'embedding' | 'done' | 'failed'
+
+export interface IngestionJob {
+  id: string
+  document_id: string | null
+  name: string
+  file_path: string
+  file_size: number | null
+  mime_type: string | null
+  content_hash: string | null
+  status: IngestionStatus
+  total_chunks: number
+  processed_chunks: number
+  error: string | null
+  attempts: number
+  created_by: string
+  created_at: string
+  updated_at: string
+}
+
+// Admin-started job that re-embeds all document sections with a new model
+export interface ReembedJob {
+  id: string
+  model: string
+  status: 'queued' | 'running' | 'done' | 'failed'
+  total_sections: number
+  processed_sections: number
+  error: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type QuizMode = 'official' | 'ai' | 'changes' | 'review' | 'adaptive'
+
+// One self-quiz session; answers are stored per question in quiz_attempt_answers
+export interface QuizAttempt {
+  id: string
+  user_id: string
+  mode: QuizMode
+  filters: Record<string, any>
+  question_count: number
+  score: number | null
+  feedback: string | null
+  started_at: string
+  completed_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface QuizAttemptAnswer {
+  id: string
+  attempt_id: string
+  position: number
+  question_id: string | null
+  question: any // the question as it was asked
+  answer: any
+  is_correct: boolean
+  credit: number
+  time_spent_ms: number | null
+  answered_at: string
+}
+
+// SM-2 schedule of one question_bank question for one user
+export interface QuestionReview {
+  id: string
+  user_id: string
+  question_id: string
+  ease: number
+  interval_days: number
+  repetitions: number
+  lapses: number
+  due_at: string
+  last_reviewed_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Entry of the topic taxonomy; questions and topic_mastery store the slug
+export interface Topic {
+  id: string
+  slug: string
+  name: string
+  description: string | null
+  sort_order: number
+  created_at: string
+  updated_at: string
+}
+
+// Mastery estimate of one topic for one user, built from graded quiz answers
+export interface TopicMastery {
+  id: string
+  user_id: string
+  topic: string
+  mastery: number
+  answered: number
+  last_answered_at: string | null
   created_at: string
   updated_at: string
 }
@@ -51,12 +195,46 @@ export interface RoomParticipant {
   joined_at: string
 }
 
+export interface ChatThread {
+  id: string
+  user_id: string
+  title: string
+  is_shared: boolean
+  created_at: string
+  updated_at: string
+}
+
+// One numbered excerpt the assistant can cite as [index]
+export interface ChatSource {
+  index: number
+  chunk_id: number
+  document_id: string
+  document_name: string | null
+  file_path: string | null
+  section_ref: string | null
+  page_start: number | null
+  page_end: number | null
+  similarity?: number | null
+  rerank_score?: number | null
+}
+
+// Value of the `chat_rag` row in app_settings
+export interface RagSettings {
+  match_threshold: number
+  match_count: number
+  rerank_enabled: boolean
+  rerank_top_n: number
+  rerank_min_score: number
+  context_token_budget: number
+}
+
 export interface ChatMessage {
   id: string
   content: string
   is_user: boolean
   timestamp: string
-  sources?: string[]
+  // Older messages stored bare document IDs
+  sources?: (ChatSource | string)[]
 }
 
 export interface QuizQuestion {
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest'
+import { getQuestionFromDeck, resolveTurn } from './teamGame'
+
+const question = (id: string, correct_answer: any = 1, type = 'single_choice') =>
+  ({ id, type, question: `Question ${id}`, options: ['A', 'B', 'C'], correct_answer, explanation: '', difficulty: 'medium' }) as any
+
+const DECK = {
+  '1': [question('1a'), question('1b')],
+  '2': [question('2a'), question('2b')]
+}
+
+function room(overrides: Record<string, any> = {}) {
+  return {
+    current_turn_team_id: 1,
+    current_question_index: 0,
+    current_question: { ...DECK['1'][0], owner_team_id: 1 },
+    team_questions: DECK,
+    team_scores: { '1': 0, '2': 0 },
+    questions_per_team: 2,
+    ...overrides
+  }
+}
+
+describe('getQuestionFromDeck', () => {
+  it('tags the question with the owning team', () => {
+    expect(getQuestionFromDeck(DECK, 2, 1)).toMatchObject({ id: '2b', owner_team_id: 2 })
+  })
+
+  it('returns null past the end of the deck', () => {
+    expect(getQuestionFromDeck(DECK, 1, 2)).toBeNull()
+    expect(getQuestionFromDeck(DECK, 3, 0)).toBeNull()
+  })
+})
+
+describe('resolveTurn', () => {
+  it('passes the turn after a correct own answer', () => {
+    const result = resolveTurn(room(), 1)
+
+    expect(result).toMatchObject({ isCorrect: true, nextTeam: 2, nextIndex: 0, finished: false })
+    expect(result.teamScores).toEqual({ '1': 1, '2': 0 })
+    expect(result.nextQuestion).toMatchObject({ id: '2a', owner_team_id: 2 })
+  })
+
+  it('advances the round after team 2 answers', () => {
+    const result = resolveTurn(room({
+      current_turn_team_id: 2,
+      current_question: { ...DECK['2'][0], owner_team_id: 2 }
+    }), 1)
+
+    expect(result).toMatchObject({ nextTeam: 1, nextIndex: 1 })
+    expect(result.nextQuestion).toMatchObject({ id: '1b', owner_team_id: 1 })
+  })
+
+  it('offers the same question to the other team after a wrong own answer', () => {
+    const result = resolveTurn(room(), 0)
+
+    expect(result).toMatchObject({ isCorrect: false, nextTeam: 2, nextIndex: 0, finished: false })
+    expect(result.nextQuestion).toMatchObject({ id: '1a', owner_team_id: 1 })
+    expect(result.teamScores).toEqual({ '1': 0, '2': 0 })
+  })
+
+  it('keeps the turn with a team that steals correctly', () => {
+    const result = resolveTurn(room({ current_turn_team_id: 2 }), 1)
+
+    expect(result).toMatchObject({ isCorrect: true, nextTeam: 2, nextIndex: 1 })
+    expect(result.teamScores).toEqual({ '1': 0, '2': 1 })
+    expect(result.nextQuestion).toMatchObject({ id: '2b', owner_team_id: 2 })
+  })
+
+  it('grades inputs like the self-quiz', () => {
+    const input = { ...question('1a', '11.7-12.1 V', 'input'), owner_team_id: 1 }
+
+    expect(resolveTurn(room({ current_question: input }), '11.9').isCorrect).toBe(true)
+    expect(resolveTurn(room({ current_question: input }), '11900 mV').isCorrect).toBe(true)
+    expect(resolveTurn(room({ current_question: input }), '13').isCorrect).toBe(false)
+  })
+
+  it('returns the turn to the owner after a failed steal', () => {
+    const result = resolveTurn(room({ current_turn_team_id: 2 }), 'PASS')
+
+    expect(result).toMatchObject({ isCorrect: false, nextTeam: 1, nextIndex: 1 })
+    expect(result.nextQuestion).toMatchObject({ id: '1b', owner_team_id: 1 })
+  })
+
+  it('treats a question without an owner as owned by the answering team', () => {
+    const result = resolveTurn(room({ current_question: DECK['1'][0] }), 0)
+
+    expect(result.nextTeam).toBe(2)
+    expect(result.nextQuestion).toMatchObject({ id: '1a', owner_team_id: 1 })
+  })
+
+  it('finishes the game when the decks run out', () => {
+    const result = resolveTurn(room({
+      current_turn_team_id: 2,
+      current_question_index: 1,
+      current_question: { ...DECK['2'][1], owner_team_id: 2 },
+      team_scores: { '1': 2, '2': 1 }
+    }), 1)
+
+    expect(result).toMatchObject({ finished: true, nextIndex: 2, nextQuestion: null })
+    expect(result.teamScores).toEqual({ '1': 2, '2': 2 })
+  })
+
+  it('does not modify the room', () => {
+    const current = room()
+    resolveTurn(current, 1)
+    expect(current.team_scores).toEqual({ '1': 0, '2': 0 })
+  })
+})
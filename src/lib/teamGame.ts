@@ -0,0 +1,76 @@
+import type { QuizQuestion, TeamRoom } from './supabase'
+import { gradeAnswer } from '../../supabase/functions/_shared/grading'
+
+// Questions carry the team whose deck they came from, so a steal can be told apart
+export interface GameQuestion extends QuizQuestion {
+  owner_team_id?: number
+}
+
+export interface TurnResult {
+  isCorrect: boolean
+  nextTeam: number
+  nextIndex: number
+  nextQuestion: GameQuestion | null
+  teamScores: Record<string, number>
+  finished: boolean
+}
+
+type TurnRoom = Pick<TeamRoom,
+  'current_turn_team_id' | 'current_question_index' | 'current_question' |
+  'team_questions' | 'team_scores' | 'questions_per_team'>
+
+export function getQuestionFromDeck(allQuestions: Record<string, any[]>, teamId: number, index: number): GameQuestion | null {
+  const list = allQuestions[teamId.toString()] || []
+  const q = list[index]
+  if (q) return { ...q, owner_team_id: teamId }
+  return null
+}
+
+/**
+ * Turn Resolution
+ * Correct own answer -> point, turn passes (round advances after team 2)
+ * Wrong own answer   -> the other team gets one steal attempt at the same question
+ * Correct steal      -> point, stealing team keeps the turn on the next question
+ * Wrong steal        -> turn returns to the owner on the next question
+ */
+export function resolveTurn(room: TurnRoom, teamAnswer: any): TurnResult {
+  const currentQ = room.current_question as GameQuestion
+  const currentTeam = room.current_turn_team_id
+  const isCorrect = gradeAnswer(teamAnswer, currentQ.correct_answer, currentQ.type).correct
+
+  const originalOwner = currentQ.owner_team_id || currentTeam
+  const isStealAttempt = currentTeam !== originalOwner
+
+  let nextTeam = currentTeam
+  let nextIndex = room.current_question_index
+  let nextQuestion: GameQuestion | null = null
+  const teamScores = { ...room.team_scores }
+
+  if (isCorrect) {
+    teamScores[currentTeam] = (teamScores[currentTeam] || 0) + 1
+
+    if (isStealAttempt) {
+      nextTeam = currentTeam
+      nextIndex++
+    } else {
+      nextTeam = (currentTeam % 2) + 1
+      if (currentTeam === 2) nextIndex++
+    }
+
+    nextQuestion = getQuestionFromDeck(room.team_questions, nextTeam, nextIndex)
+  } else if (!isStealAttempt) {
+    nextTeam = (currentTeam % 2) + 1
+    nextQuestion = currentQ
+  } else {
+    nextTeam = originalOwner
+    nextIndex++
+    nextQuestion = getQuestionFromDeck(room.team_questions, nextTeam, nextIndex)
+  }
+
+  const finished = nextIndex >= room.questions_per_team
+  if (!finished && nextQuestion && !nextQuestion.owner_team_id) {
+    nextQuestion = { ...nextQuestion, owner_team_id: originalOwner }
+  }
+
+  return { isCorrect, nextTeam, nextIndex, nextQuestion, teamScores, finished }
+}
@@ -1,14 +1,38 @@
 import React, { useState, useEffect } from 'react'
 import { supabase } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
-import { Users, Shield, ShieldOff, Trash2, Key, Loader, CircleAlert as AlertCircle, CircleCheck as CheckCircle, Crown, Mail, Calendar, Search, UserCheck, UserX } from 'lucide-react'
-import type { User } from '../lib/supabase'
+import { Users, Shield, ShieldOff, Trash2, Key, Loader, CircleAlert as AlertCircle, CircleCheck as CheckCircle, Crown, Mail, Calendar, Search, UserCheck, UserX, SlidersHorizontal, Save, RefreshCw, Tag, Sparkles } from 'lucide-react'
+import type { User, RagSettings, ReembedJob, Topic } from '../lib/supabase'
+
+const DEFAULT_RAG_SETTINGS: RagSettings = {
+  match_threshold: 0.4,
+  match_count: 25,
+  rerank_enabled: true,
+  rerank_top_n: 8,
+  rerank_min_score: 3,
+  context_token_budget: 6000
+}
+
+// Used until the `embedding` app setting exists
+const DEFAULT_EMBEDDING_MODEL = 'text-embedding-004'
 
 interface Message {
   type: 'success' | 'error'
   text: string
 }
 
+// question_bank columns needed for re-tagging
+interface BankQuestion {
+  id: string
+  question_text: string
+  year: number | null
+  source_event: string | null
+  topic: string | null
+  topic_source: 'llm' | 'admin' | 'llm_failed' | null
+}
+
+const QUESTIONS_PER_PAGE = 50
+
 export default function Admin() {
   const { user, isAdmin } = useAuth()
   const [users, setUsers] = useState<User[]>([])
@@ -18,10 +42,52 @@ export default function Admin() {
   const [searchTerm, setSearchTerm] = useState('')
   const [showPasswordModal, setShowPasswordModal] = useState<string | null>(null)
   const [newPassword, setNewPassword] = useState('')
+  const [ragSettings, setRagSettings] = useState<RagSettings>(DEFAULT_RAG_SETTINGS)
+  const [savingSettings, setSavingSettings] = useState(false)
+  const [embeddingModel, setEmbeddingModel] = useState(DEFAULT_EMBEDDING_MODEL)
+  const [newEmbeddingModel, setNewEmbeddingModel] = useState('')
+  const [reembedJob, setReembedJob] = useState<ReembedJob | null>(null)
+  const [startingReembed, setStartingReembed] = useState(false)
+  const [topics, setTopics] = useState<Topic[]>([])
+  const [bankQuestions, setBankQuestions] = useState<BankQuestion[]>([])
+  const [questionTopicFilter, setQuestionTopicFilter] = useState('untagged')
+  const [questionSearch, setQuestionSearch] = useState('')
+  const [untaggedCount, setUntaggedCount] = useState(0)
+  const [tagging, setTagging] = useState(false)
 
   useEffect(() => {
     if (isAdmin) {
       fetchUsers()
+      fetchRagSettings()
+      fetchEmbeddingSettings()
+      fetchTopics()
+    }
+  }, [isAdmin])
+
+  useEffect(() => {
+    if (isAdmin) fetchBankQuestions()
+  }, [isAdmin, questionTopicFilter])
+
+  // Live re-embedding progress
+  useEffect(() => {
+    if (!isAdmin) return
+
+    const channel = supabase
+      .channel('reembed-jobs')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'reembed_jobs' }, (payload) => {
+        if (payload.eventType === 'DELETE') return
+
+        const job = payload.new as ReembedJob
+        setReembedJob(job)
+        if (job.status === 'done') {
+          setEmbeddingModel(job.model)
+          showMessage('success', `All documents re-embedded with ${job.model}`)
+        }
+      })
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
     }
   }, [isAdmin])
 
@@ -42,6 +108,163 @@ export default function Admin() {
     }
   }
 
+  const fetchRagSettings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('app_settings')
+        .select('value')
+        .eq('key', 'chat_rag')
+        .maybeSingle()
+
+      if (error) throw error
+      if (data?.value) setRagSettings({ ...DEFAULT_RAG_SETTINGS, ...data.value })
+    } catch (error) {
+      console.error('Error fetching retrieval settings:', error)
+    }
+  }
+
+  const saveRagSettings = async () => {
+    setSavingSettings(true)
+    try {
+      const { error } = await supabase
+        .from('app_settings')
+        .upsert({ key: 'chat_rag', value: ragSettings, updated_by: user?.id })
+
+      if (error) throw error
+      showMessage('success', 'Retrieval settings saved')
+    } catch (error) {
+      console.error('Error saving retrieval settings:', error)
+      showMessage('error', 'Failed to save retrieval settings')
+    } finally {
+      setSavingSettings(false)
+    }
+  }
+
+  const fetchEmbeddingSettings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('app_settings')
+        .select('value')
+        .eq('key', 'embedding')
+        .maybeSingle()
+
+      if (error) throw error
+      if (data?.value?.model) setEmbeddingModel(data.value.model)
+
+      const { data: jobs, error: jobError } = await supabase
+        .from('reembed_jobs')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(1)
+
+      if (jobError) throw jobError
+      setReembedJob(jobs?.[0] ?? null)
+    } catch (error) {
+      console.error('Error fetching embedding settings:', error)
+    }
+  }
+
+  const startReembed = async () => {
+    const model = newEmbeddingModel.trim()
+    if (!model) return
+    if (!confirm(`Re-embed all document sections with ${model}? Q&A keeps using ${embeddingModel} until the job has finished.`)) return
+
+    setStartingReembed(true)
+    try {
+      const { error } = await supabase.functions.invoke('reembed-documents', { body: { model } })
+      if (error) throw error
+
+      setNewEmbeddingModel('')
+      fetchEmbeddingSettings()
+    } catch (error) {
+      console.error('Error starting re-embedding:', error)
+      showMessage('error', 'Failed to start re-embedding')
+    } finally {
+      setStartingReembed(false)
+    }
+  }
+
+  const fetchTopics = async () => {
+    const { data, error } = await supabase.from('topics').select('*').order('sort_order')
+    if (error) console.error('Error fetching topics:', error)
+    else setTopics(data || [])
+  }
+
+  const fetchBankQuestions = async () => {
+    try {
+      let query = supabase
+        .from('question_bank')
+        .select('id, question_text, year, source_event, topic, topic_source')
+
+      if (questionTopicFilter === 'untagged') query = query.is('topic', null)
+      else if (questionTopicFilter !== 'all') query = query.eq('topic', questionTopicFilter)
+      if (questionSearch.trim()) query = query.ilike('question_text', `%${questionSearch.trim()}%`)
+
+      const { data, error } = await query.order('id').limit(QUESTIONS_PER_PAGE)
+      if (error) throw error
+      setBankQuestions(data || [])
+
+      // Questions the classifier could not tag are left to the admins
+      const { count, error: countError } = await supabase
+        .from('question_bank')
+        .select('id', { count: 'exact', head: true })
+        .is('topic', null)
+        .is('topic_source', null)
+
+      if (countError) throw countError
+      setUntaggedCount(count ?? 0)
+    } catch (error) {
+      console.error('Error fetching question bank:', error)
+      showMessage('error', 'Failed to fetch questions')
+    }
+  }
+
+  // Manual tags are final, the classifier only tags untagged questions
+  const retagQuestion = async (questionId: string, topic: string) => {
+    setActionLoading(questionId)
+    try {
+      const { error } = await supabase
+        .from('question_bank')
+        .update({ topic: topic || null, topic_source: topic ? 'admin' : null })
+        .eq('id', questionId)
+
+      if (error) throw error
+      setBankQuestions(prev => prev.map(q =>
+        q.id === questionId ? { ...q, topic: topic || null, topic_source: topic ? 'admin' : null } : q
+      ))
+    } catch (error) {
+      console.error('Error re-tagging question:', error)
+      showMessage('error', 'Failed to update the topic')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const tagUntaggedQuestions = async () => {
+    setTagging(true)
+    let total = 0
+    let failed = 0
+    try {
+      // Every processed question is tagged or marked as not classifiable, so this ends
+      while (true) {
+        const { data, error } = await supabase.functions.invoke('tag-questions', { body: {} })
+        if (error) throw error
+
+        total += data.tagged
+        failed += data.failed
+        setUntaggedCount(data.remaining)
+        if (data.remaining === 0 || data.processed === 0) break
+      }
+      showMessage('success', `Tagged ${total} question${total === 1 ? '' : 's'}${failed ? `, ${failed} need a manual topic` : ''}`)
+    } catch (error) {
+      console.error('Error tagging questions:', error)
+      showMessage('error', `Tagging stopped after ${total} questions`)
+    } finally {
+      setTagging(false)
+      fetchBankQuestions()
+    }
+  }
+
   const showMessage = (type: 'success' | 'error', text: string) => {
     setMessage({ type, text })
     setTimeout(() => setMessage(null), 5000)
@@ -139,6 +362,8 @@ export default function Admin() {
     u.email.toLowerCase().includes(searchTerm.toLowerCase())
   )
 
+  const reembedActive = reembedJob?.status === 'queued' || reembedJob?.status === 'running'
+
   if (!isAdmin) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -370,6 +595,250 @@ export default function Admin() {
           </div>
         )}
       </div>
+
+      {/* Retrieval Settings */}
+      <div className="card">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+            <SlidersHorizontal className="w-5 h-5 mr-2" />
+            Q&A Retrieval Settings
+          </h2>
+          <button
+            onClick={saveRagSettings}
+            disabled={savingSettings}
+            className="btn-primary flex items-center"
+          >
+            {savingSettings ? <Loader className="w-4 h-4 animate-spin mr-2" /> : <Save className="w-4 h-4 mr-2" />}
+            Save
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-xs font-bold text-gray-500 uppercase tracking-wide mb-2">
+              Similarity Threshold
+            </label>
+            <input
+              type="number"
+              min="0"
+              max="1"
+              step="0.05"
+              value={ragSettings.match_threshold}
+              onChange={(e) => setRagSettings(prev => ({ ...prev, match_threshold: parseFloat(e.target.value) || 0 }))}
+              className="input-field w-full"
+            />
+            <p className="text-xs text-gray-500 mt-1">Minimum cosine similarity for vector matches</p>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-gray-500 uppercase tracking-wide mb-2">
+              Candidates Retrieved
+            </label>
+            <input
+              type="number"
+              min="1"
+              max="50"
+              value={ragSettings.match_count}
+              onChange={(e) => setRagSettings(prev => ({ ...prev, match_count: parseInt(e.target.value) || 1 }))}
+              className="input-field w-full"
+            />
+            <p className="text-xs text-gray-500 mt-1">Chunks fetched before re-ranking</p>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-gray-500 uppercase tracking-wide mb-2">
+              Context Token Budget
+            </label>
+            <input
+              type="number"
+              min="500"
+              max="30000"
+              step="500"
+              value={ragSettings.context_token_budget}
+              onChange={(e) => setRagSettings(prev => ({ ...prev, context_token_budget: parseInt(e.target.value) || 500 }))}
+              className="input-field w-full"
+            />
+            <p className="text-xs text-gray-500 mt-1">Approximate tokens of context sent to the model</p>
+          </div>
+
+          <div className="flex items-start space-x-3">
+            <input
+              id="rerank-enabled"
+              type="checkbox"
+              checked={ragSettings.rerank_enabled}
+              onChange={(e) => setRagSettings(prev => ({ ...prev, rerank_enabled: e.target.checked }))}
+              className="mt-1"
+            />
+            <label htmlFor="rerank-enabled" className="text-sm text-gray-700">
+              <span className="font-medium">Re-rank candidates</span>
+              <span className="block text-xs text-gray-500">Score each chunk against the question with the LLM</span>
+            </label>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-gray-500 uppercase tracking-wide mb-2">
+              Chunks Kept
+            </label>
+            <input
+              type="number"
+              min="1"
+              max="25"
+              value={ragSettings.rerank_top_n}
+              onChange={(e) => setRagSettings(prev => ({ ...prev, rerank_top_n: parseInt(e.target.value) || 1 }))}
+              className="input-field w-full"
+              disabled={!ragSettings.rerank_enabled}
+            />
+            <p className="text-xs text-gray-500 mt-1">Best chunks passed to the prompt</p>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-gray-500 uppercase tracking-wide mb-2">
+              Minimum Re-rank Score
+            </label>
+            <input
+              type="number"
+              min="0"
+              max="10"
+              step="0.5"
+              value={ragSettings.rerank_min_score}
+              onChange={(e) => setRagSettings(prev => ({ ...prev, rerank_min_score: parseFloat(e.target.value) || 0 }))}
+              className="input-field w-full"
+              disabled={!ragSettings.rerank_enabled}
+            />
+            <p className="text-xs text-gray-500 mt-1">Chunks scoring below this (0-10) are dropped</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Embedding Model */}
+      <div className="card">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center mb-2">
+          <RefreshCw className="w-5 h-5 mr-2" />
+          Embedding Model
+        </h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Active model: <span className="font-mono">{embeddingModel}</span>. Switching models re-embeds every document
+          section; Q&A only compares vectors of the same model and keeps the current one until all sections are done.
+        </p>
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <input
+            type="text"
+            value={newEmbeddingModel}
+            onChange={(e) => setNewEmbeddingModel(e.target.value)}
+            placeholder="e.g. text-embedding-005"
+            className="input-field flex-1"
+            disabled={startingReembed || reembedActive}
+          />
+          <button
+            onClick={startReembed}
+            disabled={!newEmbeddingModel.trim() || startingReembed || reembedActive}
+            className="btn-primary flex items-center justify-center"
+          >
+            {startingReembed ? <Loader className="w-4 h-4 animate-spin mr-2" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+            Re-embed All Documents
+          </button>
+        </div>
+
+        {reembedJob && (
+          <div className="mt-4">
+            <div className="flex justify-between text-sm text-gray-600 mb-1">
+              <span>
+                {reembedJob.model}: {reembedJob.status === 'failed' ? 'Failed' : reembedJob.status === 'done' ? 'Done' : 'Re-embedding'}
+              </span>
+              <span>{reembedJob.processed_sections} / {reembedJob.total_sections} sections</span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className={`h-2 rounded-full ${reembedJob.status === 'failed' ? 'bg-danger-500' : 'bg-primary-600'}`}
+                style={{ width: `${reembedJob.total_sections > 0 ? Math.min(100, Math.round((reembedJob.processed_sections / reembedJob.total_sections) * 100)) : 100}%` }}
+              />
+            </div>
+            {reembedJob.error && <p className="text-xs text-danger-600 mt-1">{reembedJob.error}</p>}
+          </div>
+        )}
+      </div>
+
+      {/* Question Topics */}
+      <div className="card">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-2">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Tag className="w-5 h-5 mr-2" />
+            Question Topics
+          </h2>
+          <button
+            onClick={tagUntaggedQuestions}
+            disabled={tagging || untaggedCount === 0}
+            className="btn-primary flex items-center justify-center"
+          >
+            {tagging ? <Loader className="w-4 h-4 animate-spin mr-2" /> : <Sparkles className="w-4 h-4 mr-2" />}
+            Auto-tag Untagged ({untaggedCount})
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Imported questions are tagged by the LLM classifier. Topics set here are kept, the classifier only tags
+          questions without a topic.
+        </p>
+
+        <div className="flex flex-col sm:flex-row gap-3 mb-4">
+          <select
+            value={questionTopicFilter}
+            onChange={(e) => setQuestionTopicFilter(e.target.value)}
+            className="input-field sm:w-64"
+          >
+            <option value="untagged">Untagged</option>
+            <option value="all">All Topics</option>
+            {topics.map((topic) => (
+              <option key={topic.slug} value={topic.slug}>{topic.name}</option>
+            ))}
+          </select>
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              type="text"
+              placeholder="Search questions, press Enter..."
+              value={questionSearch}
+              onChange={(e) => setQuestionSearch(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && fetchBankQuestions()}
+              className="input-field pl-10 w-full"
+            />
+          </div>
+        </div>
+
+        {bankQuestions.length === 0 ? (
+          <p className="text-center text-gray-600 py-6">No questions found</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {bankQuestions.map((q) => (
+              <div key={q.id} className="py-3 flex flex-col sm:flex-row sm:items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-900 line-clamp-2">{q.question_text}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {[q.source_event, q.year].filter(Boolean).join(' ')}
+                    {q.topic_source === 'llm_failed'
+                      ? ' · the classifier found no topic'
+                      : q.topic_source && ` · tagged by ${q.topic_source === 'admin' ? 'an admin' : 'the classifier'}`}
+                  </p>
+                </div>
+                <select
+                  value={q.topic ?? ''}
+                  onChange={(e) => retagQuestion(q.id, e.target.value)}
+                  disabled={actionLoading === q.id}
+                  className="input-field text-sm sm:w-56"
+                >
+                  <option value="">Untagged</option>
+                  {topics.map((topic) => (
+                    <option key={topic.slug} value={topic.slug}>{topic.name}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        )}
+        {bankQuestions.length === QUESTIONS_PER_PAGE && (
+          <p className="text-xs text-gray-500 mt-3">Showing the first {QUESTIONS_PER_PAGE} questions, narrow the filter or search to find others.</p>
+        )}
+      </div>
     </div>
   )
 }
\ No newline at end of file
@@ -1,11 +1,32 @@
 import React, { useState, useEffect, useRef } from 'react'
-import { supabase, ChatMessage } from '../lib/supabase'
+import { supabase, ChatMessage, ChatSource, ChatThread } from '../lib/supabase'
+import { streamChatRag } from '../lib/chatStream'
 import { useAuth } from '../contexts/AuthContext'
-import { Send, Bot, User, Loader, FileText, Settings, Check } from 'lucide-react'
+import { Send, Bot, User, Loader, FileText, Settings, Check, Plus, MessageSquare, Pencil, Trash2, Share2, X, Square } from 'lucide-react'
+
+const CITATION_PATTERN = /(\[\d+\])/g
+
+const formatSourceLocation = (source: ChatSource) => {
+  const parts: string[] = []
+  if (source.section_ref) parts.push(source.section_ref)
+  if (source.page_start) {
+    parts.push(source.page_end && source.page_end !== source.page_start
+      ? `pp. ${source.page_start}–${source.page_end}`
+      : `p. ${source.page_start}`)
+  }
+  return parts.join(', ')
+}
+
+const welcomeMessage = (): ChatMessage => ({
+  id: 'welcome',
+  content: "Hello! I'm your Formula Student training assistant. I can help you with questions about the rulebook, regulations, and technical requirements. What would you like to know?",
+  is_user: false,
+  timestamp: new Date().toISOString(),
+})
 
 export default function Chat() {
   const { user } = useAuth()
-  const [messages, setMessages] = useState<ChatMessage[]>([])
+  const [messages, setMessages] = useState<ChatMessage[]>([welcomeMessage()])
   const [input, setInput] = useState('')
   const [loading, setLoading] = useState(false)
   const messagesEndRef = useRef<HTMLDivElement>(null)
@@ -13,17 +34,29 @@ export default function Chat() {
   const [selectedDocuments, setSelectedDocuments] = useState<Set<string>>(new Set())
   const [availableDocuments, setAvailableDocuments] = useState<any[]>([])
 
+  // Conversation threads
+  const [threads, setThreads] = useState<ChatThread[]>([])
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null)
+  const [loadingThread, setLoadingThread] = useState(false)
+  const [editingThreadId, setEditingThreadId] = useState<string | null>(null)
+  const [editingTitle, setEditingTitle] = useState('')
+  const [showThreads, setShowThreads] = useState(false)
+
+  // 'hybrid' merges full-text and vector search, 'vector' is embeddings only (for comparison)
+  const [retrievalMode, setRetrievalMode] = useState<'hybrid' | 'vector'>(
+    () => localStorage.getItem('chatRetrievalMode') === 'vector' ? 'vector' : 'hybrid'
+  )
+
+  // Streaming answer
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  const activeThread = threads.find(t => t.id === activeThreadId) || null
+  const isOwnThread = !activeThread || activeThread.user_id === user?.id
+
   useEffect(() => {
-    // Add welcome message
-    setMessages([
-      {
-        id: '1',
-        content: "Hello! I'm your Formula Student training assistant. I can help you with questions about the rulebook, regulations, and technical requirements. What would you like to know?",
-        is_user: false,
-        timestamp: new Date().toISOString(),
-      }
-    ])
-  }, [])
+    fetchThreads()
+  }, [user?.id])
 
   useEffect(() => {
     fetchDocuments()
@@ -59,6 +92,118 @@ export default function Chat() {
     }
   }
 
+  const fetchThreads = async () => {
+    if (!user) return
+    try {
+      // RLS returns the user's own threads plus any thread shared by teammates
+      const { data, error } = await supabase
+        .from('chat_threads')
+        .select('*')
+        .order('updated_at', { ascending: false })
+
+      if (error) throw error
+      setThreads(data || [])
+    } catch (error) {
+      console.error('Error fetching threads:', error)
+    }
+  }
+
+  const openThread = async (threadId: string) => {
+    setActiveThreadId(threadId)
+    setShowThreads(false)
+    setLoadingThread(true)
+    try {
+      const { data, error } = await supabase
+        .from('chat_messages')
+        .select('*')
+        .eq('thread_id', threadId)
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+
+      const history: ChatMessage[] = (data || []).map((m: any) => ({
+        id: m.id,
+        content: m.content,
+        is_user: m.is_user,
+        timestamp: m.created_at,
+        sources: m.sources || []
+      }))
+      setMessages(history.length > 0 ? history : [welcomeMessage()])
+    } catch (error) {
+      console.error('Error loading thread:', error)
+    } finally {
+      setLoadingThread(false)
+    }
+  }
+
+  const startNewThread = () => {
+    setActiveThreadId(null)
+    setMessages([welcomeMessage()])
+    setShowThreads(false)
+  }
+
+  const createThread = async (firstQuestion: string) => {
+    if (!user) return null
+    const title = firstQuestion.length > 60 ? `${firstQuestion.slice(0, 57)}...` : firstQuestion
+    const { data, error } = await supabase
+      .from('chat_threads')
+      .insert({ user_id: user.id, title })
+      .select()
+      .single()
+
+    if (error) throw error
+    setThreads(prev => [data, ...prev])
+    setActiveThreadId(data.id)
+    return data as ChatThread
+  }
+
+  const renameThread = async (threadId: string) => {
+    const title = editingTitle.trim()
+    setEditingThreadId(null)
+    if (!title) return
+    try {
+      const { error } = await supabase
+        .from('chat_threads')
+        .update({ title })
+        .eq('id', threadId)
+
+      if (error) throw error
+      setThreads(prev => prev.map(t => t.id === threadId ? { ...t, title } : t))
+    } catch (error) {
+      console.error('Error renaming thread:', error)
+    }
+  }
+
+  const deleteThread = async (thread: ChatThread) => {
+    if (!confirm(`Delete the conversation "${thread.title}"?`)) return
+    try {
+      const { error } = await supabase
+        .from('chat_threads')
+        .delete()
+        .eq('id', thread.id)
+
+      if (error) throw error
+      setThreads(prev => prev.filter(t => t.id !== thread.id))
+      if (activeThreadId === thread.id) startNewThread()
+    } catch (error) {
+      console.error('Error deleting thread:', error)
+    }
+  }
+
+  const toggleThreadSharing = async (thread: ChatThread) => {
+    try {
+      const { error } = await supabase
+        .from('chat_threads')
+        .update({ is_shared: !thread.is_shared })
+        .eq('id', thread.id)
+
+      if (error) throw error
+      setThreads(prev => prev.map(t => t.id === thread.id ? { ...t, is_shared: !thread.is_shared } : t))
+    } catch (error) {
+      console.error('Error updating thread sharing:', error)
+    }
+  }
+
   const toggleDocumentSelection = (docId: string) => {
     const newSelected = new Set(selectedDocuments)
     if (newSelected.has(docId)) {
@@ -85,206 +230,463 @@ export default function Chat() {
       timestamp: new Date().toISOString(),
     }
 
-    setMessages(prev => [...prev, userMessage])
+    // Replying inside a teammate's shared thread starts a new thread of our own
+    const continuingThread = activeThreadId !== null && isOwnThread
+    // Earlier turns let chat-rag resolve follow-up questions
+    const history = continuingThread
+      ? messages.filter(m => m.id !== 'welcome').map(m => ({ is_user: m.is_user, content: m.content }))
+      : []
+    setMessages(prev => continuingThread ? [...prev, userMessage] : [welcomeMessage(), userMessage])
     setInput('')
     setLoading(true)
 
     try {
-      const { data, error } = await supabase.functions.invoke('chat-rag', {
-        body: { 
-          query: userMessage.content,
-          selectedDocuments: Array.from(selectedDocuments)
-        }
-      })
+      const threadId = continuingThread ? activeThreadId : (await createThread(userMessage.content))?.id
 
-      if (error) throw error
+      const botMessageId = (Date.now() + 1).toString()
+      const controller = new AbortController()
+      abortControllerRef.current = controller
 
-      const botMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        content: data.response,
-        is_user: false,
-        timestamp: new Date().toISOString(),
-        sources: data.sources || []
-      }
+      await streamChatRag(
+        {
+          query: userMessage.content,
+          selectedDocuments: Array.from(selectedDocuments),
+          threadId,
+          history,
+          retrievalMode
+        },
+        {
+          onToken: (text) => {
+            setStreamingMessageId(botMessageId)
+            setMessages(prev => prev.some(m => m.id === botMessageId)
+              ? prev.map(m => m.id === botMessageId ? { ...m, content: m.content + text } : m)
+              : [...prev, {
+                  id: botMessageId,
+                  content: text,
+                  is_user: false,
+                  timestamp: new Date().toISOString(),
+                }]
+            )
+          },
+          onSources: (sources) => {
+            setMessages(prev => prev.map(m => m.id === botMessageId ? { ...m, sources } : m))
+          }
+        },
+        controller.signal
+      )
 
-      setMessages(prev => [...prev, botMessage])
+      fetchThreads()
     } catch (error) {
+      // Stopping the answer keeps whatever was already streamed
+      if ((error as any)?.name === 'AbortError') {
+        fetchThreads()
+        return
+      }
       console.error('Error sending message:', error)
       const errorMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
+        id: (Date.now() + 2).toString(),
         content: "I'm sorry, I encountered an error while processing your question. Please try again.",
         is_user: false,
         timestamp: new Date().toISOString(),
       }
       setMessages(prev => [...prev, errorMessage])
     } finally {
+      abortControllerRef.current = null
+      setStreamingMessageId(null)
       setLoading(false)
     }
   }
 
-  return (
-    <div className="h-[calc(100vh-8rem)] flex flex-col">
-      <div className="mb-6">
-        <h1 className="text-xl sm:text-2xl font-bold text-gray-900">Q&A Chat</h1>
-        <p className="text-sm sm:text-base text-gray-600 mt-1">
-          Ask questions about Formula Student rules and regulations
-        </p>
-        <div className="flex flex-col sm:flex-row sm:items-center justify-between mt-2 space-y-2 sm:space-y-0">
-          <p className="text-sm text-gray-500">
-            {selectedDocuments.size > 0 
-              ? `Using ${selectedDocuments.size} selected document${selectedDocuments.size !== 1 ? 's' : ''}`
-              : 'Using all available documents'
-            }
-          </p>
-          <button
-            onClick={() => setShowDocumentSelector(!showDocumentSelector)}
-            className="flex items-center space-x-1 text-sm text-primary-600 hover:text-primary-700"
-          >
-            <Settings className="w-4 h-4" />
-            <span>Select Documents</span>
-          </button>
-        </div>
-      </div>
+  const stopStreaming = () => {
+    abortControllerRef.current?.abort()
+  }
 
-      {/* Document Selector */}
-      {showDocumentSelector && (
-        <div className="card mb-6">
-          <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-4">Select Documents for Q&A</h3>
-          {availableDocuments.length === 0 ? (
-            <p className="text-sm sm:text-base text-gray-600">No valid documents available. Please upload and process documents first.</p>
-          ) : (
-            <div className="space-y-2 max-h-48 sm:max-h-60 overflow-y-auto">
-              {availableDocuments.map((doc) => (
-                <div
-                  key={doc.id}
-                  onClick={() => toggleDocumentSelection(doc.id)}
-                  className={`flex items-center space-x-3 p-3 rounded-lg border-2 cursor-pointer transition-colors ${
-                    selectedDocuments.has(doc.id)
-                      ? 'border-primary-500 bg-primary-50'
-                      : 'border-gray-200 hover:bg-gray-50'
-                  }`}
-                >
-                  <div className={`w-5 h-5 rounded border-2 flex items-center justify-center ${
-                    selectedDocuments.has(doc.id)
-                      ? 'border-primary-500 bg-primary-500'
-                      : 'border-gray-300'
-                  }`}>
-                    {selectedDocuments.has(doc.id) && (
-                      <Check className="w-3 h-3 text-white" />
+  // --- Citations ---
+  const getCitedSources = (message: ChatMessage): ChatSource[] => {
+    const structured = (message.sources || []).filter((s): s is ChatSource => typeof s === 'object')
+    const citedIndexes = new Set(
+      Array.from(message.content.matchAll(CITATION_PATTERN), m => parseInt(m[1].slice(1, -1)))
+    )
+    return structured.filter(s => citedIndexes.has(s.index))
+  }
+
+  const openSource = async (source: ChatSource) => {
+    if (!source.file_path) return
+    // Open the tab synchronously so the popup blocker lets it through
+    const tab = window.open('', '_blank')
+    try {
+      const { data, error } = await supabase.storage
+        .from('documents')
+        .createSignedUrl(source.file_path, 60 * 60)
+
+      if (error) throw error
+      const pageFragment = source.page_start ? `#page=${source.page_start}` : ''
+      if (tab) tab.location.href = `${data.signedUrl}${pageFragment}`
+    } catch (error) {
+      console.error('Error opening source:', error)
+      tab?.close()
+    }
+  }
+
+  const renderMessageContent = (message: ChatMessage) => {
+    if (message.is_user || !message.sources?.length) return message.content
+
+    const sourcesByIndex = new Map(
+      message.sources
+        .filter((s): s is ChatSource => typeof s === 'object')
+        .map(s => [s.index, s])
+    )
+
+    return message.content.split(CITATION_PATTERN).map((part, i) => {
+      const source = /^\[\d+\]$/.test(part) ? sourcesByIndex.get(parseInt(part.slice(1, -1))) : undefined
+      if (!source) return <React.Fragment key={i}>{part}</React.Fragment>
+      return (
+        <button
+          key={i}
+          onClick={() => openSource(source)}
+          className="align-super text-xs font-semibold text-primary-600 hover:text-primary-800 hover:underline mx-0.5"
+          title={[source.document_name, formatSourceLocation(source)].filter(Boolean).join(' — ')}
+        >
+          [{source.index}]
+        </button>
+      )
+    })
+  }
+
+  const renderThreadList = () => (
+    <div className="flex flex-col h-full">
+      <button
+        onClick={startNewThread}
+        className="btn-primary w-full flex items-center justify-center mb-3"
+      >
+        <Plus className="w-4 h-4 mr-2" />
+        New Chat
+      </button>
+      <div className="flex-1 overflow-y-auto custom-scrollbar space-y-1">
+        {threads.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">No saved conversations yet</p>
+        ) : (
+          threads.map((thread) => {
+            const isOwner = thread.user_id === user?.id
+            return (
+              <div
+                key={thread.id}
+                onClick={() => editingThreadId !== thread.id && openThread(thread.id)}
+                className={`group p-2 rounded-lg cursor-pointer transition-colors ${
+                  activeThreadId === thread.id
+                    ? 'bg-primary-50 border border-primary-200'
+                    : 'hover:bg-gray-50 border border-transparent'
+                }`}
+              >
+                {editingThreadId === thread.id ? (
+                  <input
+                    type="text"
+                    value={editingTitle}
+                    onChange={(e) => setEditingTitle(e.target.value)}
+                    onBlur={() => renameThread(thread.id)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') renameThread(thread.id)
+                      if (e.key === 'Escape') setEditingThreadId(null)
+                    }}
+                    className="input-field w-full text-sm py-1"
+                    autoFocus
+                  />
+                ) : (
+                  <div className="flex items-start space-x-2">
+                    <MessageSquare className="w-4 h-4 text-gray-400 flex-shrink-0 mt-0.5" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">{thread.title}</p>
+                      <p className="text-xs text-gray-500">
+                        {new Date(thread.updated_at).toLocaleDateString()}
+                        {thread.is_shared && (isOwner ? ' • Shared' : ' • Shared by teammate')}
+                      </p>
+                    </div>
+                    {isOwner && (
+                      <div className="flex items-center space-x-1 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
+                        <button
+                          onClick={(e) => { e.stopPropagation(); toggleThreadSharing(thread) }}
+                          className={`p-1 rounded hover:bg-gray-200 ${thread.is_shared ? 'text-primary-600' : 'text-gray-500'}`}
+                          title={thread.is_shared ? 'Stop sharing' : 'Share with team'}
+                        >
+                          <Share2 className="w-3 h-3" />
+                        </button>
+                        <button
+                          onClick={(e) => { e.stopPropagation(); setEditingThreadId(thread.id); setEditingTitle(thread.title) }}
+                          className="p-1 rounded text-gray-500 hover:bg-gray-200"
+                          title="Rename"
+                        >
+                          <Pencil className="w-3 h-3" />
+                        </button>
+                        <button
+                          onClick={(e) => { e.stopPropagation(); deleteThread(thread) }}
+                          className="p-1 rounded text-gray-500 hover:text-danger-600 hover:bg-danger-50"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </button>
+                      </div>
                     )}
                   </div>
-                  <FileText className="w-4 h-4 sm:w-5 sm:h-5 text-primary-600 flex-shrink-0" />
-                  <div className="flex-1">
-                    <p className="font-medium text-gray-900 text-sm sm:text-base truncate">{doc.name}</p>
-                    <p className="text-sm text-gray-500">{doc.content.length} characters</p>
-                  </div>
-                </div>
-              ))}
+                )}
+              </div>
+            )
+          })
+        )}
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="h-[calc(100vh-8rem)] flex space-x-0 lg:space-x-4">
+      {/* Thread Sidebar */}
+      <div className="hidden lg:flex lg:flex-col w-64 flex-shrink-0 card p-3">
+        {renderThreadList()}
+      </div>
+
+      {/* Mobile Thread Drawer */}
+      {showThreads && (
+        <div className="fixed inset-0 bg-gray-900/50 z-50 flex lg:hidden">
+          <div className="bg-white w-72 max-w-[85%] h-full p-3 flex flex-col">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-semibold text-gray-900">Conversations</h3>
+              <button onClick={() => setShowThreads(false)} className="p-1 text-gray-500 hover:text-gray-700">
+                <X className="w-5 h-5" />
+              </button>
             </div>
-          )}
-          <div className="mt-4 flex justify-end">
+            {renderThreadList()}
+          </div>
+          <div className="flex-1" onClick={() => setShowThreads(false)} />
+        </div>
+      )}
+
+      <div className="flex-1 min-w-0 flex flex-col">
+        <div className="mb-6">
+          <div className="flex items-center justify-between">
+            <h1 className="text-xl sm:text-2xl font-bold text-gray-900">Q&A Chat</h1>
             <button
-              onClick={() => setShowDocumentSelector(false)}
-              className="btn-primary"
+              onClick={() => setShowThreads(true)}
+              className="lg:hidden flex items-center space-x-1 text-sm text-primary-600 hover:text-primary-700"
             >
-              Done
+              <MessageSquare className="w-4 h-4" />
+              <span>Conversations</span>
             </button>
           </div>
+          <p className="text-sm sm:text-base text-gray-600 mt-1">
+            Ask questions about Formula Student rules and regulations
+          </p>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between mt-2 space-y-2 sm:space-y-0">
+            <p className="text-sm text-gray-500">
+              {selectedDocuments.size > 0 
+                ? `Using ${selectedDocuments.size} selected document${selectedDocuments.size !== 1 ? 's' : ''}`
+                : 'Using all available documents'
+              }
+            </p>
+            <div className="flex items-center space-x-4">
+              <select
+                value={retrievalMode}
+                onChange={(e) => {
+                  const mode = e.target.value as 'hybrid' | 'vector'
+                  setRetrievalMode(mode)
+                  localStorage.setItem('chatRetrievalMode', mode)
+                }}
+                className="text-sm text-gray-600 bg-transparent border border-gray-200 rounded-md px-2 py-1"
+                title="Retrieval mode"
+              >
+                <option value="hybrid">Hybrid search</option>
+                <option value="vector">Vector only</option>
+              </select>
+              <button
+                onClick={() => setShowDocumentSelector(!showDocumentSelector)}
+                className="flex items-center space-x-1 text-sm text-primary-600 hover:text-primary-700"
+              >
+                <Settings className="w-4 h-4" />
+                <span>Select Documents</span>
+              </button>
+            </div>
+          </div>
         </div>
-      )}
 
-      {/* Chat Messages */}
-      <div className="flex-1 card overflow-hidden flex flex-col">
-        <div className="flex-1 overflow-y-auto custom-scrollbar p-3 sm:p-4 space-y-3 sm:space-y-4">
-          {messages.map((message) => (
-            <div
-              key={message.id}
-              className={`flex items-start space-x-2 sm:space-x-3 ${
-                message.is_user ? 'flex-row-reverse space-x-reverse' : ''
-              }`}
-            >
-              <div className={`flex-shrink-0 w-6 h-6 sm:w-8 sm:h-8 rounded-full flex items-center justify-center ${
-                message.is_user 
-                  ? 'bg-primary-600 text-white' 
-                  : 'bg-gray-200 text-gray-600'
-              }`}>
-                {message.is_user ? (
-                  <User className="w-3 h-3 sm:w-4 sm:h-4" />
-                ) : (
-                  <Bot className="w-3 h-3 sm:w-4 sm:h-4" />
-                )}
+        {/* Document Selector */}
+        {showDocumentSelector && (
+          <div className="card mb-6">
+            <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-4">Select Documents for Q&A</h3>
+            {availableDocuments.length === 0 ? (
+              <p className="text-sm sm:text-base text-gray-600">No valid documents available. Please upload and process documents first.</p>
+            ) : (
+              <div className="space-y-2 max-h-48 sm:max-h-60 overflow-y-auto">
+                {availableDocuments.map((doc) => (
+                  <div
+                    key={doc.id}
+                    onClick={() => toggleDocumentSelection(doc.id)}
+                    className={`flex items-center space-x-3 p-3 rounded-lg border-2 cursor-pointer transition-colors ${
+                      selectedDocuments.has(doc.id)
+                        ? 'border-primary-500 bg-primary-50'
+                        : 'border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className={`w-5 h-5 rounded border-2 flex items-center justify-center ${
+                      selectedDocuments.has(doc.id)
+                        ? 'border-primary-500 bg-primary-500'
+                        : 'border-gray-300'
+                    }`}>
+                      {selectedDocuments.has(doc.id) && (
+                        <Check className="w-3 h-3 text-white" />
+                      )}
+                    </div>
+                    <FileText className="w-4 h-4 sm:w-5 sm:h-5 text-primary-600 flex-shrink-0" />
+                    <div className="flex-1">
+                      <p className="font-medium text-gray-900 text-sm sm:text-base truncate">{doc.name}</p>
+                      <p className="text-sm text-gray-500">
+                        {doc.content.length} characters
+                        {doc.is_active === false && <span className="ml-2 text-xs text-gray-400">(superseded version)</span>}
+                      </p>
+                    </div>
+                  </div>
+                ))}
               </div>
-              
-              <div className={`flex-1 max-w-full sm:max-w-3xl ${
-                message.is_user ? 'text-right' : 'text-left'
-              }`}>
-                <div className={`inline-block p-2 sm:p-3 rounded-lg max-w-full ${
-                  message.is_user
-                    ? 'bg-primary-600 text-white'
-                    : 'bg-gray-100 text-gray-900'
+            )}
+            <div className="mt-4 flex justify-end">
+              <button
+                onClick={() => setShowDocumentSelector(false)}
+                className="btn-primary"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Chat Messages */}
+        <div className="flex-1 card overflow-hidden flex flex-col">
+          <div className="flex-1 overflow-y-auto custom-scrollbar p-3 sm:p-4 space-y-3 sm:space-y-4">
+            {activeThread && !isOwnThread && (
+              <div className="text-xs sm:text-sm text-gray-500 bg-gray-50 border border-gray-200 rounded-lg p-2 text-center">
+                You are viewing a conversation shared by a teammate. Asking a question starts a new conversation of your own.
+              </div>
+            )}
+            {loadingThread && (
+              <div className="flex justify-center py-4">
+                <Loader className="w-6 h-6 animate-spin text-primary-600" />
+              </div>
+            )}
+            {!loadingThread && messages.map((message) => (
+              <div
+                key={message.id}
+                className={`flex items-start space-x-2 sm:space-x-3 ${
+                  message.is_user ? 'flex-row-reverse space-x-reverse' : ''
+                }`}
+              >
+                <div className={`flex-shrink-0 w-6 h-6 sm:w-8 sm:h-8 rounded-full flex items-center justify-center ${
+                  message.is_user 
+                    ? 'bg-primary-600 text-white' 
+                    : 'bg-gray-200 text-gray-600'
                 }`}>
-                  <p className="whitespace-pre-wrap text-sm sm:text-base break-words">{message.content}</p>
+                  {message.is_user ? (
+                    <User className="w-3 h-3 sm:w-4 sm:h-4" />
+                  ) : (
+                    <Bot className="w-3 h-3 sm:w-4 sm:h-4" />
+                  )}
                 </div>
+              
+                <div className={`flex-1 max-w-full sm:max-w-3xl ${
+                  message.is_user ? 'text-right' : 'text-left'
+                }`}>
+                  <div className={`inline-block p-2 sm:p-3 rounded-lg max-w-full ${
+                    message.is_user
+                      ? 'bg-primary-600 text-white'
+                      : 'bg-gray-100 text-gray-900'
+                  }`}>
+                    <p className="whitespace-pre-wrap text-sm sm:text-base break-words">{renderMessageContent(message)}</p>
+                  </div>
                 
-                {message.sources && message.sources.length > 0 && (
-                  <div className="mt-2 text-xs sm:text-sm text-gray-500">
-                    <div className="flex items-center space-x-1 mb-1">
-                      <FileText className="w-3 h-3" />
-                      <span>Sources:</span>
+                  {message.sources && message.sources.length > 0 && (
+                    <div className="mt-2 text-xs sm:text-sm text-gray-500">
+                      <div className="flex items-center space-x-1 mb-1">
+                        <FileText className="w-3 h-3" />
+                        <span>Sources:</span>
+                      </div>
+                      <ul className="list-disc list-inside space-y-1 break-words">
+                        {getCitedSources(message).length > 0
+                          ? getCitedSources(message).map((source) => (
+                              <li key={source.index}>
+                                <button
+                                  onClick={() => openSource(source)}
+                                  className="text-primary-600 hover:text-primary-800 hover:underline text-left"
+                                >
+                                  [{source.index}] {source.document_name || 'Document'}
+                                  {formatSourceLocation(source) && ` — ${formatSourceLocation(source)}`}
+                                </button>
+                                {source.rerank_score != null && (
+                                  <span className="ml-1 text-gray-400">(relevance {source.rerank_score}/10)</span>
+                                )}
+                              </li>
+                            ))
+                          : Array.from(new Set(message.sources.map(source =>
+                              typeof source === 'string' ? source : (source.document_name || source.document_id)
+                            ))).map((name, index) => (
+                              <li key={index}>{name}</li>
+                            ))}
+                      </ul>
                     </div>
-                    <ul className="list-disc list-inside space-y-1 break-words">
-                      {message.sources.map((source, index) => (
-                        <li key={index}>{source}</li>
-                      ))}
-                    </ul>
-                  </div>
-                )}
+                  )}
                 
-                <div className="text-xs text-gray-500 mt-1 break-words">
-                  {new Date(message.timestamp).toLocaleTimeString()}
+                  <div className="text-xs text-gray-500 mt-1 break-words">
+                    {new Date(message.timestamp).toLocaleTimeString()}
+                  </div>
                 </div>
               </div>
-            </div>
-          ))}
+            ))}
           
-          {loading && (
-            <div className="flex items-start space-x-3">
-              <div className="flex-shrink-0 w-6 h-6 sm:w-8 sm:h-8 rounded-full bg-gray-200 text-gray-600 flex items-center justify-center">
-                <Bot className="w-3 h-3 sm:w-4 sm:h-4" />
-              </div>
-              <div className="flex-1">
-                <div className="inline-block p-2 sm:p-3 rounded-lg bg-gray-100">
-                  <div className="flex items-center space-x-2">
-                    <Loader className="w-4 h-4 animate-spin" />
-                    <span className="text-gray-600 text-sm sm:text-base">Thinking...</span>
+            {loading && !streamingMessageId && (
+              <div className="flex items-start space-x-3">
+                <div className="flex-shrink-0 w-6 h-6 sm:w-8 sm:h-8 rounded-full bg-gray-200 text-gray-600 flex items-center justify-center">
+                  <Bot className="w-3 h-3 sm:w-4 sm:h-4" />
+                </div>
+                <div className="flex-1">
+                  <div className="inline-block p-2 sm:p-3 rounded-lg bg-gray-100">
+                    <div className="flex items-center space-x-2">
+                      <Loader className="w-4 h-4 animate-spin" />
+                      <span className="text-gray-600 text-sm sm:text-base">Thinking...</span>
+                    </div>
                   </div>
                 </div>
               </div>
-            </div>
-          )}
+            )}
           
-          <div ref={messagesEndRef} />
-        </div>
+            <div ref={messagesEndRef} />
+          </div>
 
-        {/* Input Form */}
-        <div className="border-t border-gray-200 p-3 sm:p-4">
-          <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-3">
-            <input
-              type="text"
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              placeholder="Ask a question about Formula Student..."
-              className="flex-1 input-field text-sm sm:text-base"
-              disabled={loading}
-            />
-            <button
-              type="submit"
-              disabled={loading || !input.trim()}
-              className="btn-primary px-4 sm:px-6 w-full sm:w-auto py-2 sm:py-2"
-            >
-              <Send className="w-4 h-4" />
-            </button>
-          </form>
+          {/* Input Form */}
+          <div className="border-t border-gray-200 p-3 sm:p-4">
+            <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-3">
+              <input
+                type="text"
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                placeholder="Ask a question about Formula Student..."
+                className="flex-1 input-field text-sm sm:text-base"
+                disabled={loading}
+              />
+              {loading ? (
+                <button
+                  type="button"
+                  onClick={stopStreaming}
+                  className="btn-secondary px-4 sm:px-6 w-full sm:w-auto py-2 sm:py-2"
+                  title="Stop generating"
+                >
+                  <Square className="w-4 h-4" />
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={!input.trim()}
+                  className="btn-primary px-4 sm:px-6 w-full sm:w-auto py-2 sm:py-2"
+                >
+                  <Send className="w-4 h-4" />
+                </button>
+              )}
+            </form>
+          </div>
         </div>
       </div>
     </div>
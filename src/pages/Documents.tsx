@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react'
 import { supabase } from '../lib/supabase'
+import type { IngestionJob, DocumentFamily, DocumentDuplicate, RuleChange, RulebookDiff } from '../lib/supabase'
+import { sha256Hex, getExtension, isHiddenPath, readZipEntries } from '../lib/files'
+import { parseQuestionBank } from '../lib/questionBank'
 import { useAuth } from '../contexts/AuthContext'
-import { Upload, FileText, Download, Trash2, Loader, CircleCheck as CheckCircle, CircleAlert as AlertCircle, Check, Settings, Database, FileJson, List } from 'lucide-react'
+import { Upload, FileText, Download, Trash2, Loader, CircleCheck as CheckCircle, CircleAlert as AlertCircle, Check, Settings, Database, FileJson, List, RotateCcw, X, GitCompare, Copy } from 'lucide-react'
 
 // --- Existing Interface ---
 interface Document {
@@ -12,15 +15,80 @@ interface Document {
   file_size: number
   mime_type: string
   uploaded_by: string
+  family_id: string | null
+  season: number | null
+  version: string | null
+  is_active: boolean
   created_at: string
   updated_at: string
 }
 
+interface VersionForm {
+  familyId: string
+  newFamilyName: string
+  season: string
+  version: string
+  makeActive: boolean
+}
+
+// One file of a (bulk) upload
+interface UploadItem {
+  id: string
+  name: string
+  status: 'pending' | 'uploading' | 'processing' | 'done' | 'duplicate' | 'skipped' | 'failed'
+  message?: string
+  jobId?: string
+}
+
 interface Message {
   type: 'success' | 'error'
   text: string
 }
 
+// Matches STALE_JOB_MS in process-document: active jobs this quiet were killed and can be retried
+const STALE_JOB_MS = 5 * 60 * 1000
+
+// Upload formats by extension; browsers often report an empty type for .md files
+const SUPPORTED_FILE_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  html: 'text/html',
+  htm: 'text/html',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+}
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024
+
+const UPLOAD_STATUS_STYLES: Record<UploadItem['status'], { label: string; className: string }> = {
+  pending: { label: 'Waiting', className: 'text-gray-500' },
+  uploading: { label: 'Uploading', className: 'text-primary-600' },
+  processing: { label: 'Processing', className: 'text-primary-600' },
+  done: { label: 'Done', className: 'text-green-600' },
+  duplicate: { label: 'Duplicate', className: 'text-yellow-700' },
+  skipped: { label: 'Skipped', className: 'text-gray-500' },
+  failed: { label: 'Failed', className: 'text-danger-600' }
+}
+
+// Family select option that creates a new family on save
+const NEW_FAMILY = '__new__'
+
+const CHANGE_STYLES: Record<RuleChange['change_type'], { label: string; className: string }> = {
+  added: { label: 'Added', className: 'bg-green-100 text-green-700' },
+  removed: { label: 'Removed', className: 'bg-red-100 text-red-700' },
+  modified: { label: 'Modified', className: 'bg-yellow-100 text-yellow-800' }
+}
+
+const JOB_STATUS_LABELS: Record<IngestionJob['status'], string> = {
+  queued: 'Queued',
+  extracting: 'Extracting text',
+  embedding: 'Embedding',
+  done: 'Done',
+  failed: 'Failed'
+}
+
 export default function Documents() {
   const { user } = useAuth()
   
@@ -28,10 +96,23 @@ export default function Documents() {
   const [documents, setDocuments] = useState<Document[]>([])
   const [loading, setLoading] = useState(true)
   const [uploading, setUploading] = useState(false)
-  const [uploadProgress, setUploadProgress] = useState('')
+  const [jobs, setJobs] = useState<IngestionJob[]>([])
+  const [uploadQueue, setUploadQueue] = useState<UploadItem[]>([])
+  const [duplicates, setDuplicates] = useState<DocumentDuplicate[]>([])
+  const [resolvingDuplicateId, setResolvingDuplicateId] = useState<string | null>(null)
+
+  // --- Versioning State ---
+  const [families, setFamilies] = useState<DocumentFamily[]>([])
+  const [editingVersionId, setEditingVersionId] = useState<string | null>(null)
+  const [versionForm, setVersionForm] = useState<VersionForm>({ familyId: '', newFamilyName: '', season: '', version: '', makeActive: false })
+  const [savingVersion, setSavingVersion] = useState(false)
+  const [compareFamilyId, setCompareFamilyId] = useState('')
+  const [compareBaseId, setCompareBaseId] = useState('')
+  const [compareTargetId, setCompareTargetId] = useState('')
+  const [rulebookDiff, setRulebookDiff] = useState<RulebookDiff | null>(null)
+  const [comparing, setComparing] = useState(false)
   const [message, setMessage] = useState<Message | null>(null)
   const [selectedDocuments, setSelectedDocuments] = useState<Set<string>>(new Set())
-  const [pdfLibReady, setPdfLibReady] = useState(false)
 
   // --- New State for Question Bank ---
   const [importingBank, setImportingBank] = useState(false)
@@ -41,23 +122,45 @@ export default function Documents() {
   // --- Effects ---
   useEffect(() => {
     fetchDocuments()
+    fetchJobs()
+    fetchFamilies()
+    fetchDuplicates()
     loadSelectedDocuments()
-    
-    // --- FIX: Load Stable PDF.js from CDN ---
-    const script = window.document.createElement('script')
-    script.src = '//cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.min.js'
-    script.async = true
-    script.onload = () => {
-      // Set the worker source to match the library version exactly
-      (window as any).pdfjsLib.GlobalWorkerOptions.workerSrc = '//cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js'
-      setPdfLibReady(true)
-    }
-    window.document.body.appendChild(script)
+  }, [])
+
+  // Live ingestion progress
+  useEffect(() => {
+    const channel = supabase
+      .channel('ingestion-jobs')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'ingestion_jobs' }, (payload) => {
+        if (payload.eventType === 'DELETE') {
+          setJobs(prev => prev.filter(job => job.id !== (payload.old as IngestionJob).id))
+          return
+        }
+
+        const job = payload.new as IngestionJob
+        setUploadQueue(prev => prev.map(item => item.jobId !== job.id ? item : {
+          ...item,
+          status: job.status === 'done' ? 'done' : job.status === 'failed' ? 'failed' : 'processing',
+          message: job.error || undefined
+        }))
+
+        if (job.status === 'done') {
+          setJobs(prev => prev.filter(j => j.id !== job.id))
+          showMessage('success', `"${job.name}" processed successfully!`)
+          fetchDocuments()
+          fetchDuplicates()
+          return
+        }
+
+        setJobs(prev => prev.some(j => j.id === job.id)
+          ? prev.map(j => (j.id === job.id ? job : j))
+          : [job, ...prev])
+      })
+      .subscribe()
 
     return () => {
-      if (window.document.body.contains(script)) {
-        window.document.body.removeChild(script)
-      }
+      supabase.removeChannel(channel)
     }
   }, [])
 
@@ -91,121 +194,216 @@ export default function Documents() {
     }
   }
 
+  const fetchJobs = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('ingestion_jobs')
+        .select('*')
+        .neq('status', 'done')
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      setJobs(data || [])
+    } catch (error) {
+      console.error('Error fetching ingestion jobs:', error)
+    }
+  }
+
+  const fetchFamilies = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('document_families')
+        .select('*')
+        .order('name')
+
+      if (error) throw error
+      setFamilies(data || [])
+    } catch (error) {
+      console.error('Error fetching document families:', error)
+    }
+  }
+
+  const fetchDuplicates = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('document_duplicates')
+        .select('*')
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      setDuplicates(data || [])
+    } catch (error) {
+      console.error('Error fetching document duplicates:', error)
+    }
+  }
+
   const showMessage = (type: 'success' | 'error', text: string) => {
     setMessage({ type, text })
     setTimeout(() => setMessage(null), 5000)
   }
 
-  const extractTextFromPDF = async (file: File): Promise<string> => {
-    if (!pdfLibReady || !(window as any).pdfjsLib) {
-      throw new Error('PDF Library not loaded yet. Please try again in a few seconds.')
-    }
+  const updateUploadItem = (id: string, changes: Partial<UploadItem>) => {
+    setUploadQueue(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)))
+  }
 
-    return new Promise(async (resolve, reject) => {
-      try {
-        const arrayBuffer = await file.arrayBuffer()
-        
-        // Use the window-scoped library
-        const loadingTask = (window as any).pdfjsLib.getDocument({ data: arrayBuffer })
-        const pdf = await loadingTask.promise
-        
-        let fullText = ''
-        const totalPages = pdf.numPages
+  // Files, folders and ZIP archives all end up as one queue item per file
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files || [])
+    event.target.value = ''
+    if (selected.length === 0 || !user) return
 
-        // Iterate through every page
-        for (let i = 1; i <= totalPages; i++) {
-          const page = await pdf.getPage(i)
-          const textContent = await page.getTextContent()
-          
-          const pageText = textContent.items
-            .map((item: any) => item.str)
-            .join(' ')
-          
-          // Add explicit page markers
-          fullText += `\n--- Page ${i} ---\n${pageText}\n`
-        }
+    setUploading(true)
+    try {
+      const files: { name: string; data: Blob }[] = []
+      const failedArchives: UploadItem[] = []
+
+      for (const file of selected) {
+        const path = file.webkitRelativePath || file.name
+        if (isHiddenPath(path)) continue
 
-        if (fullText.trim().length > 0) {
-          resolve(fullText)
+        if (getExtension(file.name) === 'zip') {
+          try {
+            for (const entry of await readZipEntries(file)) {
+              if (!isHiddenPath(entry.name)) files.push({ name: entry.name, data: entry.data })
+            }
+          } catch (error) {
+            failedArchives.push({ id: crypto.randomUUID(), name: file.name, status: 'failed', message: (error as Error).message })
+          }
         } else {
-          resolve(`[PDF Document: ${file.name}] - No selectable text found. This might be a scanned image.`)
+          files.push({ name: path, data: file })
         }
-      } catch (error) {
-        console.error('PDF parsing error:', error)
-        resolve(`[PDF Document: ${file.name}] - Failed to parse PDF. Error: ${(error as any).message}`)
       }
-    })
-  }
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (!file || !user) return
+      const items: UploadItem[] = files.map(file => ({ id: crypto.randomUUID(), name: file.name, status: 'pending' }))
+      setUploadQueue(prev => [...failedArchives, ...items, ...prev])
 
-    // Validate file size (10MB limit)
-    if (file.size > 10 * 1024 * 1024) {
-      showMessage('error', 'File size must be less than 10MB')
-      event.target.value = ''
-      return
+      // Sequential, so duplicates inside one upload are caught by their hash
+      const seenHashes = new Set<string>()
+      for (let i = 0; i < files.length; i++) {
+        await uploadQueuedFile(items[i], files[i].data, seenHashes)
+      }
+      fetchJobs()
+    } finally {
+      setUploading(false)
     }
+  }
 
-    const allowedTypes = ['application/pdf', 'text/plain']
-    if (!allowedTypes.includes(file.type)) {
-      showMessage('error', 'Only PDF and TXT files are supported')
-      event.target.value = ''
+  const uploadQueuedFile = async (item: UploadItem, data: Blob, seenHashes: Set<string>) => {
+    const fileName = item.name.split('/').pop() || item.name
+    const mimeType = SUPPORTED_FILE_TYPES[getExtension(fileName)]
+    if (!mimeType) {
+      updateUploadItem(item.id, { status: 'skipped', message: 'Unsupported file type' })
+      return
+    }
+    if (data.size > MAX_FILE_SIZE) {
+      updateUploadItem(item.id, { status: 'skipped', message: 'File size must be less than 10MB' })
       return
     }
 
-    setUploading(true)
-    setUploadProgress('Preparing file...')
-
+    updateUploadItem(item.id, { status: 'uploading' })
     try {
-      // Extract text content
-      let textContent = ''
-      if (file.type === 'application/pdf') {
-        setUploadProgress('Extracting text layers from PDF...')
-        textContent = await extractTextFromPDF(file)
-      } else {
-        setUploadProgress('Reading text file...')
-        textContent = await file.text()
+      const contentHash = await sha256Hex(await data.arrayBuffer())
+      const duplicateOf = seenHashes.has(contentHash) ? 'another file in this upload' : await findDuplicate(contentHash)
+      if (duplicateOf) {
+        updateUploadItem(item.id, { status: 'duplicate', message: `Same content as ${duplicateOf}` })
+        return
       }
+      seenHashes.add(contentHash)
 
       // Upload file to storage
-      setUploadProgress('Uploading file...')
-      const fileName = `${Date.now()}-${file.name}`
       const { data: uploadData, error: uploadError } = await supabase.storage
         .from('documents')
-        .upload(fileName, file)
+        .upload(`${Date.now()}-${fileName}`, data, { contentType: mimeType })
 
       if (uploadError) throw uploadError
 
-      // Process document with edge function
-      setUploadProgress('Processing embeddings (this may take a moment)...')
+      // Queue the ingestion job; extraction (with OCR for scanned pages) and embeddings run server-side
       const { data: processData, error: processError } = await supabase.functions
         .invoke('process-document', {
           body: {
-            name: file.name,
-            content: textContent,
+            name: fileName,
             file_path: uploadData.path,
-            file_size: file.size,
-            mime_type: file.type,
-            uploaded_by: user.id
+            file_size: data.size,
+            mime_type: mimeType,
+            content_hash: contentHash,
+            uploaded_by: user!.id
           }
         })
 
-      if (processError) throw processError
+      if (processError) {
+        // Don't leave an orphaned file behind when the job could not be queued
+        await supabase.storage.from('documents').remove([uploadData.path])
+        throw processError
+      }
 
-      showMessage('success', 'Document uploaded and processed successfully!')
-      fetchDocuments()
+      updateUploadItem(item.id, { status: 'processing', jobId: processData.job_id })
     } catch (error) {
-      console.error('Error uploading document:', error)
-      showMessage('error', 'Failed to upload document')
-    } finally {
-      setUploading(false)
-      setUploadProgress('')
-      event.target.value = ''
+      console.error(`Error uploading ${item.name}:`, error)
+      updateUploadItem(item.id, { status: 'failed', message: (error as Error).message })
     }
   }
 
+  // Name of an existing document (or one still being processed) with the same file content
+  const findDuplicate = async (contentHash: string): Promise<string | null> => {
+    const { data: existing, error } = await supabase
+      .from('documents')
+      .select('name')
+      .eq('content_hash', contentHash)
+      .limit(1)
+
+    if (error) throw error
+    if (existing && existing.length > 0) return `"${existing[0].name}"`
+
+    const { data: pending, error: jobError } = await supabase
+      .from('ingestion_jobs')
+      .select('name')
+      .eq('content_hash', contentHash)
+      .in('status', ['queued', 'extracting', 'embedding'])
+      .limit(1)
+
+    if (jobError) throw jobError
+    return pending && pending.length > 0 ? `"${pending[0].name}" (still processing)` : null
+  }
+
+  const clearFinishedUploads = () => {
+    setUploadQueue(prev => prev.filter(item => ['pending', 'uploading', 'processing'].includes(item.status)))
+  }
+
+  const handleRetryJob = async (job: IngestionJob) => {
+    try {
+      const { error } = await supabase.functions
+        .invoke('process-document', { body: { job_id: job.id } })
+
+      if (error) throw error
+    } catch (error) {
+      console.error('Error retrying ingestion job:', error)
+      showMessage('error', `Failed to retry "${job.name}"`)
+    }
+  }
+
+  const handleDismissJob = async (job: IngestionJob) => {
+    try {
+      // Without a document row nothing else references the uploaded file
+      if (!job.document_id) {
+        await supabase.storage.from('documents').remove([job.file_path])
+      }
+
+      const { error } = await supabase
+        .from('ingestion_jobs')
+        .delete()
+        .eq('id', job.id)
+
+      if (error) throw error
+      setJobs(prev => prev.filter(j => j.id !== job.id))
+    } catch (error) {
+      console.error('Error dismissing ingestion job:', error)
+      showMessage('error', 'Failed to dismiss job')
+    }
+  }
+
+  const isJobRetryable = (job: IngestionJob) =>
+    job.status === 'failed' || Date.now() - new Date(job.updated_at).getTime() > STALE_JOB_MS
+
   const handleDownload = async (document: Document) => {
     try {
       const { data, error } = await supabase.storage
@@ -232,27 +430,230 @@ export default function Documents() {
     if (!confirm(`Are you sure you want to delete "${document.name}"?`)) return
 
     try {
-      const { error: storageError } = await supabase.storage
-        .from('documents')
-        .remove([document.file_path])
+      await deleteDocument(document)
+      showMessage('success', 'Document deleted successfully!')
+      fetchDocuments()
+      fetchDuplicates()
+    } catch (error) {
+      console.error('Error deleting document:', error)
+      showMessage('error', 'Failed to delete document')
+    }
+  }
 
-      if (storageError) throw storageError
+  const deleteDocument = async (document: Document) => {
+    const { error: storageError } = await supabase.storage
+      .from('documents')
+      .remove([document.file_path])
 
-      const { error: dbError } = await supabase
-        .from('documents')
+    if (storageError) throw storageError
+
+    const { error: dbError } = await supabase
+      .from('documents')
+      .delete()
+      .eq('id', document.id)
+
+    if (dbError) throw dbError
+  }
+
+  // --- Near-Duplicates ---
+  // Merge: the sections the existing document lacks are moved into it, the new upload is removed
+  const handleMergeDuplicate = async (duplicate: DocumentDuplicate, newDoc: Document, existingDoc: Document) => {
+    if (!confirm(`Merge "${newDoc.name}" into "${existingDoc.name}"? "${newDoc.name}" will be deleted.`)) return
+
+    setResolvingDuplicateId(duplicate.id)
+    try {
+      const { data: moved, error } = await supabase.rpc('merge_documents', {
+        source_document_id: newDoc.id,
+        target_document_id: existingDoc.id
+      })
+
+      if (error) throw error
+
+      // The row is gone, only the stored file is left
+      const { error: storageError } = await supabase.storage.from('documents').remove([newDoc.file_path])
+      if (storageError) console.error('Error removing merged file:', storageError)
+
+      showMessage('success', `Merged into "${existingDoc.name}" (${moved} new section${moved === 1 ? '' : 's'} added)`)
+      fetchDocuments()
+      fetchDuplicates()
+    } catch (error) {
+      console.error('Error merging documents:', error)
+      showMessage('error', 'Failed to merge documents')
+    } finally {
+      setResolvingDuplicateId(null)
+    }
+  }
+
+  // Replace: the new upload takes over the family and version of the existing document, which is deleted
+  const handleReplaceDuplicate = async (duplicate: DocumentDuplicate, newDoc: Document, existingDoc: Document) => {
+    if (!confirm(`Replace "${existingDoc.name}" with "${newDoc.name}"? "${existingDoc.name}" will be deleted.`)) return
+
+    setResolvingDuplicateId(duplicate.id)
+    try {
+      if (existingDoc.family_id) {
+        const { error } = await supabase.rpc('set_document_version', {
+          target_document_id: newDoc.id,
+          target_family_id: existingDoc.family_id,
+          target_season: existingDoc.season,
+          target_version: existingDoc.version,
+          make_active: existingDoc.is_active
+        })
+
+        if (error) throw error
+      }
+
+      await deleteDocument(existingDoc)
+      showMessage('success', `"${existingDoc.name}" replaced by "${newDoc.name}"`)
+      fetchDocuments()
+      fetchDuplicates()
+    } catch (error) {
+      console.error('Error replacing document:', error)
+      showMessage('error', 'Failed to replace document')
+    } finally {
+      setResolvingDuplicateId(null)
+    }
+  }
+
+  const handleKeepBoth = async (duplicate: DocumentDuplicate) => {
+    setResolvingDuplicateId(duplicate.id)
+    try {
+      const { error } = await supabase
+        .from('document_duplicates')
         .delete()
-        .eq('id', document.id)
+        .eq('id', duplicate.id)
 
-      if (dbError) throw dbError
+      if (error) throw error
+      setDuplicates(prev => prev.filter(d => d.id !== duplicate.id))
+    } catch (error) {
+      console.error('Error dismissing duplicate:', error)
+      showMessage('error', 'Failed to dismiss duplicate')
+    } finally {
+      setResolvingDuplicateId(null)
+    }
+  }
 
-      showMessage('success', 'Document deleted successfully!')
+  // --- Versioning ---
+  const startVersionEdit = (doc: Document) => {
+    setEditingVersionId(doc.id)
+    setVersionForm({
+      familyId: doc.family_id || '',
+      newFamilyName: '',
+      season: doc.season?.toString() || '',
+      version: doc.version || '',
+      makeActive: doc.is_active
+    })
+  }
+
+  const saveVersion = async (doc: Document) => {
+    setSavingVersion(true)
+    try {
+      let familyId: string | null = versionForm.familyId || null
+      if (familyId === NEW_FAMILY) {
+        if (!versionForm.newFamilyName.trim()) {
+          showMessage('error', 'Please enter a family name')
+          return
+        }
+        const { data: family, error: familyError } = await supabase
+          .from('document_families')
+          .insert({ name: versionForm.newFamilyName.trim(), created_by: user?.id })
+          .select()
+          .single()
+
+        if (familyError) throw familyError
+        familyId = family.id
+        fetchFamilies()
+      }
+
+      const { error } = await supabase.rpc('set_document_version', {
+        target_document_id: doc.id,
+        target_family_id: familyId,
+        target_season: versionForm.season ? parseInt(versionForm.season) : null,
+        target_version: versionForm.version.trim() || null,
+        make_active: versionForm.makeActive
+      })
+
+      if (error) throw error
+      showMessage('success', `Version details saved for "${doc.name}"`)
+      setEditingVersionId(null)
       fetchDocuments()
     } catch (error) {
-      console.error('Error deleting document:', error)
-      showMessage('error', 'Failed to delete document')
+      console.error('Error saving document version:', error)
+      showMessage('error', 'Failed to save version details')
+    } finally {
+      setSavingVersion(false)
     }
   }
 
+  // Newest first: season, then upload date
+  const getFamilyDocuments = (familyId: string) =>
+    documents
+      .filter(doc => doc.family_id === familyId)
+      .sort((a, b) => (b.season ?? 0) - (a.season ?? 0) || b.created_at.localeCompare(a.created_at))
+
+  const formatVersionLabel = (doc: Document) =>
+    [doc.season, doc.version && `v${doc.version}`].filter(Boolean).join(' ')
+
+  const selectCompareFamily = (familyId: string) => {
+    const familyDocs = getFamilyDocuments(familyId)
+    const target = familyDocs.find(doc => doc.is_active) || familyDocs[0]
+    const base = familyDocs.find(doc => doc.id !== target?.id)
+    setCompareFamilyId(familyId)
+    setCompareTargetId(target?.id || '')
+    setCompareBaseId(base?.id || '')
+    setRulebookDiff(null)
+  }
+
+  const handleCompare = async () => {
+    if (!compareBaseId || !compareTargetId || compareBaseId === compareTargetId) {
+      showMessage('error', 'Please choose two different versions')
+      return
+    }
+
+    setComparing(true)
+    try {
+      const { data, error } = await supabase.functions.invoke('rulebook-diff', {
+        body: { baseDocumentId: compareBaseId, targetDocumentId: compareTargetId }
+      })
+
+      if (error) throw error
+      setRulebookDiff(data)
+    } catch (error) {
+      console.error('Error comparing document versions:', error)
+      showMessage('error', 'Failed to compare versions')
+    } finally {
+      setComparing(false)
+    }
+  }
+
+  const downloadChangelog = (diff: RulebookDiff) => {
+    const label = (doc: RulebookDiff['base']) => `${doc.name}${doc.season ? ` (${doc.season}${doc.version ? ` v${doc.version}` : ''})` : ''}`
+    const lines = [
+      `# Rule changes: ${label(diff.base)} → ${label(diff.target)}`,
+      '',
+      `${diff.summary.added} added • ${diff.summary.modified} modified • ${diff.summary.removed} removed`
+    ]
+    for (const type of ['modified', 'added', 'removed'] as const) {
+      const changes = diff.changes.filter(c => c.change_type === type)
+      if (changes.length === 0) continue
+      lines.push('', `## ${CHANGE_STYLES[type].label}`)
+      for (const change of changes) {
+        lines.push('', `### ${change.rule_id}`)
+        if (change.summary) lines.push('', `**Change:** ${change.summary}`)
+        if (change.before) lines.push('', `**Before:** ${change.before}`)
+        if (change.after) lines.push('', `**After:** ${change.after}`)
+      }
+    }
+
+    const url = URL.createObjectURL(new Blob([lines.join('\n')], { type: 'text/markdown' }))
+    const a = window.document.createElement('a')
+    a.href = url
+    a.download = `rule-changes-${diff.target.season || 'latest'}.md`
+    window.document.body.appendChild(a)
+    a.click()
+    window.document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
   const toggleDocumentSelection = (docId: string) => {
     const newSelected = new Set(selectedDocuments)
     if (newSelected.has(docId)) {
@@ -265,7 +666,9 @@ export default function Documents() {
   }
 
   const selectAllDocuments = () => {
+    // Superseded versions would mix old and new rules, so they are left out
     const validDocs = documents.filter(doc => 
+      doc.is_active &&
       doc.content && 
       !doc.content.startsWith('[PDF Document:') && 
       doc.content.length > 100
@@ -298,21 +701,7 @@ export default function Documents() {
     })
   }
 
-  // --- NEW: Handle Question Bank Import ---
-   const cleanJsonString = (str: string) => {
-    return str
-      // 1. Remove Form Feed characters (The '' symbol showing in your logs)
-      .replace(/\f/g, '') 
-      // 2. Replace actual newlines/returns with spaces (fixes unescaped newlines in strings)
-      .replace(/[\r\n]+/g, ' ')
-      // 3. Fix corrupted "true"/"false" if they have weird spacing (common in OCR)
-      .replace(/:\s*true\s*}/g, ': true }')
-      .replace(/:\s*false\s*}/g, ': false }')
-      // 4. Remove any non-printable ASCII characters (except valid ones)
-      .replace(/[^\x20-\x7E\xA0-\xFF]/g, '')
-      .trim();
-  };
-
+  // --- Question Bank Import ---
   const handleQuestionBankUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -328,64 +717,8 @@ export default function Documents() {
         const text = await file.text();
         
         log("Splitting content...");
-        // Split by the word "QUIZ" followed by a space and a number
-        // We capture the delimiter to know which quiz it is if needed
-        const parts = text.split(/QUIZ\s+\d+/).filter(part => part.trim().length > 10);
-        
-        log(`Found ${parts.length} potential quiz blocks.`);
-        
-        let allQuestionsToInsert: any[] = [];
-        let successCount = 0;
-        let failCount = 0;
-  
-        for (let i = 0; i < parts.length; i++) {
-          let rawStr = parts[i];
-          
-          try {
-            // Apply the robust cleaner
-            const cleanStr = cleanJsonString(rawStr);
-            
-            // Attempt parse
-            const quiz = JSON.parse(cleanStr);
-            
-            const eventName = quiz.event && quiz.event[0] ? quiz.event[0].short_name : 'Unknown';
-            const quizYear = parseInt(quiz.year) || 0;
-            
-            // Map to our DB schema
-            const quizQuestions = quiz.questions.map((q: any) => {
-               const solText = q.solution && q.solution[0] ? q.solution[0].text : null;
-               
-               // Fix the answer correctness map
-               // The DB expects options to be flexible, but let's normalize them
-               const normalizedOptions = q.answers?.map((a: any) => ({
-                 text: a.answer_text,
-                 is_correct: a.is_correct
-               })) || [];
-
-               return {
-                  external_id: q.question_id,
-                  quiz_id: quiz.quiz_id,
-                  year: quizYear,
-                  class: quiz.class,
-                  source_event: eventName,
-                  type: q.type, 
-                  question_text: q.text,
-                  options: normalizedOptions, 
-                  images: q.images || [], 
-                  explanation: solText
-               };
-            });
-            
-            allQuestionsToInsert.push(...quizQuestions);
-            successCount++;
-            
-          } catch (e: any) {
-             console.error(`Block ${i} failed. Preview: ${rawStr.substring(0, 50)}...`);
-             // log(`⚠️ Failed Block ${i}: ${e.message}`);
-             failCount++;
-          }
-        }
-
+        const { blocks, questions: allQuestionsToInsert, successCount, failCount } = parseQuestionBank(text);
+        log(`Found ${blocks} potential quiz blocks.`);
         log(`Parsed ${successCount} quizzes. (${failCount} failed).`);
         log(`Prepared ${allQuestionsToInsert.length} questions for upload.`);
         
@@ -395,13 +728,32 @@ export default function Documents() {
 
         // 2. Batch Upload
         const BATCH_SIZE = 50;
+        const insertedIds: string[] = [];
         for (let i = 0; i < allQuestionsToInsert.length; i += BATCH_SIZE) {
             const batch = allQuestionsToInsert.slice(i, i + BATCH_SIZE);
-            const { error } = await supabase.from('question_bank').insert(batch);
+            const { data, error } = await supabase.from('question_bank').insert(batch).select('id');
             if(error) throw error;
+            insertedIds.push(...(data || []).map(row => row.id));
             log(`Uploaded ${Math.min(i + BATCH_SIZE, allQuestionsToInsert.length)} / ${allQuestionsToInsert.length}`);
         }
 
+        // 3. Topic Tagging (untagged questions can still be tagged from the admin page)
+        log("Tagging topics...");
+        let tagged = 0;
+        try {
+            for (let i = 0; i < insertedIds.length; i += BATCH_SIZE) {
+                const { data, error } = await supabase.functions.invoke('tag-questions', {
+                    body: { question_ids: insertedIds.slice(i, i + BATCH_SIZE) }
+                });
+                if (error) throw error;
+                tagged += data.tagged;
+                log(`Tagged ${tagged} / ${insertedIds.length}`);
+            }
+        } catch (error: any) {
+            console.error('Error tagging questions:', error);
+            log(`⚠️ Topic tagging stopped: ${error.message}`);
+        }
+
         log("✅ Import Complete Successfully!");
         showMessage('success', `Imported ${allQuestionsToInsert.length} questions to the Bank.`);
 
@@ -457,6 +809,56 @@ export default function Documents() {
         </div>
       )}
 
+      {/* Near-duplicate prompts */}
+      {duplicates.map(duplicate => {
+        const newDoc = documents.find(doc => doc.id === duplicate.document_id)
+        const existingDoc = documents.find(doc => doc.id === duplicate.duplicate_of)
+        if (!newDoc || !existingDoc) return null
+        const resolving = resolvingDuplicateId === duplicate.id
+
+        return (
+          <div key={duplicate.id} className="card border border-yellow-200 bg-yellow-50">
+            <div className="flex items-start space-x-3">
+              <Copy className="w-5 h-5 text-yellow-700 flex-shrink-0 mt-0.5" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm sm:text-base text-gray-900">
+                  <span className="font-medium">"{newDoc.name}"</span> looks like a near-duplicate of{' '}
+                  <span className="font-medium">"{existingDoc.name}"</span>
+                </p>
+                <p className="text-xs sm:text-sm text-gray-600 mt-1">
+                  {Math.round(duplicate.overlap * 100)}% of its sections ({duplicate.matched_sections} of {duplicate.total_sections}) are already in "{existingDoc.name}".
+                  Duplicate sections crowd out other sources in Q&A.
+                </p>
+                <div className="flex flex-wrap gap-2 mt-3">
+                  <button
+                    onClick={() => handleMergeDuplicate(duplicate, newDoc, existingDoc)}
+                    disabled={resolving}
+                    className="btn-primary text-sm"
+                  >
+                    Merge into existing
+                  </button>
+                  <button
+                    onClick={() => handleReplaceDuplicate(duplicate, newDoc, existingDoc)}
+                    disabled={resolving}
+                    className="btn-secondary text-sm"
+                  >
+                    Replace existing
+                  </button>
+                  <button
+                    onClick={() => handleKeepBoth(duplicate)}
+                    disabled={resolving}
+                    className="btn-secondary text-sm"
+                  >
+                    Keep both
+                  </button>
+                  {resolving && <Loader className="w-4 h-4 animate-spin text-gray-500 self-center" />}
+                </div>
+              </div>
+            </div>
+          </div>
+        )
+      })}
+
       {/* 1. Main Document Upload Section (RAG) */}
       <div className="card">
         <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 sm:p-8 text-center hover:border-primary-400 transition-colors">
@@ -465,34 +867,128 @@ export default function Documents() {
             Upload Training Documents
           </h3>
           <p className="text-sm sm:text-base text-gray-600 mb-4">
-            Supported formats: PDF, TXT (Max 10MB)
+            Supported formats: PDF (including scanned), TXT, Markdown, HTML, DOCX, XLSX (Max 10MB each).
+            Select several files, a folder or a ZIP archive to upload in bulk.
           </p>
-          {uploading && uploadProgress && (
-            <p className="text-xs sm:text-sm text-primary-600 mb-3 font-medium">
-              {uploadProgress}
-            </p>
-          )}
-          <label className={`btn-primary cursor-pointer inline-block px-6 py-3 ${!pdfLibReady ? 'opacity-50' : ''}`}>
-            {uploading ? (
-              <span className="flex items-center space-x-2">
-                <Loader className="w-4 h-4 animate-spin" />
-                <span className="text-sm sm:text-base">Processing...</span>
-              </span>
-            ) : (
-              <span className="text-sm sm:text-base">Choose File</span>
-            )}
-            <input
-              type="file"
-              className="hidden"
-              accept=".pdf,.txt"
-              onChange={handleFileUpload}
-              disabled={uploading || !pdfLibReady}
-            />
-          </label>
-          {!pdfLibReady && !uploading && (
-            <p className="text-xs text-gray-400 mt-2">Initializing PDF Processor...</p>
-          )}
+          <div className="flex flex-col sm:flex-row items-center justify-center gap-3">
+            <label className="btn-primary cursor-pointer inline-block px-6 py-3">
+              {uploading ? (
+                <span className="flex items-center space-x-2">
+                  <Loader className="w-4 h-4 animate-spin" />
+                  <span className="text-sm sm:text-base">Uploading...</span>
+                </span>
+              ) : (
+                <span className="text-sm sm:text-base">Choose Files</span>
+              )}
+              <input
+                type="file"
+                className="hidden"
+                multiple
+                accept={[...Object.keys(SUPPORTED_FILE_TYPES), 'zip'].map(ext => `.${ext}`).join(',')}
+                onChange={handleFileUpload}
+                disabled={uploading}
+              />
+            </label>
+            <label className="btn-secondary cursor-pointer inline-block px-6 py-3">
+              <span className="text-sm sm:text-base">Choose Folder</span>
+              <input
+                type="file"
+                className="hidden"
+                ref={(el) => el?.setAttribute('webkitdirectory', '')}
+                onChange={handleFileUpload}
+                disabled={uploading}
+              />
+            </label>
+          </div>
         </div>
+
+        {/* Upload queue */}
+        {uploadQueue.length > 0 && (
+          <div className="mt-4 border border-gray-200 rounded-lg">
+            <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+              <span className="text-xs font-bold text-gray-500 uppercase tracking-wide">
+                Upload Queue ({uploadQueue.filter(item => item.status === 'done').length}/{uploadQueue.length} done)
+              </span>
+              <button
+                onClick={clearFinishedUploads}
+                className="text-xs text-gray-500 hover:text-gray-700"
+              >
+                Clear finished
+              </button>
+            </div>
+            <ul className="max-h-60 overflow-y-auto divide-y divide-gray-100">
+              {uploadQueue.map(item => (
+                <li key={item.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                  <div className="min-w-0 mr-3">
+                    <p className="truncate text-gray-900" title={item.name}>{item.name}</p>
+                    {item.message && <p className="text-xs text-gray-500 truncate">{item.message}</p>}
+                  </div>
+                  <span className={`flex-shrink-0 text-xs font-medium ${UPLOAD_STATUS_STYLES[item.status].className}`}>
+                    {UPLOAD_STATUS_STYLES[item.status].label}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Ingestion progress */}
+        {jobs.length > 0 && (
+          <div className="mt-4 space-y-3">
+            {jobs.map((job) => {
+              const percent = job.total_chunks > 0 ? Math.round((job.processed_chunks / job.total_chunks) * 100) : 0
+              return (
+                <div key={job.id} className="p-3 border border-gray-200 rounded-lg">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="flex items-center space-x-2 min-w-0">
+                      {job.status === 'failed' ? (
+                        <AlertCircle className="w-4 h-4 text-danger-600 flex-shrink-0" />
+                      ) : (
+                        <Loader className="w-4 h-4 text-primary-600 animate-spin flex-shrink-0" />
+                      )}
+                      <span className="text-sm font-medium text-gray-900 truncate">{job.name}</span>
+                    </div>
+                    <div className="flex items-center space-x-1 flex-shrink-0">
+                      <span className={`text-xs ${job.status === 'failed' ? 'text-danger-600' : 'text-gray-500'}`}>
+                        {JOB_STATUS_LABELS[job.status]}
+                        {job.status === 'embedding' && job.total_chunks > 0 && ` ${job.processed_chunks}/${job.total_chunks}`}
+                      </span>
+                      {isJobRetryable(job) && (
+                        <>
+                          <button
+                            onClick={() => handleRetryJob(job)}
+                            className="p-1.5 text-gray-600 hover:text-primary-600 hover:bg-primary-50 rounded-lg transition-colors"
+                            title="Retry"
+                          >
+                            <RotateCcw className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDismissJob(job)}
+                            className="p-1.5 text-gray-600 hover:text-danger-600 hover:bg-danger-50 rounded-lg transition-colors"
+                            title="Dismiss"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                  {job.status === 'embedding' && (
+                    <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
+                      <div
+                        className="bg-primary-600 h-2 rounded-full transition-all duration-300 ease-out"
+                        style={{ width: `${percent}%` }}
+                      />
+                    </div>
+                  )}
+                  {job.error && (
+                    <p className="text-xs text-danger-600 mt-2">{job.error}</p>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
       </div>
 
       {/* 2. Official Question Bank Import Section */}
@@ -555,7 +1051,7 @@ export default function Documents() {
                 onClick={selectAllDocuments}
                 className="text-primary-600 hover:text-primary-700 whitespace-nowrap"
               >
-                <span className="hidden sm:inline">Select All Valid</span>
+                <span className="hidden sm:inline">Select All Active</span>
                 <span className="sm:hidden">All</span>
               </button>
               <span className="text-gray-300">|</span>
@@ -581,66 +1077,259 @@ export default function Documents() {
         ) : (
           <div className="space-y-2 sm:space-y-3">
             {documents.map((doc) => (
-              <div
-                key={doc.id}
-                className={`flex flex-col sm:flex-row sm:items-center justify-between p-3 sm:p-4 border-2 rounded-lg transition-colors space-y-2 sm:space-y-0 ${
-                  selectedDocuments.has(doc.id)
-                    ? 'border-primary-500 bg-primary-50'
-                    : 'border-gray-200 hover:bg-gray-50'
-                }`}
-              >
-                <div className="flex items-start space-x-3 flex-1 cursor-pointer" onClick={() => toggleDocumentSelection(doc.id)}>
-                  <button
-                    className={`flex-shrink-0 w-5 h-5 rounded border-2 flex items-center justify-center transition-colors ${
-                      selectedDocuments.has(doc.id)
-                        ? 'border-primary-500 bg-primary-500'
-                        : 'border-gray-300 hover:border-primary-400'
-                    }`}
-                  >
-                    {selectedDocuments.has(doc.id) && (
-                      <Check className="w-3 h-3 text-white" />
-                    )}
-                  </button>
-                  <FileText className="w-6 h-6 sm:w-8 sm:h-8 text-primary-600 flex-shrink-0" />
-                  <div className="flex-1 min-w-0">
-                    <h3 className="font-medium text-gray-900 text-sm sm:text-base truncate">{doc.name}</h3>
-                    <p className="text-sm text-gray-500">
-                      {formatFileSize(doc.file_size)} • Uploaded {formatDate(doc.created_at)}
-                    </p>
-                    {doc.content && !doc.content.startsWith('[PDF Document:') && (
-                      <p className="text-xs text-green-600 mt-1">
-                        ✓ Text extracted ({doc.content.length} chars)
+              <div key={doc.id}>
+                <div
+                  className={`flex flex-col sm:flex-row sm:items-center justify-between p-3 sm:p-4 border-2 rounded-lg transition-colors space-y-2 sm:space-y-0 ${
+                    selectedDocuments.has(doc.id)
+                      ? 'border-primary-500 bg-primary-50'
+                      : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="flex items-start space-x-3 flex-1 cursor-pointer" onClick={() => toggleDocumentSelection(doc.id)}>
+                    <button
+                      className={`flex-shrink-0 w-5 h-5 rounded border-2 flex items-center justify-center transition-colors ${
+                        selectedDocuments.has(doc.id)
+                          ? 'border-primary-500 bg-primary-500'
+                          : 'border-gray-300 hover:border-primary-400'
+                      }`}
+                    >
+                      {selectedDocuments.has(doc.id) && (
+                        <Check className="w-3 h-3 text-white" />
+                      )}
+                    </button>
+                    <FileText className="w-6 h-6 sm:w-8 sm:h-8 text-primary-600 flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <h3 className="font-medium text-gray-900 text-sm sm:text-base truncate">{doc.name}</h3>
+                      <p className="text-sm text-gray-500">
+                        {formatFileSize(doc.file_size)} • Uploaded {formatDate(doc.created_at)}
                       </p>
-                    )}
-                    {doc.content && doc.content.startsWith('[PDF Document:') && (
-                      <p className="text-xs text-orange-600 mt-1">
-                        ⚠️ No text extracted - please re-upload
-                      </p>
-                    )}
+                      {doc.content && !doc.content.startsWith('[PDF Document:') && (
+                        <p className="text-xs text-green-600 mt-1">
+                          ✓ Text extracted ({doc.content.length} chars)
+                        </p>
+                      )}
+                      {doc.content && doc.content.startsWith('[PDF Document:') && (
+                        <p className="text-xs text-orange-600 mt-1">
+                          ⚠️ No text extracted - please re-upload
+                        </p>
+                      )}
+                      {doc.family_id && (
+                        <p className="text-xs text-gray-500 mt-1 flex flex-wrap items-center gap-1">
+                          <span>{families.find(f => f.id === doc.family_id)?.name || 'Family'}</span>
+                          {formatVersionLabel(doc) && <span>• {formatVersionLabel(doc)}</span>}
+                          <span className={`px-1.5 py-0.5 rounded ${doc.is_active ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-500'}`}>
+                            {doc.is_active ? 'Active' : 'Superseded'}
+                          </span>
+                        </p>
+                      )}
+                    </div>
                   </div>
-                </div>
                 
-                <div className="flex items-center space-x-1 sm:space-x-2 self-end sm:self-center">
-                  <button
-                    onClick={() => handleDownload(doc)}
-                    className="p-2 text-gray-600 hover:text-primary-600 hover:bg-primary-50 rounded-lg transition-colors"
-                    title="Download"
-                  >
-                    <Download className="w-4 h-4" />
-                  </button>
-                  <button
-                    onClick={() => handleDelete(doc)}
-                    className="p-2 text-gray-600 hover:text-danger-600 hover:bg-danger-50 rounded-lg transition-colors"
-                    title="Delete"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </button>
+                  <div className="flex items-center space-x-1 sm:space-x-2 self-end sm:self-center">
+                    <button
+                      onClick={() => (editingVersionId === doc.id ? setEditingVersionId(null) : startVersionEdit(doc))}
+                      className="p-2 text-gray-600 hover:text-primary-600 hover:bg-primary-50 rounded-lg transition-colors"
+                      title="Version"
+                    >
+                      <Settings className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDownload(doc)}
+                      className="p-2 text-gray-600 hover:text-primary-600 hover:bg-primary-50 rounded-lg transition-colors"
+                      title="Download"
+                    >
+                      <Download className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(doc)}
+                      className="p-2 text-gray-600 hover:text-danger-600 hover:bg-danger-50 rounded-lg transition-colors"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
                 </div>
+
+                {editingVersionId === doc.id && (
+                  <div className="mt-2 p-3 sm:p-4 border border-gray-200 rounded-lg bg-gray-50 grid grid-cols-1 sm:grid-cols-4 gap-3">
+                    <div className="sm:col-span-2">
+                      <label className="block text-xs font-bold text-gray-500 uppercase tracking-wide mb-1">Family</label>
+                      <select
+                        value={versionForm.familyId}
+                        onChange={(e) => setVersionForm(prev => ({ ...prev, familyId: e.target.value }))}
+                        className="input-field w-full"
+                      >
+                        <option value="">No family</option>
+                        {families.map((family) => (
+                          <option key={family.id} value={family.id}>{family.name}</option>
+                        ))}
+                        <option value={NEW_FAMILY}>+ New family...</option>
+                      </select>
+                      {versionForm.familyId === NEW_FAMILY && (
+                        <input
+                          type="text"
+                          value={versionForm.newFamilyName}
+                          onChange={(e) => setVersionForm(prev => ({ ...prev, newFamilyName: e.target.value }))}
+                          placeholder="e.g. FS Rules"
+                          className="input-field w-full mt-2"
+                        />
+                      )}
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-gray-500 uppercase tracking-wide mb-1">Season</label>
+                      <input
+                        type="number"
+                        value={versionForm.season}
+                        onChange={(e) => setVersionForm(prev => ({ ...prev, season: e.target.value }))}
+                        placeholder="2025"
+                        className="input-field w-full"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-gray-500 uppercase tracking-wide mb-1">Version</label>
+                      <input
+                        type="text"
+                        value={versionForm.version}
+                        onChange={(e) => setVersionForm(prev => ({ ...prev, version: e.target.value }))}
+                        placeholder="1.0"
+                        className="input-field w-full"
+                      />
+                    </div>
+                    <label className="flex items-center space-x-2 text-sm text-gray-700 sm:col-span-2">
+                      <input
+                        type="checkbox"
+                        checked={versionForm.makeActive}
+                        disabled={!versionForm.familyId}
+                        onChange={(e) => setVersionForm(prev => ({ ...prev, makeActive: e.target.checked }))}
+                      />
+                      <span>Active version (used by default in chat and quizzes)</span>
+                    </label>
+                    <div className="sm:col-span-2 flex justify-end space-x-2">
+                      <button onClick={() => setEditingVersionId(null)} className="btn-secondary">
+                        Cancel
+                      </button>
+                      <button onClick={() => saveVersion(doc)} disabled={savingVersion} className="btn-primary flex items-center">
+                        {savingVersion && <Loader className="w-4 h-4 animate-spin mr-2" />}
+                        Save
+                      </button>
+                    </div>
+                  </div>
+                )}
               </div>
             ))}
           </div>
         )}
       </div>
+
+      {/* 4. Compare Rulebook Versions */}
+      {families.some(family => getFamilyDocuments(family.id).length > 1) && (
+        <div className="card">
+          <h2 className="text-lg sm:text-xl font-semibold text-gray-900 mb-4 flex items-center">
+            <GitCompare className="w-5 h-5 mr-2" />
+            Compare Versions
+          </h2>
+
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+            <div>
+              <label className="block text-xs font-bold text-gray-500 uppercase tracking-wide mb-1">Family</label>
+              <select
+                value={compareFamilyId}
+                onChange={(e) => selectCompareFamily(e.target.value)}
+                className="input-field w-full"
+              >
+                <option value="">Choose a family</option>
+                {families
+                  .filter(family => getFamilyDocuments(family.id).length > 1)
+                  .map((family) => (
+                    <option key={family.id} value={family.id}>{family.name}</option>
+                  ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-gray-500 uppercase tracking-wide mb-1">Old version</label>
+              <select
+                value={compareBaseId}
+                onChange={(e) => { setCompareBaseId(e.target.value); setRulebookDiff(null) }}
+                className="input-field w-full"
+                disabled={!compareFamilyId}
+              >
+                {getFamilyDocuments(compareFamilyId).map((doc) => (
+                  <option key={doc.id} value={doc.id}>{formatVersionLabel(doc) || doc.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-gray-500 uppercase tracking-wide mb-1">New version</label>
+              <select
+                value={compareTargetId}
+                onChange={(e) => { setCompareTargetId(e.target.value); setRulebookDiff(null) }}
+                className="input-field w-full"
+                disabled={!compareFamilyId}
+              >
+                {getFamilyDocuments(compareFamilyId).map((doc) => (
+                  <option key={doc.id} value={doc.id}>{formatVersionLabel(doc) || doc.name}</option>
+                ))}
+              </select>
+            </div>
+            <button
+              onClick={handleCompare}
+              disabled={!compareFamilyId || comparing}
+              className="btn-primary flex items-center justify-center"
+            >
+              {comparing ? <Loader className="w-4 h-4 animate-spin mr-2" /> : <GitCompare className="w-4 h-4 mr-2" />}
+              Compare
+            </button>
+          </div>
+
+          {rulebookDiff && (
+            <div className="mt-4">
+              {rulebookDiff.changes.length === 0 ? (
+                <p className="text-sm text-gray-600">No rule changes between these versions.</p>
+              ) : (
+                <>
+                  <div className="flex items-center justify-between mb-3">
+                    <p className="text-sm text-gray-600">
+                      {rulebookDiff.summary.added} added • {rulebookDiff.summary.modified} modified • {rulebookDiff.summary.removed} removed
+                    </p>
+                    <button
+                      onClick={() => downloadChangelog(rulebookDiff)}
+                      className="text-sm text-primary-600 hover:text-primary-700 flex items-center"
+                    >
+                      <Download className="w-4 h-4 mr-1" />
+                      Changelog
+                    </button>
+                  </div>
+                  <div className="space-y-3 max-h-[32rem] overflow-y-auto">
+                    {rulebookDiff.changes.map((change: RuleChange) => (
+                      <div key={change.rule_id} className="p-3 border border-gray-200 rounded-lg">
+                        <div className="flex items-center space-x-2 mb-2">
+                          <span className={`text-xs px-1.5 py-0.5 rounded ${CHANGE_STYLES[change.change_type].className}`}>
+                            {CHANGE_STYLES[change.change_type].label}
+                          </span>
+                          <span className="font-mono text-sm font-medium text-gray-900">{change.rule_id}</span>
+                        </div>
+                        {change.summary && (
+                          <p className="text-sm text-gray-800 mb-2">{change.summary}</p>
+                        )}
+                        {change.before && (
+                          <p className="text-xs text-gray-700 bg-red-50 border-l-2 border-red-300 p-2 rounded whitespace-pre-wrap">
+                            {change.before}
+                          </p>
+                        )}
+                        {change.after && (
+                          <p className={`text-xs text-gray-700 bg-green-50 border-l-2 border-green-300 p-2 rounded whitespace-pre-wrap ${change.before ? 'mt-2' : ''}`}>
+                            {change.after}
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
     </div>
   )
 }
\ No newline at end of file
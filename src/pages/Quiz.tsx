@@ -1,5 +1,10 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useRef } from 'react'
 import { supabase } from '../lib/supabase'
+import type { DocumentFamily, QuestionReview, QuizAttempt, QuizAttemptAnswer, QuizMode, Topic, TopicMastery } from '../lib/supabase'
+import { gradeAnswer, normalizeQuestionType, QuestionType } from '../../supabase/functions/_shared/grading'
+import { questionTopic } from '../../supabase/functions/_shared/topics'
+import { answerQuality, newReviewState, ReviewState, scheduleReview } from '../lib/spacedRepetition'
+import { difficultyFor, MasteryState, newMasteryState, parseDifficulty, pickNextTopic, updateMastery } from '../lib/mastery'
 import { useAuth } from '../contexts/AuthContext'
 import { 
   Brain, 
@@ -21,22 +26,98 @@ import {
   Type, 
   Hash,
   Database,
-  Filter
+  Filter,
+  GitCompare,
+  History,
+  Repeat,
+  ArrowLeft,
+  TrendingUp,
+  Tag
 } from 'lucide-react'
 
 // 1. Define Question Interface
 interface QuizQuestion {
   id: string
-  type: 'single-choice' | 'multi-choice' | 'input' | 'input-range'
+  type: QuestionType
   question: string
   options: string[] 
   correct_answer: string | number | number[] 
   explanation: string
   difficulty: string
+  topic?: string | null // topic slug, null until the question was tagged
   // New field for images
   image_path?: string | null
 }
 
+const MODE_LABELS: Record<QuizMode, string> = {
+  official: 'Official',
+  ai: 'AI',
+  changes: 'Rule Changes',
+  review: 'Review Due',
+  adaptive: 'Adaptive'
+}
+
+// Score with partial credit, e.g. 7.5 of 10; rounded so a third of a point does not print as 0.333…
+function sumCredits(credits: number[]): number {
+  return Math.round(credits.reduce((sum, credit) => sum + credit, 0) * 100) / 100
+}
+
+// Official question_bank row -> quiz question
+function mapBankQuestion(q: any): QuizQuestion {
+  // Parse Options if stringified
+  let rawOptions = q.options;
+  if (typeof rawOptions === 'string') {
+    try { rawOptions = JSON.parse(rawOptions) } catch(e) {}
+  }
+
+  const opts = Array.isArray(rawOptions) ? rawOptions.map((o: any) => o.text) : [];
+
+  // --- NORMALIZE TYPE ---
+  // We force everything to underscores for internal consistency
+  const normalizedType = normalizeQuestionType(q.type);
+
+  // Calculate Correct Answer Logic
+  let correctVal: any = null;
+
+  if (normalizedType === 'single_choice') {
+    // Use loose equality (== true) to catch "true" strings or 1
+    correctVal = Array.isArray(rawOptions)
+      ? rawOptions.findIndex((o: any) => o.is_correct == true)
+      : 0;
+    // Fallback if not found
+    if (correctVal === -1) correctVal = 0;
+  } else if (normalizedType === 'multi_choice') {
+    correctVal = Array.isArray(rawOptions)
+      ? rawOptions.map((o: any, idx: number) => o.is_correct ? idx : -1).filter((i:number) => i !== -1)
+      : [];
+  } else {
+    const correctObj = Array.isArray(rawOptions) ? rawOptions.find((o: any) => o.is_correct === true) : null;
+    correctVal = correctObj ? correctObj.text : "";
+  }
+
+  // Handle Images
+  let imgPath = null;
+  let rawImages = q.images;
+  if (typeof rawImages === 'string') {
+    try { rawImages = JSON.parse(rawImages) } catch(e) {}
+  }
+  if (Array.isArray(rawImages) && rawImages.length > 0) {
+    imgPath = rawImages[0].path;
+  }
+
+  return {
+    id: q.id,
+    type: normalizedType,
+    question: q.question_text,
+    options: opts,
+    correct_answer: correctVal,
+    explanation: q.explanation || "See official solution.",
+    difficulty: 'Hard',
+    topic: q.topic ?? null,
+    image_path: imgPath
+  }
+}
+
 export default function Quiz() {
   const { user } = useAuth()
   
@@ -47,12 +128,13 @@ export default function Quiz() {
   const [showResult, setShowResult] = useState(false)
   const [score, setScore] = useState(0)
   const [answers, setAnswers] = useState<any[]>([])
+  const [answerTimes, setAnswerTimes] = useState<(number | null)[]>([])
   const [loading, setLoading] = useState(false)
   const [generating, setGenerating] = useState(false)
   const [showSettings, setShowSettings] = useState(true)
   
   // --- NEW: Quiz Mode State ---
-  const [quizMode, setQuizMode] = useState<'official' | 'ai'>('official')
+  const [quizMode, setQuizMode] = useState<QuizMode>('official')
   
   // Settings State
   const [quizSettings, setQuizSettings] = useState({
@@ -60,7 +142,9 @@ export default function Quiz() {
     timeLimit: 10, // in minutes
     // New Filters for Official Mode
     yearFilter: 'all',
-    sourceFilter: 'all'
+    sourceFilter: 'all',
+    typeFilter: 'all',
+    topicFilter: 'all'
   })
   
   const [timeRemaining, setTimeRemaining] = useState(0)
@@ -70,9 +154,31 @@ export default function Quiz() {
   const [loadingFeedback, setLoadingFeedback] = useState(false)
   const [selectedDocuments, setSelectedDocuments] = useState<Set<string>>(new Set())
   const [availableDocuments, setAvailableDocuments] = useState<any[]>([])
+  const [families, setFamilies] = useState<DocumentFamily[]>([])
+  const [changeFamilyId, setChangeFamilyId] = useState('')
+  const [topics, setTopics] = useState<Topic[]>([])
+
+  // --- History State ---
+  const [attemptId, setAttemptId] = useState<string | null>(null)
+  const [showHistory, setShowHistory] = useState(false)
+  const [history, setHistory] = useState<QuizAttempt[]>([])
+  const [loadingHistory, setLoadingHistory] = useState(false)
+  const [reviewingAttempt, setReviewingAttempt] = useState<QuizAttempt | null>(null)
+  const questionStartedAt = useRef(Date.now())
+
+  // --- Spaced Repetition State ---
+  const [dueCount, setDueCount] = useState(0)
+  const reviewStates = useRef(new Map<string, ReviewState>())
+
+  // --- Topic Mastery State ---
+  const masteryStates = useRef(new Map<string, MasteryState>())
+  const [masteryBefore, setMasteryBefore] = useState(new Map<string, MasteryState>())
+  // Adaptive sessions generate their questions one at a time
+  const [questionTotal, setQuestionTotal] = useState(0)
+  const [loadingNext, setLoadingNext] = useState(false)
 
   const currentQuestion = questions[currentQuestionIndex]
-  const isLastQuestion = currentQuestionIndex === questions.length - 1
+  const isLastQuestion = currentQuestionIndex === questionTotal - 1
 
   // --- Effects ---
   useEffect(() => {
@@ -94,10 +200,15 @@ export default function Quiz() {
   useEffect(() => {
     // Only fetch docs if we might need them (AI mode or initial load)
     fetchDocuments()
+    fetchTopics()
     const saved = localStorage.getItem('selectedDocuments')
     if (saved) setSelectedDocuments(new Set(JSON.parse(saved)))
   }, [])
 
+  useEffect(() => {
+    if (user && showSettings) fetchDueCount()
+  }, [user, showSettings])
+
   // --- Helpers ---
   const fetchDocuments = async () => {
     try {
@@ -114,11 +225,40 @@ export default function Quiz() {
         doc.content.length > 100
       )
       setAvailableDocuments(validDocs)
+
+      const { data: familyData, error: familyError } = await supabase
+        .from('document_families')
+        .select('*')
+        .order('name')
+
+      if (familyError) throw familyError
+      setFamilies(familyData || [])
     } catch (error) {
       console.error('Error fetching documents:', error)
     }
   }
 
+  const fetchTopics = async () => {
+    const { data, error } = await supabase.from('topics').select('*').order('sort_order')
+    if (error) console.error('Error fetching topics:', error)
+    else setTopics(data || [])
+  }
+
+  const topicName = (slug: string) => topics.find(topic => topic.slug === slug)?.name ?? slug
+
+  // Active version of the family against the newest other version
+  const getChangeVersions = (familyId: string) => {
+    const familyDocs = availableDocuments
+      .filter(doc => doc.family_id === familyId)
+      .sort((a, b) => (b.season ?? 0) - (a.season ?? 0) || b.created_at.localeCompare(a.created_at))
+    const target = familyDocs.find(doc => doc.is_active) || familyDocs[0]
+    const base = familyDocs.find(doc => doc.id !== target?.id)
+    return { base, target }
+  }
+
+  const formatVersion = (doc: any) =>
+    doc.season ? `${doc.season}${doc.version ? ` v${doc.version}` : ''}` : doc.name
+
   const toggleDocumentSelection = (docId: string) => {
     const newSelected = new Set(selectedDocuments)
     if (newSelected.has(docId)) newSelected.delete(docId)
@@ -129,6 +269,7 @@ export default function Quiz() {
 
   const handleRestart = () => {
     setShowSettings(true)
+    setReviewingAttempt(null)
     resetQuiz()
   }
 
@@ -145,6 +286,261 @@ export default function Quiz() {
     return 'text-red-600'
   }
 
+  // --- History: Saving Attempts ---
+  // Saving is best effort, a failed write never interrupts the quiz
+  const getAttemptFilters = () => {
+    const filters: Record<string, any> = { time_limit: quizSettings.timeLimit }
+    if (quizMode === 'official') {
+      filters.year = quizSettings.yearFilter
+      filters.event = quizSettings.sourceFilter
+      filters.type = quizSettings.typeFilter
+      filters.topic = quizSettings.topicFilter
+    } else if (quizMode === 'ai') {
+      filters.documents = Array.from(selectedDocuments)
+      filters.topic = quizSettings.topicFilter
+    } else if (quizMode === 'changes') {
+      const { base, target } = getChangeVersions(changeFamilyId)
+      filters.family_id = changeFamilyId
+      filters.base_document_id = base?.id
+      filters.target_document_id = target?.id
+    }
+    return filters
+  }
+
+  const startAttempt = async (questionCount: number) => {
+    setAttemptId(null)
+    if (!user) return
+
+    const { data, error } = await supabase
+      .from('quiz_attempts')
+      .insert({ user_id: user.id, mode: quizMode, filters: getAttemptFilters(), question_count: questionCount })
+      .select('id')
+      .single()
+
+    if (error) console.error('Error saving quiz attempt:', error)
+    else setAttemptId(data.id)
+  }
+
+  const saveAnswers = async (positions: number[], allAnswers: any[], times: (number | null)[]) => {
+    if (!attemptId || positions.length === 0) return
+
+    const rows = positions.map(i => {
+      const q = questions[i]
+      const answer = allAnswers[i] ?? null
+      const { correct, credit } = gradeAnswer(answer, q.correct_answer, q.type)
+      return {
+        attempt_id: attemptId,
+        position: i,
+        question_id: q.id ? String(q.id) : null,
+        question: q,
+        answer,
+        is_correct: correct,
+        credit,
+        time_spent_ms: times[i] ?? null
+      }
+    })
+
+    const { error } = await supabase.from('quiz_attempt_answers').insert(rows)
+    if (error) console.error('Error saving quiz answers:', error)
+  }
+
+  const updateAttempt = async (fields: Partial<QuizAttempt>) => {
+    if (!attemptId) return
+    const { error } = await supabase.from('quiz_attempts').update(fields).eq('id', attemptId)
+    if (error) console.error('Error updating quiz attempt:', error)
+  }
+
+  // --- History: Browsing Attempts ---
+  const openHistory = async () => {
+    if (!user) return
+    setShowHistory(true)
+    setLoadingHistory(true)
+    try {
+      const { data, error } = await supabase
+        .from('quiz_attempts')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('started_at', { ascending: false })
+        .limit(100)
+
+      if (error) throw error
+      setHistory(data || [])
+    } catch (error) {
+      console.error('Error fetching quiz history:', error)
+    } finally {
+      setLoadingHistory(false)
+    }
+  }
+
+  // Reopens a past attempt on the results page, without feedback generation or saving
+  const openAttempt = async (attempt: QuizAttempt) => {
+    setLoadingHistory(true)
+    try {
+      const { data, error } = await supabase
+        .from('quiz_attempt_answers')
+        .select('*')
+        .eq('attempt_id', attempt.id)
+        .order('position')
+
+      if (error) throw error
+      const rows = (data || []) as QuizAttemptAnswer[]
+
+      setQuestions(rows.map(row => row.question))
+      setAnswers(rows.map(row => row.answer))
+      setAnswerTimes(rows.map(row => row.time_spent_ms))
+      setScore(sumCredits(rows.map(row => row.credit)))
+      setAiFeedback(attempt.feedback || 'No AI feedback was saved for this attempt.')
+      setAttemptId(null)
+      setReviewingAttempt(attempt)
+      setShowHistory(false)
+      setShowSettings(false)
+      setShowResult(true)
+    } catch (error) {
+      console.error('Error opening quiz attempt:', error)
+      alert('Failed to open this attempt')
+    } finally {
+      setLoadingHistory(false)
+    }
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+  }
+
+  const formatDuration = (ms: number) => {
+    const seconds = Math.round(ms / 1000)
+    return seconds < 60 ? `${seconds}s` : formatTime(seconds)
+  }
+
+  // --- Spaced Repetition ---
+  const usesReviewSchedule = quizMode === 'official' || quizMode === 'review'
+
+  const fetchDueCount = async () => {
+    const { count, error } = await supabase
+      .from('question_reviews')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user!.id)
+      .lte('due_at', new Date().toISOString())
+
+    if (error) console.error('Error counting due reviews:', error)
+    else setDueCount(count ?? 0)
+  }
+
+  const loadReviewStates = async (quizQuestions: QuizQuestion[]) => {
+    reviewStates.current = new Map()
+    if (!user || !usesReviewSchedule || quizQuestions.length === 0) return
+
+    const { data, error } = await supabase
+      .from('question_reviews')
+      .select('*')
+      .eq('user_id', user.id)
+      .in('question_id', quizQuestions.map(q => String(q.id)))
+
+    if (error) console.error('Error loading review schedule:', error)
+    for (const review of (data || []) as QuestionReview[]) reviewStates.current.set(review.question_id, review)
+  }
+
+  // Reschedules official questions after they were answered (or the time ran out on them)
+  const updateReviewSchedule = async (positions: number[], allAnswers: any[], times: (number | null)[]) => {
+    if (!user || !usesReviewSchedule || positions.length === 0) return
+
+    const now = new Date()
+    const rows = positions.map(i => {
+      const q = questions[i]
+      const answer = allAnswers[i] ?? null
+      const grade = gradeAnswer(answer, q.correct_answer, q.type)
+      const next = scheduleReview(
+        reviewStates.current.get(String(q.id)) ?? newReviewState(now),
+        answerQuality(grade, answer !== null, times[i] ?? null),
+        now
+      )
+      reviewStates.current.set(String(q.id), next)
+      return { user_id: user.id, question_id: String(q.id), ...next }
+    })
+
+    const { error } = await supabase.from('question_reviews').upsert(rows, { onConflict: 'user_id,question_id' })
+    if (error) console.error('Error updating review schedule:', error)
+  }
+
+  // --- Topic Mastery ---
+  const loadMastery = async () => {
+    masteryStates.current = new Map()
+    if (user) {
+      const { data, error } = await supabase
+        .from('topic_mastery')
+        .select('*')
+        .eq('user_id', user.id)
+
+      if (error) console.error('Error loading topic mastery:', error)
+      for (const row of (data || []) as TopicMastery[]) masteryStates.current.set(row.topic, row)
+    }
+    setMasteryBefore(new Map(masteryStates.current))
+  }
+
+  // Moves the topic estimates with the graded answers, in every quiz mode
+  const updateTopicMastery = async (positions: number[], allAnswers: any[]) => {
+    if (!user || positions.length === 0) return
+
+    const now = new Date()
+    const answeredTopics = new Set<string>()
+    for (const i of positions) {
+      const q = questions[i]
+      const topic = questionTopic(q)
+      // Untagged questions do not count towards any topic
+      if (!topic) continue
+      const { credit } = gradeAnswer(allAnswers[i] ?? null, q.correct_answer, q.type)
+      const current = masteryStates.current.get(topic) ?? newMasteryState()
+      masteryStates.current.set(topic, updateMastery(current, credit, parseDifficulty(q.difficulty), now))
+      answeredTopics.add(topic)
+    }
+    if (answeredTopics.size === 0) return
+
+    const rows = Array.from(answeredTopics).map(topic => ({ user_id: user.id, topic, ...masteryStates.current.get(topic)! }))
+    const { error } = await supabase.from('topic_mastery').upsert(rows, { onConflict: 'user_id,topic' })
+    if (error) console.error('Error updating topic mastery:', error)
+  }
+
+  // --- Adaptive Mode ---
+  // One generated question on the weakest topic, at a difficulty matching its mastery
+  const fetchAdaptiveQuestion = async (previousTopic: string | null): Promise<QuizQuestion> => {
+    if (topics.length === 0) throw new Error('No topics to choose from')
+    const topic = pickNextTopic(masteryStates.current, topics.map(t => t.slug), previousTopic)
+    const difficulty = difficultyFor((masteryStates.current.get(topic) ?? newMasteryState()).mastery)
+
+    const { data, error } = await supabase.functions.invoke('generate-quiz', {
+      body: { count: 1, topic, difficulty }
+    })
+    if (error) throw error
+    // Fixed fallback questions are not on the chosen topic and must not update its mastery
+    if (!data.questions?.length || data.source === 'fallback') throw new Error('No question was generated')
+    return data.questions[0]
+  }
+
+  const showNextAdaptiveQuestion = async (newAnswers: any[], newTimes: (number | null)[]) => {
+    setLoadingNext(true)
+    setQuizPaused(true) // the clock stops while the question is generated
+    try {
+      const question = await fetchAdaptiveQuestion(questionTopic(currentQuestion))
+      setQuestions(prev => [...prev, question])
+      setCurrentQuestionIndex(prev => prev + 1)
+      setSelectedAnswer(null)
+      questionStartedAt.current = Date.now()
+    } catch (error) {
+      console.error('Error generating the next question:', error)
+      alert("Failed to generate the next question, the session ends here.")
+      finishQuiz(newAnswers, newTimes)
+    } finally {
+      setLoadingNext(false)
+      setQuizPaused(false)
+    }
+  }
+
   // --- Logic: Generate & Run Quiz ---
   const generateQuiz = async () => {
     if (quizSettings.questionCount < 1) {
@@ -157,6 +553,7 @@ export default function Quiz() {
 
     try {
       let newQuestions: QuizQuestion[] = []
+      await loadMastery()
 
       if (quizMode === 'ai') {
          if (selectedDocuments.size === 0) { 
@@ -168,101 +565,98 @@ export default function Quiz() {
          const { data, error } = await supabase.functions.invoke('generate-quiz', {
             body: { 
               count: quizSettings.questionCount,
-              selectedDocuments: Array.from(selectedDocuments)
+              selectedDocuments: Array.from(selectedDocuments),
+              ...(quizSettings.topicFilter !== 'all' ? { topic: quizSettings.topicFilter } : {})
             }
          })
          if (error) throw error
          newQuestions = data.questions || []
       } 
+      else if (quizMode === 'changes') {
+         const { base, target } = getChangeVersions(changeFamilyId)
+         if (!base || !target) {
+             alert("This document family needs at least two versions.");
+             setGenerating(false);
+             return;
+         }
+
+         const { data, error } = await supabase.functions.invoke('rulebook-diff', {
+            body: {
+              baseDocumentId: base.id,
+              targetDocumentId: target.id,
+              generateQuiz: true,
+              questionCount: quizSettings.questionCount
+            }
+         })
+         if (error) throw error
+         newQuestions = data.quiz?.questions || []
+      }
+      else if (quizMode === 'review') {
+        const { data, error } = await supabase.rpc('get_review_questions', {
+          question_count: quizSettings.questionCount,
+          year_filter: quizSettings.yearFilter !== 'all' ? parseInt(quizSettings.yearFilter) : null,
+          event_filter: quizSettings.sourceFilter !== 'all' ? quizSettings.sourceFilter : null,
+          topic_filter: quizSettings.topicFilter !== 'all' ? quizSettings.topicFilter : null
+        })
+        if (error) throw error
+
+        if (!data || data.length === 0) {
+            alert("No questions left to review with these filters.")
+            setGenerating(false)
+            return
+        }
+
+        // Due questions come first, most overdue first
+        newQuestions = data.map(mapBankQuestion)
+      }
+      else if (quizMode === 'adaptive') {
+        // The rest is generated after each answer, from the updated mastery
+        newQuestions = [await fetchAdaptiveQuestion(null)]
+      }
       else {
         // --- OFFICIAL MODE ---
-        let query = supabase.from('question_bank').select('*')
-        
-        if (quizSettings.yearFilter !== 'all') {
-            query = query.eq('year', parseInt(quizSettings.yearFilter))
-        }
-        if (quizSettings.sourceFilter !== 'all') {
-            query = query.eq('source_event', quizSettings.sourceFilter)
+        // Random sample spread over year, event, type and topic
+        const sampleQuestions = async (includeSeen: boolean) => {
+          const { data, error } = await supabase.rpc('sample_questions', {
+            question_count: quizSettings.questionCount,
+            year_filter: quizSettings.yearFilter !== 'all' ? parseInt(quizSettings.yearFilter) : null,
+            event_filter: quizSettings.sourceFilter !== 'all' ? quizSettings.sourceFilter : null,
+            type_filter: quizSettings.typeFilter !== 'all' ? quizSettings.typeFilter : null,
+            topic_filter: quizSettings.topicFilter !== 'all' ? quizSettings.topicFilter : null,
+            include_seen: includeSeen
+          })
+          if (error) throw error
+          return data || []
         }
 
-        // Fetch a pool (50) to shuffle from
-        const { data, error } = await query.limit(50)
+        // Questions answered before are only repeated when the user agrees
+        let data = await sampleQuestions(false)
+        if (data.length < quizSettings.questionCount) {
+          const withSeen = await sampleQuestions(true)
+          const repeats = withSeen.length - data.length
+          if (repeats > 0 && confirm(data.length > 0
+            ? `Only ${data.length} of the questions matching these filters are new to you. Add ${repeats} you have answered before?`
+            : 'You have answered every question matching these filters. Practice them again?')) {
+            data = withSeen
+          }
+        }
 
-        if (error) throw error
-        
-        if (!data || data.length === 0) {
+        if (data.length === 0) {
             alert("No questions found matching these filters.")
             setGenerating(false)
             return
         }
 
-        // Shuffle AND Slice to the requested count
-        const shuffledData = data
-            .sort(() => 0.5 - Math.random())
-            .slice(0, quizSettings.questionCount); 
-
-        newQuestions = shuffledData.map((q: any) => {
-           // Parse Options if stringified
-           let rawOptions = q.options;
-           if (typeof rawOptions === 'string') {
-               try { rawOptions = JSON.parse(rawOptions) } catch(e) {}
-           }
-           
-           const opts = Array.isArray(rawOptions) ? rawOptions.map((o: any) => o.text) : [];
-
-           // --- NORMALIZE TYPE ---
-           // We force everything to underscores for internal consistency
-           let normalizedType = 'input'; 
-           if (q.type === 'single-choice' || q.type === 'single_choice') normalizedType = 'single_choice';
-           else if (q.type === 'multi-choice' || q.type === 'multi_choice') normalizedType = 'multi_choice';
-           else if (q.type === 'input' || q.type === 'input-range') normalizedType = 'input';
-
-           // Calculate Correct Answer Logic
-           let correctVal: any = null;
-
-           if (normalizedType === 'single_choice') {
-               // Use loose equality (== true) to catch "true" strings or 1
-               correctVal = Array.isArray(rawOptions) 
-                ? rawOptions.findIndex((o: any) => o.is_correct == true) 
-                : 0;
-               // Fallback if not found
-               if (correctVal === -1) correctVal = 0;
-           } else if (normalizedType === 'multi_choice') {
-               correctVal = Array.isArray(rawOptions) 
-                   ? rawOptions.map((o: any, idx: number) => o.is_correct ? idx : -1).filter((i:number) => i !== -1)
-                   : [];
-           } else {
-               const correctObj = Array.isArray(rawOptions) ? rawOptions.find((o: any) => o.is_correct === true) : null;
-               correctVal = correctObj ? correctObj.text : "";
-           }
-
-           // Handle Images
-           let imgPath = null;
-           let rawImages = q.images;
-           if (typeof rawImages === 'string') {
-               try { rawImages = JSON.parse(rawImages) } catch(e) {}
-           }
-           if (Array.isArray(rawImages) && rawImages.length > 0) {
-               imgPath = rawImages[0].path;
-           }
-
-           return {
-               id: q.id,
-               type: normalizedType as any, // Now strictly 'single_choice' | 'multi_choice' | 'input'
-               question: q.question_text,
-               options: opts,
-               correct_answer: correctVal,
-               explanation: q.explanation || "See official solution.",
-               difficulty: 'Hard',
-               image_path: imgPath
-           }
-        })
+        newQuestions = data.map(mapBankQuestion)
       }
       
+      const total = quizMode === 'adaptive' ? quizSettings.questionCount : newQuestions.length
+      await Promise.all([startAttempt(total), loadReviewStates(newQuestions)])
       setQuestions(newQuestions)
-      resetQuiz(newQuestions.length)
+      setQuestionTotal(total)
+      resetQuiz(total)
       setShowSettings(false)
-      startQuiz(newQuestions.length)
+      startQuiz()
 
     } catch (error) {
       console.error(error)
@@ -282,10 +676,12 @@ export default function Quiz() {
     setTimeRemaining(0)
     setAiFeedback('')
     setAnswers(new Array(qCount > 0 ? qCount : questions.length).fill(null))
+    setAnswerTimes(new Array(qCount > 0 ? qCount : questions.length).fill(null))
   }
 
   const startQuiz = () => {
     setQuizStarted(true)
+    questionStartedAt.current = Date.now()
     if (quizSettings.timeLimit > 0) {
         setTimeRemaining(quizSettings.timeLimit * 60)
     } else {
@@ -294,9 +690,7 @@ export default function Quiz() {
   }
 
   const handleTimeUp = () => {
-    setQuizStarted(false)
-    setShowResult(true)
-    generateAIFeedback()
+    finishQuiz(answers, answerTimes)
   }
 
   // --- Logic: Scoring ---
@@ -309,48 +703,8 @@ export default function Quiz() {
     }
   }
 
-  // --- UPDATED CHECK ANSWER LOGIC ---
-  const checkAnswer = (userAns: any, correctAns: any, type: string) => {
-    if (userAns === null || userAns === undefined) return false
-    
-    if (type === 'single-choice') {
-      return Number(userAns) === Number(correctAns)
-    }
-    if (type === 'multi-choice') {
-      const u = Array.isArray(userAns) ? userAns.sort().toString() : ''
-      const c = Array.isArray(correctAns) ? correctAns.sort().toString() : ''
-      return u === c
-    }
-    if (type === 'input') {
-      // Clean Strings (handle 12,34 vs 12.34)
-      const userStr = String(userAns).trim().replace(',', '.')
-      const correctStr = String(correctAns).trim().replace(',', '.')
-
-      // 1. Check Range (e.g. "11.7-12.1" from FS data)
-      if (correctStr.includes('-') && !isNaN(parseFloat(correctStr.split('-')[0]))) {
-         const parts = correctStr.split('-').map(p => parseFloat(p.trim()));
-         if(parts.length === 2 && !isNaN(parts[0]) && !isNaN(parts[1])) {
-             const userNum = parseFloat(userStr);
-             return !isNaN(userNum) && userNum >= parts[0] && userNum <= parts[1];
-         }
-      }
-
-      // 2. Check Numeric Tolerance (1%)
-      const uNum = parseFloat(userStr)
-      const cNum = parseFloat(correctStr)
-      if (!isNaN(uNum) && !isNaN(cNum)) {
-          // Allow 1% error margin
-          const tolerance = Math.abs(cNum) * 0.01; 
-          return Math.abs(uNum - cNum) <= tolerance;
-      }
-
-      // 3. Fallback to exact string match
-      return userStr.toLowerCase() === correctStr.toLowerCase()
-    }
-    return false
-  }
-
   const handleNext = () => {
+    if (loadingNext) return
     if (selectedAnswer === null) return
     if (Array.isArray(selectedAnswer) && selectedAnswer.length === 0) return
     if (typeof selectedAnswer === 'string' && selectedAnswer.trim() === '') return
@@ -359,21 +713,53 @@ export default function Quiz() {
     newAnswers[currentQuestionIndex] = selectedAnswer
     setAnswers(newAnswers)
 
-    if (checkAnswer(selectedAnswer, currentQuestion.correct_answer, currentQuestion.type)) {
-      setScore(prev => prev + 1)
-    }
+    const newTimes = [...answerTimes]
+    newTimes[currentQuestionIndex] = Date.now() - questionStartedAt.current
+    setAnswerTimes(newTimes)
+
+    saveAnswers([currentQuestionIndex], newAnswers, newTimes)
+    updateReviewSchedule([currentQuestionIndex], newAnswers, newTimes)
+    updateTopicMastery([currentQuestionIndex], newAnswers)
 
     if (isLastQuestion) {
-      setQuizStarted(false)
-      setShowResult(true)
-      generateAIFeedback()
+      finishQuiz(newAnswers, newTimes)
+    } else if (quizMode === 'adaptive') {
+      showNextAdaptiveQuestion(newAnswers, newTimes)
     } else {
       setCurrentQuestionIndex(prev => prev + 1)
       setSelectedAnswer(null)
+      questionStartedAt.current = Date.now()
+    }
+  }
+
+  // Scores the final answers with their credit, so partly right multiple choice answers
+  // count like in the review; questions left when the time ran out count as wrong
+  const finishQuiz = (finalAnswers: any[], finalTimes: (number | null)[]) => {
+    const finalScore = sumCredits(questions.map((q, i) => gradeAnswer(finalAnswers[i], q.correct_answer, q.type).credit))
+
+    setScore(finalScore)
+    setQuizStarted(false)
+    setShowResult(true)
+
+    const unanswered = questions.map((_, i) => i).filter(i => finalAnswers[i] === null || finalAnswers[i] === undefined)
+    const times = [...finalTimes]
+    // The question on screen when the time ran out
+    if (unanswered.includes(currentQuestionIndex)) times[currentQuestionIndex] = Date.now() - questionStartedAt.current
+
+    if (attemptId) {
+      saveAnswers(unanswered, finalAnswers, times)
+      // Adaptive sessions that ended early asked fewer questions than planned
+      updateAttempt({ score: finalScore, question_count: questions.length, completed_at: new Date().toISOString() })
     }
+    // Questions that were never shown keep their schedule and mastery
+    const timedOut = unanswered.filter(i => i === currentQuestionIndex)
+    updateReviewSchedule(timedOut, finalAnswers, times)
+    updateTopicMastery(timedOut, finalAnswers)
+
+    generateAIFeedback(finalAnswers, finalScore)
   }
 
-  const generateAIFeedback = async () => {
+  const generateAIFeedback = async (finalAnswers: any[], finalScore: number) => {
     // Only generate AI feedback if in AI mode or if we want to add cost
     // For official questions, AI feedback is nice but optional. 
     // We will keep it for now.
@@ -382,14 +768,16 @@ export default function Quiz() {
       const { data, error } = await supabase.functions.invoke('generate-feedback', {
         body: {
           questions,
-          answers,
-          score,
+          answers: finalAnswers,
+          score: finalScore,
           totalQuestions: questions.length,
           mode: 'individual'
         }
       })
       if (error) throw error
-      setAiFeedback(data.feedback || data.detailed_analysis || "Quiz completed.")
+      const feedback = data.feedback || data.detailed_analysis || "Quiz completed."
+      setAiFeedback(feedback)
+      updateAttempt({ feedback })
     } catch (error) {
       console.error(error)
       setAiFeedback("Great job! (AI feedback unavailable)")
@@ -485,8 +873,107 @@ export default function Quiz() {
     return <div className="text-red-500">Error: Unknown Question Type ({currentQuestion.type})</div>
   }
 
+  // --- UI: Question Type Filter (official mode) ---
+  const renderTypeFilter = () => (
+    <div>
+       <label className="block text-xs font-bold text-blue-800 uppercase tracking-wide mb-2 flex items-center">
+          <Type className="w-3 h-3 mr-1" /> Question Type
+       </label>
+       <select 
+          value={quizSettings.typeFilter}
+          onChange={(e) => setQuizSettings(prev => ({...prev, typeFilter: e.target.value}))}
+          className="input-field w-full bg-white text-sm"
+       >
+          <option value="all">All Types</option>
+          <option value="single_choice">Single Choice</option>
+          <option value="multi_choice">Multiple Choice</option>
+          <option value="input">Input</option>
+       </select>
+    </div>
+  )
+
+  // --- UI: Topic Filter (question bank and AI modes) ---
+  const renderTopicFilter = () => (
+    <div>
+       <label className="block text-xs font-bold text-blue-800 uppercase tracking-wide mb-2 flex items-center">
+          <Tag className="w-3 h-3 mr-1" /> Topic
+       </label>
+       <select 
+          value={quizSettings.topicFilter}
+          onChange={(e) => setQuizSettings(prev => ({...prev, topicFilter: e.target.value}))}
+          className="input-field w-full bg-white text-sm"
+       >
+          <option value="all">All Topics</option>
+          {topics.map((topic) => (
+            <option key={topic.slug} value={topic.slug}>{topic.name}</option>
+          ))}
+       </select>
+    </div>
+  )
+
   // ==================== RENDER ====================
 
+  // 0. HISTORY
+  if (showHistory) {
+    return (
+      <div className="max-w-2xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <button onClick={() => setShowHistory(false)} className="btn-secondary flex items-center text-sm">
+            <ArrowLeft className="w-4 h-4 mr-1" /> Back
+          </button>
+          <h1 className="text-xl sm:text-2xl font-bold text-gray-900">My History</h1>
+          <div className="w-16" />
+        </div>
+
+        {loadingHistory ? (
+          <div className="flex justify-center py-12">
+            <Loader className="w-8 h-8 animate-spin text-primary-600" />
+          </div>
+        ) : history.length === 0 ? (
+          <div className="card p-6 text-center text-gray-500 text-sm sm:text-base">
+            No quiz attempts yet. Finished sessions show up here.
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {history.map((attempt) => {
+              const percentage = attempt.score !== null && attempt.question_count > 0
+                ? Math.round((attempt.score / attempt.question_count) * 100)
+                : null
+              return (
+                <button
+                  key={attempt.id}
+                  onClick={() => openAttempt(attempt)}
+                  className="card w-full p-4 text-left hover:border-primary-300 transition-colors flex items-center justify-between gap-4"
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs font-bold uppercase tracking-wide text-primary-700 bg-primary-50 px-2 py-0.5 rounded">
+                        {MODE_LABELS[attempt.mode]}
+                      </span>
+                      {!attempt.completed_at && (
+                        <span className="text-xs font-medium text-gray-500 bg-gray-100 px-2 py-0.5 rounded">Incomplete</span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600 mt-1">
+                      {formatDate(attempt.started_at)}
+                      {attempt.completed_at && ` · ${formatDuration(new Date(attempt.completed_at).getTime() - new Date(attempt.started_at).getTime())}`}
+                    </p>
+                  </div>
+                  <div className="text-right flex-shrink-0">
+                    <p className="text-lg font-bold text-gray-900">
+                      {attempt.score ?? '–'} / {attempt.question_count}
+                    </p>
+                    {percentage !== null && <p className="text-xs text-gray-500">{percentage}%</p>}
+                  </div>
+                </button>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    )
+  }
+
   // 1. SETTINGS (LOBBY)
   if (showSettings) {
     return (
@@ -494,13 +981,16 @@ export default function Quiz() {
         <div className="text-center mb-8">
           <h1 className="text-xl sm:text-2xl font-bold text-gray-900">New Quiz Session</h1>
           <p className="text-sm sm:text-base text-gray-600 mt-1">Configure your training parameters</p>
+          <button onClick={openHistory} className="mt-3 inline-flex items-center text-sm font-medium text-primary-600 hover:text-primary-700">
+            <History className="w-4 h-4 mr-1" /> My History
+          </button>
         </div>
 
         <div className="card p-4 sm:p-6 space-y-6">
 
           {/* --- MODE SELECTOR --- */}
           <div className="flex justify-center mb-4">
-             <div className="bg-gray-100 p-1 rounded-lg flex space-x-1">
+             <div className="bg-gray-100 p-1 rounded-lg flex flex-wrap justify-center gap-1">
                 <button 
                   onClick={() => setQuizMode('official')}
                   className={`px-4 py-2 rounded-md text-sm font-semibold transition-all ${
@@ -523,12 +1013,66 @@ export default function Quiz() {
                     AI Generator
                   </div>
                 </button>
+                <button 
+                  onClick={() => setQuizMode('changes')}
+                  className={`px-4 py-2 rounded-md text-sm font-semibold transition-all ${
+                     quizMode === 'changes' ? 'bg-white shadow text-primary-700' : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  <div className="flex items-center">
+                    <GitCompare className="w-4 h-4 mr-2" />
+                    Rule Changes
+                  </div>
+                </button>
+                <button 
+                  onClick={() => setQuizMode('review')}
+                  className={`px-4 py-2 rounded-md text-sm font-semibold transition-all ${
+                     quizMode === 'review' ? 'bg-white shadow text-primary-700' : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  <div className="flex items-center">
+                    <Repeat className="w-4 h-4 mr-2" />
+                    Review Due
+                    {dueCount > 0 && (
+                      <span className="ml-2 px-1.5 py-0.5 text-xs font-bold rounded-full bg-primary-600 text-white">{dueCount}</span>
+                    )}
+                  </div>
+                </button>
+                <button 
+                  onClick={() => setQuizMode('adaptive')}
+                  className={`px-4 py-2 rounded-md text-sm font-semibold transition-all ${
+                     quizMode === 'adaptive' ? 'bg-white shadow text-primary-700' : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  <div className="flex items-center">
+                    <TrendingUp className="w-4 h-4 mr-2" />
+                    Adaptive
+                  </div>
+                </button>
              </div>
           </div>
           
+          {/* --- REVIEW MODE INFO --- */}
+          {quizMode === 'review' && (
+             <p className="text-sm text-gray-600 text-center">
+                {dueCount > 0
+                  ? `${dueCount} question${dueCount === 1 ? ' is' : 's are'} due for review.`
+                  : 'Nothing is due right now.'}
+                {' '}Due questions come first, the rest of the session is filled with official questions you have not answered yet.
+             </p>
+          )}
+
+          {/* --- ADAPTIVE MODE INFO --- */}
+          {quizMode === 'adaptive' && (
+             <p className="text-sm text-gray-600 text-center">
+                Questions are generated one at a time from the active rulebooks, on your weakest topic and at a difficulty
+                that matches your mastery of it. Every quiz you finish updates your mastery.
+             </p>
+          )}
+
           {/* --- OFFICIAL MODE FILTERS --- */}
-          {quizMode === 'official' && (
-             <div className="grid grid-cols-2 gap-4 p-4 bg-blue-50 rounded-xl border border-blue-100">
+          {(quizMode === 'official' || quizMode === 'review') && (
+             <div className={`grid grid-cols-2 ${quizMode === 'official' ? 'sm:grid-cols-4' : 'sm:grid-cols-3'} gap-4 p-4 bg-blue-50 rounded-xl border border-blue-100`}>
                 <div>
                    <label className="block text-xs font-bold text-blue-800 uppercase tracking-wide mb-2 flex items-center">
                       <Filter className="w-3 h-3 mr-1" /> Competition
@@ -563,6 +1107,10 @@ export default function Quiz() {
                       <option value="2021">2021</option>
                    </select>
                 </div>
+                {quizMode === 'official' && renderTypeFilter()}
+                <div className={quizMode === 'official' ? '' : 'col-span-2 sm:col-span-1'}>
+                   {renderTopicFilter()}
+                </div>
              </div>
           )}
 
@@ -597,12 +1145,42 @@ export default function Quiz() {
                         </div>
                         <span className={`text-sm font-medium truncate ${selectedDocuments.has(doc.id) ? 'text-primary-900' : 'text-gray-700'}`}>
                             {doc.name}
+                            {doc.is_active === false && <span className="ml-1 text-xs font-normal text-gray-400">(superseded)</span>}
                         </span>
                         </div>
                     ))}
                     </div>
                 )}
                 </div>
+                <div className="mt-4 p-4 bg-blue-50 rounded-xl border border-blue-100">
+                  {renderTopicFilter()}
+                </div>
+            </div>
+          )}
+
+          {/* --- RULE CHANGES MODE --- */}
+          {quizMode === 'changes' && (
+            <div className="p-4 bg-blue-50 rounded-xl border border-blue-100">
+              <label className="block text-xs font-bold text-blue-800 uppercase tracking-wide mb-2 flex items-center">
+                <GitCompare className="w-3 h-3 mr-1" /> Rulebook
+              </label>
+              <select
+                value={changeFamilyId}
+                onChange={(e) => setChangeFamilyId(e.target.value)}
+                className="input-field w-full bg-white text-sm"
+              >
+                <option value="">Choose a rulebook</option>
+                {families
+                  .filter(family => getChangeVersions(family.id).base)
+                  .map((family) => (
+                    <option key={family.id} value={family.id}>{family.name}</option>
+                  ))}
+              </select>
+              {changeFamilyId && getChangeVersions(changeFamilyId).base && (
+                <p className="text-xs text-blue-800 mt-2">
+                  Questions on rules modified between {formatVersion(getChangeVersions(changeFamilyId).base)} and {formatVersion(getChangeVersions(changeFamilyId).target)}
+                </p>
+              )}
             </div>
           )}
 
@@ -652,7 +1230,7 @@ export default function Quiz() {
           {/* Generate Button */}
           <button
             onClick={generateQuiz}
-            disabled={generating || (quizMode === 'ai' && selectedDocuments.size === 0)}
+            disabled={generating || (quizMode === 'ai' && selectedDocuments.size === 0) || (quizMode === 'changes' && !changeFamilyId)}
             className="btn-primary w-full py-3 text-base sm:text-lg shadow-sm flex justify-center items-center"
           >
             {generating ? (
@@ -662,8 +1240,8 @@ export default function Quiz() {
               </>
             ) : (
               <>
-                {quizMode === 'ai' ? <Brain className="w-5 h-5 mr-2" /> : <Play className="w-5 h-5 mr-2" />}
-                Start {quizMode === 'official' ? 'Official' : 'AI'} Session
+                {quizMode === 'ai' ? <Brain className="w-5 h-5 mr-2" /> : quizMode === 'changes' ? <GitCompare className="w-5 h-5 mr-2" /> : quizMode === 'review' ? <Repeat className="w-5 h-5 mr-2" /> : quizMode === 'adaptive' ? <TrendingUp className="w-5 h-5 mr-2" /> : <Play className="w-5 h-5 mr-2" />}
+                Start {quizMode === 'review' ? 'Review' : MODE_LABELS[quizMode]} Session
               </>
             )}
           </button>
@@ -698,10 +1276,17 @@ export default function Quiz() {
 
   // 4. RESULTS
   if (showResult) {
+    const sessionTopics = Array.from(new Set(questions.map(questionTopic).filter((topic): topic is string => topic !== null)))
+
     return (
       <div className="max-w-4xl mx-auto pb-8 sm:pb-12">
         <div className="text-center mb-8">
-          <h1 className="text-xl sm:text-2xl font-bold text-gray-900">Quiz Results</h1>
+          <h1 className="text-xl sm:text-2xl font-bold text-gray-900">{reviewingAttempt ? 'Quiz Review' : 'Quiz Results'}</h1>
+          {reviewingAttempt && (
+            <p className="text-sm sm:text-base text-gray-600 mt-1">
+              {MODE_LABELS[reviewingAttempt.mode]} session from {formatDate(reviewingAttempt.started_at)}
+            </p>
+          )}
         </div>
 
         <div className="card text-center mb-6 p-4 sm:p-6">
@@ -733,11 +1318,45 @@ export default function Quiz() {
           </div>
         </div>
 
+        {/* --- MASTERY CHANGES --- */}
+        {!reviewingAttempt && user && sessionTopics.length > 0 && (
+          <div className="card mb-6 p-4 sm:p-6">
+            <h3 className="text-sm font-bold text-gray-900 uppercase tracking-wide mb-4 flex items-center">
+              <TrendingUp className="w-4 h-4 mr-2 text-primary-600" />
+              Topic Mastery
+            </h3>
+            <div className="space-y-3">
+              {sessionTopics.map(topic => {
+                const before = Math.round((masteryBefore.get(topic) ?? newMasteryState()).mastery * 100)
+                const after = Math.round((masteryStates.current.get(topic) ?? newMasteryState()).mastery * 100)
+                const change = after - before
+                return (
+                  <div key={topic}>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="font-medium text-gray-700">{topicName(topic)}</span>
+                      <span className="text-gray-600">
+                        {before}% → {after}%
+                        <span className={`ml-2 font-bold ${change > 0 ? 'text-green-600' : change < 0 ? 'text-red-600' : 'text-gray-400'}`}>
+                          {change > 0 ? '+' : ''}{change}
+                        </span>
+                      </span>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div className="bg-primary-600 h-2 rounded-full transition-all duration-300" style={{ width: `${after}%` }} />
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        )}
+
         <div className="space-y-3 sm:space-y-4">
           <h3 className="font-semibold text-gray-900 px-1 text-base sm:text-lg">Detailed Review</h3>
           {questions.map((q, i) => {
             const userAns = answers[i]
-            const isCorrect = checkAnswer(userAns, q.correct_answer, q.type)
+            const { correct: isCorrect, credit } = gradeAnswer(userAns, q.correct_answer, q.type)
+            const nextReview = reviewingAttempt ? undefined : reviewStates.current.get(String(q.id))
             
             return (
               <div key={q.id} className={`p-4 sm:p-5 border-2 rounded-xl ${isCorrect ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}`}>
@@ -749,6 +1368,17 @@ export default function Quiz() {
                     <div className="mb-3">
                         <span className="text-xs font-bold uppercase tracking-wider opacity-70 mb-1 block">
                             {q.type.replace('_', ' ')}
+                            {!isCorrect && credit > 0 && (
+                                <span className="ml-2 normal-case tracking-normal text-yellow-700">Partially correct ({Math.round(credit * 100)}%)</span>
+                            )}
+                            {answerTimes[i] != null && (
+                                <span className="ml-2 normal-case tracking-normal font-medium">· {formatDuration(answerTimes[i]!)}</span>
+                            )}
+                            {nextReview?.last_reviewed_at && (
+                                <span className="ml-2 normal-case tracking-normal font-medium">
+                                    · Next review in {nextReview.interval_days} day{nextReview.interval_days === 1 ? '' : 's'}
+                                </span>
+                            )}
                         </span>
                         <p className="font-bold text-gray-900 text-base sm:text-lg">
                         {i + 1}. {q.question}
@@ -804,7 +1434,12 @@ export default function Quiz() {
           })}
         </div>
 
-        <div className="mt-8 flex justify-center">
+        <div className="mt-8 flex flex-col sm:flex-row justify-center gap-3">
+          {reviewingAttempt && (
+            <button onClick={() => { setReviewingAttempt(null); openHistory() }} className="btn-secondary px-8 py-3 text-base sm:text-lg rounded-full flex items-center justify-center">
+              <ArrowLeft className="w-5 h-5 mr-2" /> Back to History
+            </button>
+          )}
           <button onClick={handleRestart} className="btn-primary shadow-lg px-8 sm:px-10 py-3 text-base sm:text-lg rounded-full">
             Start New Session
           </button>
@@ -818,7 +1453,7 @@ export default function Quiz() {
     <div className="max-w-4xl mx-auto pt-4 sm:pt-6">
       <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-6 space-y-2 sm:space-y-0">
         <span className="text-xs font-bold text-gray-500 uppercase tracking-wide">
-          Question {currentQuestionIndex + 1} of {questions.length}
+          Question {currentQuestionIndex + 1} of {questionTotal}
         </span>
         {quizSettings.timeLimit > 0 && (
           <div className={`flex items-center space-x-2 px-4 py-2 rounded-lg border ${
@@ -833,7 +1468,7 @@ export default function Quiz() {
       <div className="w-full bg-gray-200 rounded-full h-2 mb-8">
         <div 
           className="bg-primary-600 h-2 rounded-full transition-all duration-300 ease-out"
-          style={{ width: `${((currentQuestionIndex + 1) / questions.length) * 100}%` }}
+          style={{ width: `${((currentQuestionIndex + 1) / questionTotal) * 100}%` }}
         />
       </div>
 
@@ -842,6 +1477,11 @@ export default function Quiz() {
            <span className="inline-block px-3 py-1 rounded-full text-xs font-bold bg-gray-100 text-gray-600 uppercase tracking-wider">
              {currentQuestion.type.replace('_', ' ')}
            </span>
+           {quizMode === 'adaptive' && (
+             <span className="ml-2 inline-block px-3 py-1 rounded-full text-xs font-bold bg-primary-50 text-primary-700 uppercase tracking-wider">
+               {currentQuestion.topic && `${topicName(currentQuestion.topic)} · `}{parseDifficulty(currentQuestion.difficulty)}
+             </span>
+           )}
         </div>
         
         <h2 className="text-lg sm:text-xl lg:text-2xl font-bold text-gray-900 mb-6 sm:mb-8 leading-snug">
@@ -866,13 +1506,19 @@ export default function Quiz() {
           <button
             onClick={handleNext}
             disabled={
+                loadingNext ||
                 selectedAnswer === null || 
                 (Array.isArray(selectedAnswer) && selectedAnswer.length === 0) || 
                 (typeof selectedAnswer === 'string' && selectedAnswer.trim() === '')
             }
             className="btn-primary px-6 sm:px-8 py-3 text-base sm:text-lg disabled:opacity-50 disabled:cursor-not-allowed transition-transform active:scale-95"
           >
-            {isLastQuestion ? 'Submit Quiz' : 'Next Question'}
+            {loadingNext ? (
+              <span className="flex items-center">
+                <Loader className="w-5 h-5 animate-spin mr-2" />
+                Generating...
+              </span>
+            ) : isLastQuestion ? 'Submit Quiz' : 'Next Question'}
           </button>
         </div>
       </div>
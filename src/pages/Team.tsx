@@ -1,12 +1,9 @@
 import React, { useState, useEffect } from 'react'
-import { supabase, TeamRoom, RoomParticipant, QuizQuestion } from '../lib/supabase'
+import { supabase, TeamRoom, RoomParticipant, QuizQuestion, Topic } from '../lib/supabase'
+import { GameQuestion, resolveTurn } from '../lib/teamGame'
+import { normalizeQuestionType } from '../../supabase/functions/_shared/grading'
 import { useAuth } from '../contexts/AuthContext'
-import { Users, Plus, LogIn, Crown, UserCheck, Send, RotateCcw, Trophy, Loader, Clock, Play, Settings, CircleCheck as CheckCircle, Circle as XCircle, Timer, Target, Award, Trash2, Sparkles, SquareCheck as CheckSquare, Square, Type, Check, Brain, Database, ListFilter as Filter, BookOpen, FileText, Hash } from 'lucide-react'
-
-// Extended interface to handle owner_team_id
-interface GameQuestion extends QuizQuestion {
-  owner_team_id?: number;
-}
+import { Users, Plus, LogIn, Crown, UserCheck, Send, RotateCcw, Trophy, Loader, Clock, Play, Settings, CircleCheck as CheckCircle, Circle as XCircle, Timer, Target, Award, Trash2, Sparkles, SquareCheck as CheckSquare, Square, Type, Check, Brain, Database, ListFilter as Filter, BookOpen, FileText, Hash, Tag } from 'lucide-react'
 
 interface ExtendedTeamRoom extends TeamRoom {
   feedback?: {
@@ -48,6 +45,7 @@ export default function Team() {
   const [generating, setGenerating] = useState(false)
   const [selectedDocuments, setSelectedDocuments] = useState<Set<string>>(new Set())
   const [availableDocuments, setAvailableDocuments] = useState<any[]>([])
+  const [topics, setTopics] = useState<Topic[]>([])
 
   // Settings
   const [roomSettings, setRoomSettings] = useState({
@@ -56,13 +54,16 @@ export default function Team() {
     timePerQuestion: 60,
     // New Filters for Official Mode
     yearFilter: 'all',
-    sourceFilter: 'all'
+    sourceFilter: 'all',
+    typeFilter: 'all',
+    topicFilter: 'all'
   })
 
   // --- Effects ---
   useEffect(() => {
     fetchRooms()
     fetchDocuments()
+    fetchTopics()
     const saved = localStorage.getItem('selectedDocuments')
     if (saved) {
       setSelectedDocuments(new Set(JSON.parse(saved)))
@@ -126,6 +127,12 @@ export default function Team() {
     }
   }
 
+  const fetchTopics = async () => {
+    const { data, error } = await supabase.from('topics').select('*').order('sort_order')
+    if (error) console.error('Error fetching topics:', error)
+    else setTopics(data || [])
+  }
+
   const toggleDocumentSelection = (docId: string) => {
     const newSelected = new Set(selectedDocuments)
     if (newSelected.has(docId)) {
@@ -398,40 +405,49 @@ export default function Team() {
         const { data, error } = await supabase.functions.invoke('generate-quiz', {
           body: { 
             count: totalQuestions, 
-            selectedDocuments: Array.from(selectedDocuments) 
+            selectedDocuments: Array.from(selectedDocuments),
+            ...(roomSettings.topicFilter !== 'all' ? { topic: roomSettings.topicFilter } : {})
           }
         })
         if (error) throw error
         allQuestions = data.questions || []
       } else {
-        // Official Mode - Query question bank
-        let query = supabase.from('question_bank').select('*')
-        
-        if (roomSettings.yearFilter !== 'all') {
-          query = query.eq('year', parseInt(roomSettings.yearFilter))
-        }
-        if (roomSettings.sourceFilter !== 'all') {
-          query = query.eq('source_event', roomSettings.sourceFilter)
+        // Official Mode - random, stratified sample from the question bank
+        // Use roomSettings directly to ensure we get the user's selection
+        const totalQuestions = 2 * roomSettings.questionsPerTeam
+        const sampleQuestions = async (includeSeen: boolean) => {
+          const { data, error } = await supabase.rpc('sample_questions', {
+            question_count: totalQuestions,
+            year_filter: roomSettings.yearFilter !== 'all' ? parseInt(roomSettings.yearFilter) : null,
+            event_filter: roomSettings.sourceFilter !== 'all' ? roomSettings.sourceFilter : null,
+            type_filter: roomSettings.typeFilter !== 'all' ? roomSettings.typeFilter : null,
+            topic_filter: roomSettings.topicFilter !== 'all' ? roomSettings.topicFilter : null,
+            include_seen: includeSeen
+          })
+          if (error) throw error
+          return data || []
         }
 
-        const { data, error } = await query.limit(100) // Get more for shuffling
-        if (error) throw error
+        // Questions the host answered before are only repeated when they agree
+        let data = await sampleQuestions(false)
+        if (data.length < totalQuestions) {
+          const withSeen = await sampleQuestions(true)
+          const repeats = withSeen.length - data.length
+          if (repeats > 0 && confirm(data.length > 0
+            ? `Only ${data.length} of the questions matching these filters are new to you. Add ${repeats} you have answered before?`
+            : 'You have answered every question matching these filters. Practice them again?')) {
+            data = withSeen
+          }
+        }
         
-        if (!data || data.length === 0) {
+        if (data.length === 0) {
           alert("No questions found matching these filters.")
           setLoading(false)
           return
         }
 
-        // Shuffle and slice to get the required number
-        // Use roomSettings directly to ensure we get the user's selection
-        const totalQuestions = 2 * roomSettings.questionsPerTeam
-        const shuffledData = data
-          .sort(() => 0.5 - Math.random())
-          .slice(0, totalQuestions)
-
         // Convert to our format
-        allQuestions = shuffledData.map((q: any) => {
+        allQuestions = data.map((q: any) => {
           let rawOptions = q.options
           if (typeof rawOptions === 'string') {
             try { rawOptions = JSON.parse(rawOptions) } catch(e) {}
@@ -440,10 +456,7 @@ export default function Team() {
           const opts = Array.isArray(rawOptions) ? rawOptions.map((o: any) => o.text) : []
 
           // Normalize type
-          let normalizedType = 'input'
-          if (q.type === 'single-choice' || q.type === 'single_choice') normalizedType = 'single_choice'
-          else if (q.type === 'multi-choice' || q.type === 'multi_choice') normalizedType = 'multi_choice'
-          else if (q.type === 'input' || q.type === 'input-range') normalizedType = 'input'
+          const normalizedType = normalizeQuestionType(q.type)
 
           // Calculate correct answer
           let correctVal: any = null
@@ -479,6 +492,7 @@ export default function Team() {
             correct_answer: correctVal,
             explanation: q.explanation || "See official solution.",
             difficulty: 'Hard',
+            topic: q.topic ?? null,
             image_path: imgPath
           }
         })
@@ -591,63 +605,9 @@ export default function Team() {
     if (!currentQ) return;
 
     try {
-        const currentTeam = currentRoom.current_turn_team_id
-        const correctAns = currentQ.correct_answer
-        const type = currentQ.type
-
-        // Check Logic
-        let isCorrect = false
-        if (type === 'single_choice') {
-             isCorrect = Number(teamAnswer) === Number(correctAns)
-        } else if (type === 'multi_choice') {
-             const u = Array.isArray(teamAnswer) ? teamAnswer.sort().toString() : ''
-             const c = Array.isArray(correctAns) ? (correctAns as number[]).sort().toString() : ''
-             isCorrect = u === c
-        } else {
-             // Input/Numerical
-             isCorrect = String(teamAnswer).trim().toLowerCase() === String(correctAns).trim().toLowerCase()
-        }
-
-        const originalOwner = currentQ.owner_team_id || currentTeam
-        const isStealAttempt = currentTeam !== originalOwner
-        
-        let nextTeam = currentTeam
-        let nextIndex = currentRoom.current_question_index
-        let nextQuestion = null
-        const teamScores = { ...currentRoom.team_scores }
-        
-        if (isCorrect) {
-            // Award point
-            teamScores[currentTeam] = (teamScores[currentTeam] || 0) + 1
-        
-            if (isStealAttempt) {
-                // Correct steal → keep turn, move to next question
-                nextTeam = currentTeam
-                nextIndex++
-            } else {
-                // Correct own → switch team, advance when team 2 finishes
-                nextTeam = (currentTeam % 2) + 1
-                if (currentTeam === 2) nextIndex++
-            }
-        
-            nextQuestion = getQuestionFromDeck(currentRoom.team_questions, nextTeam, nextIndex)
-        
-        } else {
-            // ❌ Wrong Answer
-            if (!isStealAttempt) {
-                // Wrong by owner → allow ONE steal attempt
-                nextTeam = (currentTeam % 2) + 1
-                nextQuestion = currentQ  // SAME question; steal round begins
-            } else {
-                // Wrong by stealing team → steal attempt OVER
-                // return control to owner and move forward
-                nextTeam = originalOwner
-                nextIndex++
-                nextQuestion = getQuestionFromDeck(currentRoom.team_questions, nextTeam, nextIndex)
-            }
-        }
+        const { nextTeam, nextIndex, nextQuestion, teamScores, finished } = resolveTurn(currentRoom, teamAnswer)
 
-        if (nextIndex >= currentRoom.questions_per_team) {
+        if (finished) {
             // Finish Game
             await supabase.from('team_rooms').update({
                 room_status: 'finished', 
@@ -711,10 +671,6 @@ export default function Team() {
             })
 
         } else {
-            if (nextQuestion && !nextQuestion.owner_team_id) {
-                (nextQuestion as GameQuestion).owner_team_id = originalOwner
-            }
-            
             await supabase.from('team_rooms').update({
                 current_turn_team_id: nextTeam,
                 current_question_index: nextIndex,
@@ -726,13 +682,6 @@ export default function Team() {
     } catch (error) { console.error(error) }
   }
 
-  const getQuestionFromDeck = (allQuestions: any, teamId: number, index: number) => {
-    const list = allQuestions[teamId.toString()] || []
-    const q = list[index]
-    if (q) return { ...q, owner_team_id: teamId }
-    return null
-  }
-
   const handleTimeUp = async () => {
     setTimerActive(false)
     if (user?.id === currentRoom?.created_by) {
@@ -1085,7 +1034,7 @@ export default function Team() {
             
             {/* Official Mode Filters */}
             {quizMode === 'official' && (
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 p-4 bg-blue-50 rounded-xl border border-blue-100">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 p-4 bg-blue-50 rounded-xl border border-blue-100">
                 <div>
                   <label className="block text-xs font-bold text-blue-800 uppercase tracking-wide mb-2 flex items-center">
                     <Filter className="w-3 h-3 mr-1" /> Competition
@@ -1120,6 +1069,21 @@ export default function Team() {
                     <option value="2021">2021</option>
                   </select>
                 </div>
+                <div>
+                  <label className="block text-xs font-bold text-blue-800 uppercase tracking-wide mb-2 flex items-center">
+                    <Type className="w-3 h-3 mr-1" /> Question Type
+                  </label>
+                  <select 
+                    value={roomSettings.typeFilter}
+                    onChange={(e) => setRoomSettings(prev => ({...prev, typeFilter: e.target.value}))}
+                    className="input-field w-full min-w-0 bg-white text-sm"
+                  >
+                    <option value="all">All Types</option>
+                    <option value="single_choice">Single Choice</option>
+                    <option value="multi_choice">Multiple Choice</option>
+                    <option value="input">Input</option>
+                  </select>
+                </div>
               </div>
             )}
 
@@ -1154,6 +1118,7 @@ export default function Team() {
                           </div>
                           <span className={`text-sm font-medium truncate ${selectedDocuments.has(doc.id) ? 'text-primary-900' : 'text-gray-700'}`}>
                             {doc.name}
+                            {doc.is_active === false && <span className="ml-1 text-xs font-normal text-gray-400">(superseded)</span>}
                           </span>
                         </div>
                       ))}
@@ -1163,6 +1128,23 @@ export default function Team() {
               </div>
             )}
 
+            {/* Topic Filter (both modes) */}
+            <div className="p-4 bg-blue-50 rounded-xl border border-blue-100">
+              <label className="block text-xs font-bold text-blue-800 uppercase tracking-wide mb-2 flex items-center">
+                <Tag className="w-3 h-3 mr-1" /> Topic
+              </label>
+              <select 
+                value={roomSettings.topicFilter}
+                onChange={(e) => setRoomSettings(prev => ({...prev, topicFilter: e.target.value}))}
+                className="input-field w-full min-w-0 bg-white text-sm"
+              >
+                <option value="all">All Topics</option>
+                {topics.map((topic) => (
+                  <option key={topic.slug} value={topic.slug}>{topic.name}</option>
+                ))}
+              </select>
+            </div>
+
             {/* Common Settings */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div>
@@ -1249,11 +1231,13 @@ export default function Team() {
                       <>
                         <div className="flex justify-between gap-2"><span>Competition:</span><b className="text-right break-words">{roomSettings.sourceFilter}</b></div>
                         <div className="flex justify-between gap-2"><span>Year:</span><b>{roomSettings.yearFilter}</b></div>
+                        <div className="flex justify-between gap-2"><span>Type:</span><b>{roomSettings.typeFilter}</b></div>
                       </>
                     )}
                     {quizMode === 'ai' && (
                       <div className="flex justify-between gap-2"><span>Documents:</span><b>{selectedDocuments.size} selected</b></div>
                     )}
+                    <div className="flex justify-between gap-2"><span>Topic:</span><b className="text-right break-words">{topics.find(topic => topic.slug === roomSettings.topicFilter)?.name ?? 'All Topics'}</b></div>
                 </div>
             </div>
         </div>
@@ -0,0 +1,116 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { gradeAnswer, normalizeQuestionType } from './grading.ts';
+
+const isCorrect = (answer: unknown, correctAnswer: unknown, type: string) => gradeAnswer(answer, correctAnswer, type).correct;
+
+Deno.test('normalizeQuestionType accepts hyphenated and legacy spellings', () => {
+  assertEquals(normalizeQuestionType('single-choice'), 'single_choice');
+  assertEquals(normalizeQuestionType('multiple_choice'), 'single_choice');
+  assertEquals(normalizeQuestionType('multi-choice'), 'multi_choice');
+  assertEquals(normalizeQuestionType('input-range'), 'input');
+  assertEquals(normalizeQuestionType(undefined), 'input');
+});
+
+Deno.test('missing answers are wrong', () => {
+  assertEquals(gradeAnswer(null, 1, 'single_choice'), { correct: false, credit: 0 });
+  assert(!isCorrect(undefined, '12', 'input'));
+  assert(!isCorrect('', '0', 'input'));
+  assert(!isCorrect('', 0, 'single_choice'));
+});
+
+Deno.test('single choice compares option indices in either spelling of the type', () => {
+  assert(isCorrect('2', 2, 'single_choice'));
+  assert(isCorrect(2, 2, 'single-choice'));
+  assert(!isCorrect(1, 2, 'single_choice'));
+  assert(!isCorrect('PASS', 0, 'single_choice'));
+});
+
+Deno.test('multi choice ignores order and gives partial credit', () => {
+  assertEquals(gradeAnswer([2, 0], [0, 2], 'multi_choice'), { correct: true, credit: 1 });
+  assertEquals(gradeAnswer([0], [0, 2], 'multi_choice'), { correct: false, credit: 0.5 });
+  assertEquals(gradeAnswer([0, 1], [0, 2], 'multi_choice'), { correct: false, credit: 0 });
+  assertEquals(gradeAnswer([0, 1, 2], [0, 1, 2, 3], 'multi-choice').credit, 0.75);
+  assertEquals(gradeAnswer(0, [0], 'multi_choice').credit, 0);
+});
+
+Deno.test('multi choice does not reorder the given answers', () => {
+  const answer = [2, 0];
+  gradeAnswer(answer, [0, 2], 'multi_choice');
+  assertEquals(answer, [2, 0]);
+});
+
+Deno.test('inputs inside a range are correct', () => {
+  assert(isCorrect('11.9', '11.7-12.1', 'input'));
+  assert(isCorrect('12.1', '11.7 - 12.1', 'input'));
+  assert(isCorrect('2.5', '2 to 3 mm', 'input'));
+  assert(!isCorrect('12.2', '11.7-12.1', 'input'));
+  assert(!isCorrect('abc', '11.7-12.1', 'input'));
+});
+
+Deno.test('negative numbers and exponents are not ranges', () => {
+  assert(isCorrect('-5', '-5', 'input'));
+  assert(isCorrect('-5', '-6 - -4', 'input'));
+  assert(isCorrect('0.001', '1e-3', 'input'));
+});
+
+Deno.test('numeric inputs within the tolerance are correct', () => {
+  assert(isCorrect('99.5', '100', 'input'));
+  assert(!isCorrect('98', '100', 'input'));
+  assert(gradeAnswer('98', '100', 'input', { tolerance: 0.05 }).correct);
+  assert(isCorrect('12,34', '12.34', 'input'));
+  assert(isCorrect('0', '0', 'input'));
+});
+
+Deno.test('units are converted before comparing', () => {
+  assert(isCorrect('12500 W', '12.5 kW', 'input'));
+  assert(isCorrect('12,5kW', '12500 W', 'input'));
+  assert(isCorrect('60 V', '60', 'input'));
+  assert(isCorrect('60', '60 V', 'input'));
+  assert(isCorrect('11900 mV', '11.7-12.1 V', 'input'));
+  assert(isCorrect('0.3 MPa', '3 bar', 'input'));
+  assert(!isCorrect('60 A', '60 V', 'input'));
+  assert(!isCorrect('2 wheels', '2 circuits', 'input'));
+});
+
+Deno.test('units are case-sensitive', () => {
+  assert(!isCorrect('5 MV', '5 mV', 'input'));
+  assert(!isCorrect('5 mW', '5 MW', 'input'));
+  assert(isCorrect('5000 mV', '5 V', 'input'));
+});
+
+Deno.test('numbers followed by anything but a known unit are not numbers', () => {
+  assert(!isCorrect('3-4', '3', 'input'));
+  assert(!isCorrect('12 apples', '12', 'input'));
+  assert(!isCorrect('3-4', '2 to 3', 'input'));
+  assert(isCorrect('7.1.2', '7.1.2', 'input'));
+});
+
+Deno.test('unambiguous groups of three digits separate thousands', () => {
+  assert(isCorrect('1,234,567.5', '1234567.5', 'input'));
+  assert(isCorrect('12.500,5', '12500.5', 'input'));
+  assert(isCorrect('1.234.567', '1234567', 'input'));
+  assert(isCorrect('1.500', '1.5', 'input'));
+  assert(isCorrect('12,5', '12.5', 'input'));
+});
+
+Deno.test('a single comma group separates thousands only when the answer key groups with commas', () => {
+  assert(isCorrect('1,500', '1.5', 'input'));
+  assert(!isCorrect('1,500', '1500', 'input'));
+  assert(isCorrect('12,500', '12,500', 'input'));
+  assert(isCorrect('12500', '12,500', 'input'));
+  assert(isCorrect('12.5 kW', '12,500 W', 'input'));
+  assert(isCorrect('1,500', '1,000-2,000', 'input'));
+  assert(isCorrect('1,500', '1-2', 'input'));
+});
+
+Deno.test('a leading zero is never a thousands group', () => {
+  assert(isCorrect('0,125', '0.125', 'input'));
+  assert(isCorrect('0,125', '0,125', 'input'));
+  assert(!isCorrect('0,125', '125', 'input'));
+});
+
+Deno.test('other inputs fall back to a normalized text match', () => {
+  assert(isCorrect(' Brake  Light ', 'brake light.', 'input'));
+  assert(!isCorrect('tail light', 'brake light', 'input'));
+  assert(isCorrect('T 7.1.2', 't 7.1.2', 'input'));
+});
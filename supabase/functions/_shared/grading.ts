@@ -0,0 +1,246 @@
+/**
+ * Answer Grading
+ * One implementation for the self-quiz, the team game and generate-feedback, so a
+ * score means the same everywhere. Has no imports: the frontend imports this file
+ * directly.
+ *
+ * - single choice: option index
+ * - multi choice: set of option indices, partial credit for a partly right selection
+ * - input: numeric range ("11.7-12.1 V"), number within a relative tolerance
+ *   (units converted, "12,5 kW" == "12500 W"; "1,500" is 1500 only when the answer
+ *   key groups thousands with commas, too), otherwise normalized text
+ */
+
+export type QuestionType = 'single_choice' | 'multi_choice' | 'input';
+
+export interface GradeResult {
+  correct: boolean;
+  credit: number; // 0..1, 1 for correct answers
+}
+
+export interface GradeOptions {
+  tolerance?: number; // relative, for numeric inputs
+}
+
+interface Quantity {
+  value: number;
+  unit: string; // as written, '' when missing
+  grouping: string | null; // thousands separator the number was written with
+}
+
+interface UnitDefinition {
+  dimension: string;
+  factor: number; // to the SI base unit
+}
+
+export const DEFAULT_TOLERANCE = 0.01;
+
+// Splits "12,500.5 kW" into the number and the rest, which must be a known unit
+const NUMBER_PATTERN = /^([+-]?[\d.,]*\d(?:e[+-]?\d+)?)\s*(.*)$/i;
+const PLAIN_NUMBER_PATTERN = /^[+-]?(?:\d+(?:[.,]\d+)?|[.,]\d+)(?:e[+-]?\d+)?$/i;
+// "12,500", "1,234,567.5", "12.500,5": groups of three digits, then a decimal part with the
+// other separator. "0,125" is never grouped
+const GROUPED_NUMBER_PATTERN = /^([+-]?)([1-9]\d{0,2}(?:([.,])\d{3})+)(?:(?!\3)[.,](\d+))?$/;
+// How answer keys are read: "12,500" in a key is 12500, "1.500" is 1.5
+const KEY_GROUPING = ',';
+// "11.7-12.1", "11.7 - 12.1 V", "2 to 3 mm"; a leading minus is a sign, not a range
+const RANGE_PATTERN = /^(.+?)\s*(?:–|\bto\b|-)\s*([+-]?[\d.,].*)$/i;
+
+// Case-sensitive, as MW and mW are different units
+const UNITS: Record<string, UnitDefinition> = {
+  mm: { dimension: 'length', factor: 1e-3 },
+  cm: { dimension: 'length', factor: 1e-2 },
+  m: { dimension: 'length', factor: 1 },
+  km: { dimension: 'length', factor: 1e3 },
+  g: { dimension: 'mass', factor: 1e-3 },
+  kg: { dimension: 'mass', factor: 1 },
+  ms: { dimension: 'time', factor: 1e-3 },
+  s: { dimension: 'time', factor: 1 },
+  min: { dimension: 'time', factor: 60 },
+  h: { dimension: 'time', factor: 3600 },
+  mV: { dimension: 'voltage', factor: 1e-3 },
+  V: { dimension: 'voltage', factor: 1 },
+  kV: { dimension: 'voltage', factor: 1e3 },
+  MV: { dimension: 'voltage', factor: 1e6 },
+  mA: { dimension: 'current', factor: 1e-3 },
+  A: { dimension: 'current', factor: 1 },
+  mW: { dimension: 'power', factor: 1e-3 },
+  W: { dimension: 'power', factor: 1 },
+  kW: { dimension: 'power', factor: 1e3 },
+  MW: { dimension: 'power', factor: 1e6 },
+  J: { dimension: 'energy', factor: 1 },
+  kJ: { dimension: 'energy', factor: 1e3 },
+  MJ: { dimension: 'energy', factor: 1e6 },
+  Wh: { dimension: 'energy', factor: 3600 },
+  kWh: { dimension: 'energy', factor: 3.6e6 },
+  N: { dimension: 'force', factor: 1 },
+  kN: { dimension: 'force', factor: 1e3 },
+  Nm: { dimension: 'torque', factor: 1 },
+  Pa: { dimension: 'pressure', factor: 1 },
+  kPa: { dimension: 'pressure', factor: 1e3 },
+  MPa: { dimension: 'pressure', factor: 1e6 },
+  bar: { dimension: 'pressure', factor: 1e5 },
+  'm/s': { dimension: 'speed', factor: 1 },
+  'km/h': { dimension: 'speed', factor: 1 / 3.6 },
+  '°': { dimension: 'angle', factor: 1 },
+  deg: { dimension: 'angle', factor: 1 },
+  rad: { dimension: 'angle', factor: 180 / Math.PI },
+  '%': { dimension: 'ratio', factor: 0.01 },
+  ohm: { dimension: 'resistance', factor: 1 },
+  'Ω': { dimension: 'resistance', factor: 1 },
+  'kΩ': { dimension: 'resistance', factor: 1e3 },
+  'mΩ': { dimension: 'resistance', factor: 1e-3 }
+};
+
+// Accepts the spellings found in question_bank and generated questions
+export function normalizeQuestionType(type: string | null | undefined): QuestionType {
+  switch ((type ?? '').toLowerCase().replace('-', '_')) {
+    case 'single_choice':
+    case 'multiple_choice':
+    case 'true_false':
+      return 'single_choice';
+    case 'multi_choice':
+      return 'multi_choice';
+    default:
+      return 'input';
+  }
+}
+
+export function gradeAnswer(answer: unknown, correctAnswer: unknown, type: string, options: GradeOptions = {}): GradeResult {
+  if (answer === null || answer === undefined) return result(0);
+
+  switch (normalizeQuestionType(type)) {
+    case 'single_choice':
+      return gradeSingleChoice(answer, correctAnswer);
+    case 'multi_choice':
+      return gradeMultiChoice(answer, correctAnswer);
+    default:
+      return gradeInput(String(answer), String(correctAnswer ?? ''), options.tolerance ?? DEFAULT_TOLERANCE);
+  }
+}
+
+function gradeSingleChoice(answer: unknown, correctAnswer: unknown): GradeResult {
+  const index = toIndex(answer);
+  return result(index !== null && index === toIndex(correctAnswer) ? 1 : 0);
+}
+
+// Credit = (right picks - wrong picks) / right options, never below 0
+function gradeMultiChoice(answer: unknown, correctAnswer: unknown): GradeResult {
+  const picked = toIndexSet(answer);
+  const expected = toIndexSet(correctAnswer);
+
+  if (expected.size === 0) return result(picked.size === 0 ? 1 : 0);
+
+  let hits = 0;
+  for (const index of picked) if (expected.has(index)) hits++;
+  const misses = picked.size - hits;
+
+  if (hits === expected.size && misses === 0) return result(1);
+  return { correct: false, credit: Math.max(0, (hits - misses) / expected.size) };
+}
+
+function gradeInput(answer: string, correctAnswer: string, tolerance: number): GradeResult {
+  const given = answer.trim();
+  const expected = correctAnswer.trim();
+  if (!given) return result(0);
+
+  // The answer is read with the thousands separator of the key, so "1,500" is 1.5
+  // unless the key is written like "1,000-2,000"
+  const range = parseRange(expected, KEY_GROUPING);
+  const rangeQuantity = range && parseQuantity(given, range.grouping);
+  if (range && rangeQuantity) {
+    const value = convert(rangeQuantity, range.unit);
+    return result(value !== null && value >= range.low && value <= range.high ? 1 : 0);
+  }
+
+  const target = parseQuantity(expected, KEY_GROUPING);
+  const quantity = target && parseQuantity(given, target.grouping);
+  if (target && quantity) {
+    const value = convert(quantity, target.unit);
+    if (value === null) return result(0);
+    const margin = Math.max(Math.abs(target.value) * tolerance, 1e-9);
+    return result(Math.abs(value - target.value) <= margin ? 1 : 0);
+  }
+
+  return result(normalizeText(given) === normalizeText(expected) ? 1 : 0);
+}
+
+// Null unless the text is a number, optionally followed by a known unit ("3-4" is not 3)
+function parseQuantity(text: string, grouping: string | null): Quantity | null {
+  const match = text.trim().match(NUMBER_PATTERN);
+  if (!match) return null;
+
+  const number = parseNumber(match[1], grouping);
+  const unit = match[2].trim().replace(/\.$/, '');
+  if (number === null || (unit && !UNITS[unit])) return null;
+  return { ...number, unit };
+}
+
+/**
+ * Several groups of three digits, or one followed by a decimal part with the other
+ * separator, group thousands ("1.234.567", "12.500,5"). A single group is ambiguous
+ * ("1,500" is 1.5 with a decimal comma) and only groups thousands with `grouping`
+ */
+function parseNumber(text: string, grouping: string | null): Pick<Quantity, 'value' | 'grouping'> | null {
+  const grouped = text.match(GROUPED_NUMBER_PATTERN);
+  if (grouped) {
+    const [, sign, integer, separator, fraction] = grouped;
+    const groups = integer.split(separator);
+    if (separator === grouping || groups.length > 2 || fraction !== undefined) {
+      return {
+        value: parseFloat(`${sign}${groups.join('')}${fraction !== undefined ? `.${fraction}` : ''}`),
+        grouping: separator
+      };
+    }
+  }
+
+  if (!PLAIN_NUMBER_PATTERN.test(text)) return null;
+  return { value: parseFloat(text.replace(',', '.')), grouping: null };
+}
+
+// Bounds in the unit of the upper bound ("11.7-12.1 V" -> 11.7 V to 12.1 V)
+function parseRange(text: string, grouping: string | null): { low: number; high: number; unit: string; grouping: string | null } | null {
+  const match = text.match(RANGE_PATTERN);
+  if (!match) return null;
+
+  const low = parseQuantity(match[1], grouping);
+  const high = parseQuantity(match[2], grouping);
+  // "1e-3" is a number, not a range from "1 e" to 3
+  if (!low || !high || (low.unit && !high.unit)) return null;
+
+  const lowValue = convert(low, high.unit);
+  if (lowValue === null || lowValue > high.value) return null;
+  return { low: lowValue, high: high.value, unit: high.unit, grouping: low.grouping ?? high.grouping };
+}
+
+/**
+ * Converts a quantity into `targetUnit`. A missing unit on either side is taken
+ * to be the other one; null when the units cannot be compared.
+ */
+function convert(quantity: Quantity, targetUnit: string): number | null {
+  if (!quantity.unit || !targetUnit || quantity.unit === targetUnit) return quantity.value;
+
+  const from = UNITS[quantity.unit];
+  const to = UNITS[targetUnit];
+  if (!from || !to || from.dimension !== to.dimension) return null;
+  return (quantity.value * from.factor) / to.factor;
+}
+
+function toIndex(value: unknown): number | null {
+  if (value === null || value === undefined || value === '' || typeof value === 'boolean') return null;
+  const index = Number(value);
+  return Number.isInteger(index) ? index : null;
+}
+
+function toIndexSet(value: unknown): Set<number> {
+  const indices = Array.isArray(value) ? value.map(toIndex) : [];
+  return new Set(indices.filter((index): index is number => index !== null));
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').replace(/[.!]+$/, '').trim();
+}
+
+function result(credit: number): GradeResult {
+  return { correct: credit === 1, credit };
+}
@@ -0,0 +1,309 @@
+import { GoogleGenerativeAI, TaskType } from 'npm:@google/generative-ai@0.24.1';
+
+/**
+ * LLM Provider Layer
+ * Every edge function talks to the model through this interface, so the backend
+ * is chosen by configuration:
+ *   LLM_PROVIDER        gemini (default) | openai | mock
+ *   LLM_FAST_MODEL      chat, quiz generation, re-ranking, summaries
+ *   LLM_QUALITY_MODEL   longer written feedback
+ *   LLM_EMBEDDING_MODEL embeddings until the `embedding` app setting names one
+ *   GEMINI_API_KEY      gemini provider
+ *   GEMINI_BASE_URL     gemini provider, e.g. the mock server in supabase/tests/mock-gemini
+ *   OPENAI_BASE_URL     openai provider, any OpenAI-compatible server (e.g. http://localhost:11434/v1)
+ *   OPENAI_API_KEY      openai provider, optional for local servers
+ */
+
+export type ModelTier = 'fast' | 'quality';
+
+export interface GenerateOptions {
+  tier?: ModelTier; // defaults to 'fast'
+  temperature?: number;
+  topK?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+}
+
+export interface EmbedOptions {
+  model?: string; // defaults to the configured embedding model
+  taskType?: 'document' | 'query';
+  titles?: (string | undefined)[]; // document titles, one per text
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  readonly models: Record<ModelTier | 'embedding', string>;
+  embed(texts: string[], options?: EmbedOptions): Promise<number[][]>;
+  generate(prompt: string, options?: GenerateOptions): Promise<string>;
+  generateStream(prompt: string, options?: GenerateOptions): AsyncIterable<string>;
+  generateJson<T = unknown>(prompt: string, options?: GenerateOptions): Promise<T>;
+}
+
+export interface LlmConfig {
+  provider: 'gemini' | 'openai' | 'mock';
+  models: Record<ModelTier | 'embedding', string>;
+  geminiApiKey?: string;
+  geminiBaseUrl?: string;
+  openaiBaseUrl?: string;
+  openaiApiKey?: string;
+}
+
+const DEFAULT_MODELS: Record<LlmConfig['provider'], Record<ModelTier | 'embedding', string>> = {
+  gemini: { fast: 'gemini-flash-latest', quality: 'gemini-3-pro-preview', embedding: 'text-embedding-004' },
+  openai: { fast: 'llama3.1', quality: 'llama3.1', embedding: 'nomic-embed-text' },
+  mock: { fast: 'mock-fast', quality: 'mock-quality', embedding: 'mock-embedding' }
+};
+
+// document_sections.embedding is vector(768)
+export const MOCK_EMBEDDING_DIMENSIONS = 768;
+
+export function loadLlmConfig(env: { get(key: string): string | undefined } = Deno.env): LlmConfig {
+  const provider = (env.get('LLM_PROVIDER') || 'gemini').toLowerCase();
+  if (provider !== 'gemini' && provider !== 'openai' && provider !== 'mock') {
+    throw new Error(`Unknown LLM_PROVIDER "${provider}", expected gemini, openai or mock`);
+  }
+
+  const defaults = DEFAULT_MODELS[provider];
+  return {
+    provider,
+    models: {
+      fast: env.get('LLM_FAST_MODEL') || defaults.fast,
+      quality: env.get('LLM_QUALITY_MODEL') || defaults.quality,
+      embedding: env.get('LLM_EMBEDDING_MODEL') || defaults.embedding
+    },
+    geminiApiKey: env.get('GEMINI_API_KEY'),
+    geminiBaseUrl: env.get('GEMINI_BASE_URL'),
+    openaiBaseUrl: env.get('OPENAI_BASE_URL'),
+    openaiApiKey: env.get('OPENAI_API_KEY')
+  };
+}
+
+export function getLlmProvider(config: LlmConfig = loadLlmConfig()): LlmProvider {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAiProvider(config);
+    case 'mock':
+      return createMockProvider(config.models);
+    default:
+      return createGeminiProvider(config);
+  }
+}
+
+/**
+ * JSON Parsing
+ * Models wrap JSON in code fences or add a sentence around it; the outermost
+ * array or object is taken
+ */
+export function parseJsonResponse<T = unknown>(text: string): T {
+  const cleaned = text.replace(/```json|```/g, '').trim();
+  try {
+    return JSON.parse(cleaned);
+  } catch (error) {
+    const start = cleaned.search(/[[{]/);
+    const end = Math.max(cleaned.lastIndexOf(']'), cleaned.lastIndexOf('}'));
+    if (start === -1 || end <= start) throw error;
+    return JSON.parse(cleaned.slice(start, end + 1));
+  }
+}
+
+// --- Gemini ---
+
+function createGeminiProvider(config: LlmConfig): LlmProvider {
+  const client = () => {
+    if (!config.geminiApiKey) throw new Error('GEMINI_API_KEY not set');
+    return new GoogleGenerativeAI(config.geminiApiKey);
+  };
+
+  const requestOptions = config.geminiBaseUrl ? { baseUrl: config.geminiBaseUrl.replace(/\/+$/, '') } : undefined;
+
+  const model = (options: GenerateOptions = {}, json = false) => client().getGenerativeModel({
+    model: config.models[options.tier ?? 'fast'],
+    generationConfig: {
+      temperature: options.temperature,
+      topK: options.topK,
+      topP: options.topP,
+      maxOutputTokens: options.maxOutputTokens,
+      ...(json ? { responseMimeType: 'application/json' } : {})
+    }
+  }, requestOptions);
+
+  return {
+    name: 'gemini',
+    models: config.models,
+
+    async embed(texts, options = {}) {
+      const embeddingModel = client().getGenerativeModel({ model: options.model ?? config.models.embedding }, requestOptions);
+      const taskType = options.taskType === 'document'
+        ? TaskType.RETRIEVAL_DOCUMENT
+        : options.taskType === 'query' ? TaskType.RETRIEVAL_QUERY : undefined;
+
+      const { embeddings } = await embeddingModel.batchEmbedContents({
+        requests: texts.map((text, idx) => ({
+          content: { role: 'user', parts: [{ text }] },
+          taskType,
+          title: options.titles?.[idx]
+        }))
+      });
+      return embeddings.map((embedding) => embedding.values);
+    },
+
+    async generate(prompt, options) {
+      const result = await model(options).generateContent(prompt);
+      return result.response.text();
+    },
+
+    async *generateStream(prompt, options) {
+      const result = await model(options).generateContentStream(prompt);
+      for await (const chunk of result.stream) {
+        const text = chunk.text();
+        if (text) yield text;
+      }
+    },
+
+    async generateJson(prompt, options) {
+      const result = await model(options, true).generateContent(prompt);
+      return parseJsonResponse(result.response.text());
+    }
+  };
+}
+
+// --- OpenAI-compatible (Ollama, LM Studio, vLLM, llama.cpp server, ...) ---
+
+function createOpenAiProvider(config: LlmConfig): LlmProvider {
+  if (!config.openaiBaseUrl) throw new Error('OPENAI_BASE_URL not set');
+  const baseUrl = config.openaiBaseUrl.replace(/\/+$/, '');
+
+  const post = async (path: string, body: Record<string, unknown>) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.openaiApiKey ? { Authorization: `Bearer ${config.openaiApiKey}` } : {})
+      },
+      body: JSON.stringify(body)
+    });
+    if (!response.ok) throw new Error(`LLM request to ${path} failed (${response.status}): ${await response.text()}`);
+    return response;
+  };
+
+  const completionBody = (prompt: string, options: GenerateOptions = {}) => ({
+    model: config.models[options.tier ?? 'fast'],
+    messages: [{ role: 'user', content: prompt }],
+    temperature: options.temperature,
+    top_p: options.topP,
+    max_tokens: options.maxOutputTokens
+  });
+
+  const generate = async (prompt: string, options?: GenerateOptions) => {
+    const response = await post('/chat/completions', completionBody(prompt, options));
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content ?? '';
+  };
+
+  return {
+    name: 'openai',
+    models: config.models,
+
+    async embed(texts, options = {}) {
+      const response = await post('/embeddings', { model: options.model ?? config.models.embedding, input: texts });
+      const { data } = await response.json();
+      return [...data]
+        .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+        .map((item: { embedding: number[] }) => item.embedding);
+    },
+
+    generate,
+
+    async *generateStream(prompt, options) {
+      const response = await post('/chat/completions', { ...completionBody(prompt, options), stream: true });
+      const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+
+      // Server-sent events: "data: {...}" lines, ending with "data: [DONE]"
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+          const text = JSON.parse(data).choices?.[0]?.delta?.content;
+          if (text) yield text;
+        }
+      }
+    },
+
+    // Not every local server supports response_format, so JSON is asked for in the prompt only
+    async generateJson(prompt, options) {
+      return parseJsonResponse(await generate(prompt, options));
+    }
+  };
+}
+
+// --- Mock ---
+
+export interface MockResponse {
+  match: string | RegExp; // tested against the prompt
+  response: string;
+}
+
+/**
+ * Mock Provider
+ * Deterministic and offline. Prompts matching a canned response get it, any other
+ * prompt gets "[]" for JSON and a short echo for text. Embeddings hash the words
+ * of the text, so texts sharing words are similar and identical texts are equal.
+ */
+export function createMockProvider(
+  models: Record<ModelTier | 'embedding', string> = DEFAULT_MODELS.mock,
+  responses: MockResponse[] = []
+): LlmProvider {
+  const respond = (prompt: string, fallback: string) => {
+    const canned = responses.find((r) => (typeof r.match === 'string' ? prompt.includes(r.match) : r.match.test(prompt)));
+    return canned ? canned.response : fallback;
+  };
+
+  const generate = async (prompt: string) =>
+    respond(prompt, `Mock response to: ${prompt.trim().split('\n')[0].slice(0, 80)}`);
+
+  return {
+    name: 'mock',
+    models,
+
+    async embed(texts) {
+      return texts.map(mockEmbedding);
+    },
+
+    generate,
+
+    async *generateStream(prompt) {
+      const text = await generate(prompt);
+      for (const piece of text.match(/\S+\s*/g) ?? []) yield piece;
+    },
+
+    async generateJson(prompt) {
+      return parseJsonResponse(respond(prompt, '[]'));
+    }
+  };
+}
+
+// Shared with the mock Gemini server, so both mocks embed alike
+export function mockEmbedding(text: string): number[] {
+  const vector = new Array(MOCK_EMBEDDING_DIMENSIONS).fill(0);
+  for (const word of text.toLowerCase().match(/[a-z0-9.]+/g) ?? []) {
+    // FNV-1a
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < word.length; i++) {
+      hash ^= word.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    vector[(hash >>> 0) % MOCK_EMBEDDING_DIMENSIONS] += 1;
+  }
+
+  // Cosine distance is undefined for a zero vector
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  if (norm === 0) vector[0] = 1;
+  return norm > 0 ? vector.map((v) => v / norm) : vector;
+}
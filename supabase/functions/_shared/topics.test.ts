@@ -0,0 +1,61 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import {
+  buildClassificationPrompt,
+  classifyQuestions,
+  CLASSIFY_BATCH_SIZE,
+  parseClassification,
+  questionTopic
+} from './topics.ts';
+
+const TOPICS = [
+  { slug: 'general-rules', name: 'General Rules', description: null },
+  { slug: 'brakes', name: 'Brakes', description: 'Brake system and brake test' },
+  { slug: 'aero', name: 'Aerodynamics', description: null }
+];
+
+Deno.test('questionTopic returns the tag or null', () => {
+  assertEquals(questionTopic({ topic: 'brakes' }), 'brakes');
+  assertEquals(questionTopic({ topic: '' }), null);
+  assertEquals(questionTopic({}), null);
+});
+
+Deno.test('the prompt lists the topics and numbers the questions', () => {
+  const prompt = buildClassificationPrompt(
+    [{ question: 'How many brake circuits?', options: ['1', '2'] }, { question: 'Max wing height?' }],
+    TOPICS
+  );
+
+  assert(prompt.includes('- brakes: Brakes (Brake system and brake test)'));
+  assert(prompt.includes('- aero: Aerodynamics\n'));
+  assert(prompt.includes('0. How many brake circuits?\n   Options: 1 | 2'));
+  assert(prompt.includes('1. Max wing height?'));
+});
+
+Deno.test('parseClassification keeps known slugs at their index', () => {
+  const result = [
+    { index: 1, topic: 'Aero' },
+    { index: 0, topic: 'brakes' },
+    { index: 2, topic: 'tyres' },
+    { index: 7, topic: 'brakes' }
+  ];
+  assertEquals(parseClassification(result, TOPICS, 3), ['brakes', 'aero', null]);
+  assertEquals(parseClassification({ topic: 'brakes' }, TOPICS, 2), [null, null]);
+});
+
+Deno.test('classifyQuestions sends one prompt per batch', async () => {
+  const prompts: string[] = [];
+  const llm = {
+    generateJson<T>(prompt: string): Promise<T> {
+      prompts.push(prompt);
+      const count = (prompt.match(/^\d+\. /gm) ?? []).length;
+      return Promise.resolve(Array.from({ length: count }, (_, index) => ({ index, topic: 'brakes' })) as T);
+    }
+  };
+
+  const questions = Array.from({ length: CLASSIFY_BATCH_SIZE + 2 }, (_, i) => ({ question: `Question ${i}` }));
+  const tags = await classifyQuestions(llm, questions, TOPICS);
+
+  assertEquals(prompts.length, 2);
+  assertEquals(tags.length, questions.length);
+  assert(tags.every(tag => tag === 'brakes'));
+});
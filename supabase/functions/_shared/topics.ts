@@ -0,0 +1,85 @@
+/**
+ * Question Topics
+ * Questions are tagged with a slug from the `topics` table. The LLM classifier below
+ * tags imported question_bank rows (tag-questions) and generated questions that came
+ * back without a valid topic (generate-quiz). Has no imports: the frontend imports
+ * this file directly.
+ */
+
+export interface TopicDefinition {
+  slug: string;
+  name: string;
+  description: string | null;
+}
+
+export interface ClassifiableQuestion {
+  question: string;
+  options?: string[];
+}
+
+// Structural subset of LlmProvider, so this file needs no import
+export interface JsonGenerator {
+  generateJson<T = unknown>(prompt: string, options?: { temperature?: number; maxOutputTokens?: number }): Promise<T>;
+}
+
+export const DEFAULT_TOPIC = 'general-rules';
+// Questions per classifier call
+export const CLASSIFY_BATCH_SIZE = 25;
+
+// Null for questions that were not tagged yet
+export function questionTopic(question: { topic?: unknown }): string | null {
+  return typeof question.topic === 'string' && question.topic ? question.topic : null;
+}
+
+export function buildClassificationPrompt(questions: ClassifiableQuestion[], topics: TopicDefinition[]): string {
+  const topicList = topics
+    .map(topic => `- ${topic.slug}: ${topic.name}${topic.description ? ` (${topic.description})` : ''}`)
+    .join('\n');
+
+  const questionList = questions
+    .map((q, index) => {
+      const options = q.options?.length ? `\n   Options: ${q.options.join(' | ')}` : '';
+      return `${index}. ${(q.question ?? '').slice(0, 600)}${options}`;
+    })
+    .join('\n');
+
+  return `You are a topic classifier for Formula Student quiz questions.
+Assign every question to exactly ONE topic from this list, using the slug:
+${topicList}
+
+Use "${DEFAULT_TOPIC}" only when no technical topic fits.
+
+QUESTIONS:
+${questionList}
+
+Return ONLY a JSON array with one object per question, in any order:
+[{"index": 0, "topic": "slug"}]`;
+}
+
+// Unknown slugs and missing answers come back as null
+export function parseClassification(result: unknown, topics: TopicDefinition[], count: number): (string | null)[] {
+  const slugs = new Set(topics.map(topic => topic.slug));
+  const tags: (string | null)[] = new Array(count).fill(null);
+  if (!Array.isArray(result)) return tags;
+
+  for (const item of result) {
+    const index = Number(item?.index);
+    const topic = typeof item?.topic === 'string' ? item.topic.trim().toLowerCase() : '';
+    if (Number.isInteger(index) && index >= 0 && index < count && slugs.has(topic)) tags[index] = topic;
+  }
+  return tags;
+}
+
+export async function classifyQuestions(
+  llm: JsonGenerator,
+  questions: ClassifiableQuestion[],
+  topics: TopicDefinition[]
+): Promise<(string | null)[]> {
+  const tags: (string | null)[] = [];
+  for (let i = 0; i < questions.length; i += CLASSIFY_BATCH_SIZE) {
+    const batch = questions.slice(i, i + CLASSIFY_BATCH_SIZE);
+    const result = await llm.generateJson(buildClassificationPrompt(batch, topics), { temperature: 0, maxOutputTokens: 2000 });
+    tags.push(...parseClassification(result, topics, batch.length));
+  }
+  return tags;
+}
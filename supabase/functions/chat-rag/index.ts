@@ -1,74 +1,198 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-import { GoogleGenerativeAI } from 'npm:@google/generative-ai@0.24.1';
+import { getLlmProvider } from '../_shared/llm.ts';
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
 };
+// Conversation window sent along with each question
+const MAX_HISTORY_TURNS = 8;
+const MAX_HISTORY_CHARS = 6000;
+// Used when the app_settings row is missing; overridden per request by `ragOptions`
+const DEFAULT_RAG_SETTINGS = {
+  match_threshold: 0.4,
+  match_count: 25,
+  rerank_enabled: true,
+  rerank_top_n: 8,
+  rerank_min_score: 3,
+  context_token_budget: 6000
+};
 serve(async (req)=>{
   if (req.method === 'OPTIONS') return new Response('ok', {
     headers: corsHeaders
   });
   try {
     const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
-    const { query, selectedDocuments } = await req.json();
+    const { query, selectedDocuments, threadId, history, stream, retrievalMode = 'hybrid', ragOptions } = await req.json();
     if (!query) throw new Error('Query is required');
-    // 1. Initialize Gemini
-    const apiKey = Deno.env.get('GEMINI_API_KEY');
-    if (!apiKey) throw new Error('GEMINI_API_KEY not set');
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const embeddingModel = genAI.getGenerativeModel({
-      model: "text-embedding-004"
-    });
-    const chatModel = genAI.getGenerativeModel({
-      model: "gemini-flash-latest"
+    // 0. Resolve the thread this turn belongs to (optional)
+    // Only the thread owner may append to it, so verify the caller first.
+    if (threadId) {
+      const token = (req.headers.get('Authorization') ?? '').replace('Bearer ', '');
+      const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+      if (authError || !user) throw new Error('Invalid authentication');
+      const { data: thread, error: threadError } = await supabase.from('chat_threads').select('id, user_id').eq('id', threadId).single();
+      if (threadError || !thread) throw new Error('Thread not found');
+      if (thread.user_id !== user.id) throw new Error('Insufficient permissions');
+    }
+    const settings = await loadRagSettings(supabase, ragOptions);
+    // 1. Initialize the model provider (LLM_PROVIDER)
+    const llm = getLlmProvider();
+    const embeddingModelName = await loadEmbeddingModel(supabase, llm);
+    // Refuse up front when part of the documents in scope cannot be compared with the query
+    const filterDocumentIds = selectedDocuments && selectedDocuments.length > 0 ? selectedDocuments : null;
+    await assertComparableEmbeddings(supabase, filterDocumentIds, embeddingModelName);
+    // 2. Rewrite follow-ups ("and for EV cars?") into a standalone question
+    // so retrieval does not depend on earlier turns
+    const conversation = trimHistory(history);
+    const retrievalQuery = conversation.length > 0 ? await rewriteQuery(llm, query, conversation) : query;
+    // Generate Real Embedding for the User's Question
+    // Sections are only compared with it when they were embedded with the same model
+    const [queryEmbedding] = await llm.embed([
+      retrievalQuery
+    ], {
+      model: embeddingModelName
     });
-    // 2. Generate Real Embedding for the User's Question
-    // This MUST match the model used in process-document (text-embedding-004)
-    const result = await embeddingModel.embedContent(query);
-    const queryEmbedding = result.embedding.values;
-    // 3. Search Database using Real Vector
-    // match_document_sections is the SQL function we created earlier
-    const { data: chunks, error } = await supabase.rpc('match_document_sections', {
+    // 3. Search Database
+    // 'hybrid' (default) merges full-text and vector rankings, 'vector' is the
+    // pure embedding search. Both apply the document selection inside the search
+    // so top-k only competes among the selected documents.
+    const { data: chunks, error } = retrievalMode === 'vector' ? await supabase.rpc('match_document_sections', {
+      query_embedding: queryEmbedding,
+      match_threshold: settings.match_threshold,
+      match_count: settings.match_count,
+      filter_document_ids: filterDocumentIds,
+      query_embedding_model: embeddingModelName
+    }) : await supabase.rpc('hybrid_match_document_sections', {
+      query_text: retrievalQuery,
       query_embedding: queryEmbedding,
-      match_threshold: 0.4,
-      match_count: 25
+      match_count: settings.match_count,
+      filter_document_ids: filterDocumentIds,
+      match_threshold: settings.match_threshold,
+      query_embedding_model: embeddingModelName
     });
     if (error) throw error;
-    // 4. Filter Results
-    let relevantChunks = chunks || [];
-    // If user selected specific docs, filter by them
-    if (selectedDocuments && selectedDocuments.length > 0) {
-      relevantChunks = relevantChunks.filter((chunk)=>selectedDocuments.includes(chunk.document_id));
-    }
-    // 5. Generate Answer
-    let responseText = "";
+    // 3b. Re-rank the candidates against the question and keep the best
+    // ones that fit the context budget
+    const relevantChunks = await selectContextChunks(llm, retrievalQuery, dropDuplicateChunks(chunks || []), settings);
+    // 4. Generate Answer
+    let prompt = null;
     let sources = [];
     if (relevantChunks.length > 0) {
-      // Build context string for Gemini
-      const contextText = relevantChunks.map((chunk)=>chunk.content).join("\n\n---\n\n");
-      const prompt = `
+      // Look up names and storage paths so citations can open the document
+      const documentIds = [
+        ...new Set(relevantChunks.map((c)=>c.document_id))
+      ];
+      const { data: documents, error: documentsError } = await supabase.from('documents').select('id, name, file_path').in('id', documentIds);
+      if (documentsError) throw documentsError;
+      const documentsById = new Map((documents || []).map((d)=>[
+          d.id,
+          d
+        ]));
+      // Build numbered context string for Gemini, one [n] per chunk
+      const contextText = relevantChunks.map((chunk, idx)=>`[${idx + 1}] ${describeChunk(chunk, documentsById.get(chunk.document_id))}\n${chunk.content}`).join("\n\n---\n\n");
+      const conversationText = formatConversation(conversation);
+      prompt = `
         You are an expert technical assistant for Formula Student rules.
         Answer the question strictly based on the context provided below.
         If the answer is not in the context, state that you cannot find it in the provided documents.
-        
+        Use the conversation so far only to understand what the user is referring to.
+        Each context excerpt is numbered like [1], [2]. After every statement, cite the excerpt(s)
+        it is based on using those markers, e.g. "The main hoop must be steel [2]." or "[1][3]".
+        Only cite numbers that exist in the context.
+        ${conversationText ? `
+        CONVERSATION SO FAR:
+        ${conversationText}
+        ` : ''}
         USER QUESTION: "${query}"
         
         CONTEXT FROM DOCUMENTS:
         ${contextText}
       `;
-      const chatResult = await chatModel.generateContent(prompt);
-      responseText = chatResult.response.text();
-      // Collect Document IDs as sources
-      sources = [
-        ...new Set(relevantChunks.map((c)=>c.document_id))
-      ];
-    } else {
-      responseText = "I couldn't find any relevant information in the provided documents matching your query.";
+      // One source per numbered excerpt so [n] in the answer maps to sources[n - 1]
+      sources = relevantChunks.map((chunk, idx)=>{
+        const doc = documentsById.get(chunk.document_id);
+        return {
+          index: idx + 1,
+          chunk_id: chunk.id,
+          document_id: chunk.document_id,
+          document_name: doc?.name ?? null,
+          file_path: doc?.file_path ?? null,
+          section_ref: chunk.section_ref ?? null,
+          page_start: chunk.page_start ?? null,
+          page_end: chunk.page_end ?? null,
+          similarity: chunk.similarity ?? null,
+          rerank_score: chunk.rerank_score ?? null
+        };
+      });
+    }
+    const notFoundText = "I couldn't find any relevant information in the provided documents matching your query.";
+    // 5a. Streaming mode: tokens as server-sent events, sources as the final event
+    if (stream) {
+      const encoder = new TextEncoder();
+      let cancelled = false;
+      const body = new ReadableStream({
+        async start (controller) {
+          const send = (event, data)=>controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+          let responseText = "";
+          try {
+            if (prompt) {
+              for await (const text of llm.generateStream(prompt)){
+                if (cancelled) break;
+                responseText += text;
+                send('token', {
+                  text
+                });
+              }
+            } else {
+              responseText = notFoundText;
+              send('token', {
+                text: responseText
+              });
+            }
+            if (!cancelled) {
+              send('sources', {
+                sources,
+                retrievalMode,
+                settings
+              });
+              send('done', {});
+            }
+          } catch (error) {
+            console.error('Chat Stream Error:', error);
+            if (!cancelled) send('error', {
+              error: error.message
+            });
+          } finally{
+            // Keep whatever the user already saw, even if they stopped the answer early
+            if (responseText) await saveTurn(supabase, threadId, query, responseText, sources);
+            if (!cancelled) controller.close();
+          }
+        },
+        cancel () {
+          cancelled = true;
+        }
+      });
+      return new Response(body, {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache'
+        },
+        status: 200
+      });
     }
+    // 5b. Single response mode
+    let responseText = notFoundText;
+    if (prompt) {
+      responseText = await llm.generate(prompt);
+    }
+    await saveTurn(supabase, threadId, query, responseText, sources);
     return new Response(JSON.stringify({
       response: responseText,
-      sources: sources
+      sources: sources,
+      retrievalMode,
+      settings
     }), {
       headers: {
         ...corsHeaders,
@@ -89,3 +213,198 @@ serve(async (req)=>{
     });
   }
 });
+/**
+ * Keeps the most recent turns that fit the character budget.
+ * Accepts the `{ is_user, content }` shape used by Chat.tsx.
+ */
+function trimHistory(history) {
+  if (!Array.isArray(history)) return [];
+  const turns = history.filter((m)=>m && typeof m.content === 'string' && m.content.trim().length > 0).slice(-MAX_HISTORY_TURNS);
+  const kept = [];
+  let total = 0;
+  for(let i = turns.length - 1; i >= 0; i--){
+    total += turns[i].content.length;
+    if (total > MAX_HISTORY_CHARS) break;
+    kept.unshift({
+      is_user: Boolean(turns[i].is_user),
+      content: turns[i].content
+    });
+  }
+  return kept;
+}
+function describeChunk(chunk, doc) {
+  const parts = [
+    doc?.name ?? 'Unknown document'
+  ];
+  if (chunk.section_ref) parts.push(chunk.section_ref);
+  if (chunk.page_start) parts.push(chunk.page_end && chunk.page_end !== chunk.page_start ? `pages ${chunk.page_start}-${chunk.page_end}` : `page ${chunk.page_start}`);
+  return `(${parts.join(', ')})`;
+}
+function formatConversation(conversation) {
+  return conversation.map((m)=>`${m.is_user ? 'User' : 'Assistant'}: ${m.content}`).join('\n');
+}
+/**
+ * Turns a follow-up question into a self-contained search query.
+ * Falls back to the original question if the model call fails.
+ */
+async function rewriteQuery(llm, query, conversation) {
+  const prompt = `
+    Given the conversation below and a follow-up question, rewrite the follow-up
+    into a single standalone question that can be understood without the conversation.
+    Keep rule numbers, abbreviations and values exactly as written.
+    If the question is already standalone, return it unchanged.
+    Return ONLY the rewritten question.
+
+    CONVERSATION:
+    ${formatConversation(conversation)}
+
+    FOLLOW-UP QUESTION: "${query}"
+  `;
+  try {
+    const rewritten = (await llm.generate(prompt)).trim().replace(/^"|"$/g, '');
+    return rewritten.length > 0 ? rewritten : query;
+  } catch (error) {
+    console.error('Query rewrite failed:', error);
+    return query;
+  }
+}
+/**
+ * Persists a question/answer pair in the given thread.
+ * Inserted one after the other so created_at keeps question before answer.
+ */
+async function saveTurn(supabase, threadId, query, responseText, sources) {
+  if (!threadId) return;
+  const { error: questionError } = await supabase.from('chat_messages').insert({
+    thread_id: threadId,
+    content: query,
+    is_user: true
+  });
+  if (questionError) console.error('Failed to save question:', questionError);
+  const { error: answerError } = await supabase.from('chat_messages').insert({
+    thread_id: threadId,
+    content: responseText,
+    is_user: false,
+    sources: sources
+  });
+  if (answerError) console.error('Failed to save answer:', answerError);
+}
+/**
+ * Reads the admin-editable `chat_rag` settings and applies per-request overrides.
+ * Overrides are clamped so a client cannot blow up the prompt size.
+ */
+async function loadRagSettings(supabase, overrides) {
+  const { data, error } = await supabase.from('app_settings').select('value').eq('key', 'chat_rag').maybeSingle();
+  if (error) console.error('Failed to load chat_rag settings:', error);
+  const merged = {
+    ...DEFAULT_RAG_SETTINGS,
+    ...data?.value ?? {},
+    ...overrides ?? {}
+  };
+  const clamp = (value, min, max, fallback)=>{
+    const n = Number(value);
+    return Number.isFinite(n) ? Math.min(Math.max(n, min), max) : fallback;
+  };
+  return {
+    match_threshold: clamp(merged.match_threshold, 0, 1, DEFAULT_RAG_SETTINGS.match_threshold),
+    match_count: Math.round(clamp(merged.match_count, 1, 50, DEFAULT_RAG_SETTINGS.match_count)),
+    rerank_enabled: merged.rerank_enabled !== false,
+    rerank_top_n: Math.round(clamp(merged.rerank_top_n, 1, 25, DEFAULT_RAG_SETTINGS.rerank_top_n)),
+    rerank_min_score: clamp(merged.rerank_min_score, 0, 10, DEFAULT_RAG_SETTINGS.rerank_min_score),
+    context_token_budget: Math.round(clamp(merged.context_token_budget, 500, 30000, DEFAULT_RAG_SETTINGS.context_token_budget))
+  };
+}
+async function loadEmbeddingModel(supabase, llm) {
+  const { data, error } = await supabase.from('app_settings').select('value').eq('key', 'embedding').maybeSingle();
+  if (error) console.error('Failed to load embedding settings:', error);
+  return data?.value?.model || llm.models.embedding;
+}
+/**
+ * Embedding Guard
+ * The search skips sections embedded with another model, so answers would
+ * quietly leave out part of the documents. Checked before searching the
+ * documents in scope (the selection, or all active documents).
+ */
+async function assertComparableEmbeddings(supabase, filterDocumentIds, embeddingModelName) {
+  let query = supabase.from('document_sections').select('id, documents!inner(is_active)', {
+    count: 'exact',
+    head: true
+  }).neq('embedding_model', embeddingModelName);
+  query = filterDocumentIds ? query.in('document_id', filterDocumentIds) : query.eq('documents.is_active', true);
+  const { count, error } = await query;
+  if (error) {
+    console.error('Embedding model check failed:', error);
+    return;
+  }
+  if (count && count > 0) {
+    throw new Error(`${count} document sections were embedded with a different model than ${embeddingModelName}. An admin needs to re-embed the documents before they can be searched.`);
+  }
+}
+// The same text uploaded twice would otherwise fill the context with copies
+// of one passage; the first (best ranked) copy is kept
+function dropDuplicateChunks(chunks) {
+  const seen = new Set();
+  return chunks.filter((chunk)=>{
+    const key = chunk.content.replace(/\s+/g, ' ').trim().toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+/**
+ * Re-ranker
+ * Asks the model to grade every candidate 0-10 for how well it answers the
+ * question (cross-encoder style: question and chunk are judged together),
+ * then keeps the best `rerank_top_n` above `rerank_min_score` within the
+ * token budget. Without re-ranking the retrieval order is kept.
+ */
+async function selectContextChunks(llm, query, candidates, settings) {
+  let ranked = candidates;
+  if (settings.rerank_enabled && candidates.length > 0) {
+    try {
+      const scores = await rerankChunks(llm, query, candidates);
+      ranked = candidates.map((chunk, idx)=>({
+          ...chunk,
+          rerank_score: scores[idx] ?? 0
+        })).filter((chunk)=>chunk.rerank_score >= settings.rerank_min_score).sort((a, b)=>b.rerank_score - a.rerank_score).slice(0, settings.rerank_top_n);
+    } catch (error) {
+      console.error('Re-ranking failed, keeping retrieval order:', error);
+      ranked = candidates.slice(0, settings.rerank_top_n);
+    }
+  }
+  // Rough estimate of 4 characters per token
+  const kept = [];
+  let usedTokens = 0;
+  for (const chunk of ranked){
+    const tokens = Math.ceil(chunk.content.length / 4);
+    if (kept.length > 0 && usedTokens + tokens > settings.context_token_budget) break;
+    kept.push(chunk);
+    usedTokens += tokens;
+  }
+  return kept;
+}
+async function rerankChunks(llm, query, candidates) {
+  const passages = candidates.map((chunk, idx)=>`<passage id="${idx}">\n${chunk.content}\n</passage>`).join('\n');
+  const prompt = `
+    You are grading search results for a Formula Student rules assistant.
+    For each passage, rate from 0 to 10 how useful it is for answering the question.
+    10 = directly answers it, 5 = related background, 0 = unrelated.
+
+    QUESTION: "${query}"
+
+    PASSAGES:
+    ${passages}
+
+    Return ONLY a JSON array like [{"id": 0, "score": 7}, ...] with one entry per passage.
+  `;
+  const parsed = await llm.generateJson(prompt, {
+    temperature: 0
+  });
+  if (!Array.isArray(parsed)) throw new Error('Re-rank response is not an array');
+  const scores = [];
+  for (const item of parsed){
+    const id = Number(item?.id);
+    const score = Number(item?.score);
+    if (Number.isInteger(id) && Number.isFinite(score)) scores[id] = score;
+  }
+  return scores;
+}
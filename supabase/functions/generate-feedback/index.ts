@@ -1,5 +1,8 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
-import { GoogleGenerativeAI } from 'npm:@google/generative-ai@0.24.1';
+import { getLlmProvider } from '../_shared/llm.ts';
+import { safeJson } from './json.ts';
+import { gradeAnswer } from '../_shared/grading.ts';
+import { questionTopic } from '../_shared/topics.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -95,34 +98,19 @@ serve(async (req) => {
 // Individual Quiz Feedback
 // ===========================================
 async function generateIndividualFeedback(questions, userAnswers, score, total) {
-  const apiKey = Deno.env.get("GEMINI_API_KEY");
-  if (!apiKey) throw new Error("Gemini API key not configured");
-
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const model = genAI.getGenerativeModel({ model: "gemini-3-pro-preview" });
-
   const totalQuestions = total || questions.length;
   const percentage = Math.round((score / totalQuestions) * 100);
 
   const questionSummary = questions.map((q, index) => {
-    const userAnswer = userAnswers[index];
-    let isCorrect = false;
-
-    if (q.type === "single_choice") {
-      isCorrect = Number(userAnswer) === Number(q.correct_answer);
-    } else if (q.type === "multi_choice") {
-      const a = (Array.isArray(userAnswer) ? userAnswer : []).map(String).sort();
-      const b = (Array.isArray(q.correct_answer) ? q.correct_answer : []).map(String).sort();
-      isCorrect = JSON.stringify(a) === JSON.stringify(b);
-    } else if (q.type === "input") {
-      isCorrect = String(userAnswer).trim().toLowerCase() === String(q.correct_answer).trim().toLowerCase();
-    }
+    // Same grading as the quiz page, so the advisor sees the same results
+    const { correct, credit } = gradeAnswer(userAnswers[index], q.correct_answer, q.type);
 
     return {
       // Safely access the question text and detect topic
       question: (q.question && q.question.slice(0, 80) + "...") || "N/A",
-      topic: detectTopic(q.question),
-      correct: isCorrect
+      topic: questionTopic(q) ?? 'untagged',
+      correct,
+      ...(!correct && credit > 0 ? { partial_credit: Math.round(credit * 100) / 100 } : {})
     };
   });
 
@@ -150,15 +138,14 @@ OUTPUT FORMAT (Strict JSON):
   console.log("-> 4A. Starting individual mode AI generation...");
   const aiCallStart = Date.now();
 
-  const raw = await model.generateContent({
-    contents: [{ role: "user", parts: [{ text: prompt }] }],
-    generationConfig: { responseMimeType: "application/json" }
-  });
+  // Written advice, so the quality model rather than the fast one.
+  // A response that is not JSON ends in the fallback feedback of the handler.
+  const feedback = await getLlmProvider().generateJson(prompt, { tier: "quality" });
   
   const aiCallDuration = Date.now() - aiCallStart;
-  console.log(`-> 4B. AI generation finished in ${aiCallDuration}ms. Proceeding to JSON parse.`);
+  console.log(`-> 4B. AI generation finished in ${aiCallDuration}ms.`);
 
-  return safeJson(raw.response.text());
+  return feedback;
 }
 
 
@@ -166,20 +153,6 @@ OUTPUT FORMAT (Strict JSON):
 // Team Game Feedback
 // ===========================================
 async function generateGameFeedback(scores, questions) {
-  const apiKey = Deno.env.get("GEMINI_API_KEY");
-  if (!apiKey) throw new Error("Gemini API key not configured");
-
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const model = genAI.getGenerativeModel({ 
-    model: "gemini-1.5-flash",
-    generationConfig: {
-      temperature: 0.7,
-      topK: 40,
-      topP: 0.95,
-      maxOutputTokens: 2048,
-    }
-  });
-
   const team1Score = scores["1"] ?? 0;
   const team2Score = scores["2"] ?? 0;
 
@@ -193,7 +166,7 @@ async function generateGameFeedback(scores, questions) {
     ...team2Questions
   ].filter(q => q && typeof q.question === 'string'); // CRITICAL: Only process valid question objects
 
-  const topics = Array.from(new Set(allQuestions.map(q => detectTopic(q.question)))).join(", ");
+  const topics = Array.from(new Set(allQuestions.map(q => questionTopic(q)).filter(Boolean))).join(", ");
 
   const prompt = `
 You are a Formula Student technical judge providing post-game analysis.
@@ -226,13 +199,16 @@ Return ONLY valid JSON in this exact format:
   const aiCallStart = Date.now();
   
   try {
-    const raw = await model.generateContent(prompt);
+    const rawText = await getLlmProvider().generate(prompt, {
+      temperature: 0.7,
+      topK: 40,
+      topP: 0.95,
+      maxOutputTokens: 2048,
+    });
     
     const aiCallDuration = Date.now() - aiCallStart;
     console.log(`-> 4B. AI generation finished in ${aiCallDuration}ms`);
     
-    const rawText = raw.response.text();
-    
     if (!rawText || rawText.trim().length === 0) {
       throw new Error(`AI response was empty after ${aiCallDuration}ms`);
     }
@@ -267,58 +243,3 @@ Return ONLY valid JSON in this exact format:
     };
   }
 }
-
-
-// ===========================================
-// Safe JSON Parsing Helper
-// ===========================================
-function safeJson(text) {
-  try {
-    // Clean up the text more thoroughly
-    let cleanText = text.replace(/```json|```/g, "").trim();
-    
-    // Remove any leading/trailing non-JSON content
-    const jsonStart = cleanText.indexOf('{');
-    const jsonEnd = cleanText.lastIndexOf('}');
-    
-    if (jsonStart !== -1 && jsonEnd !== -1 && jsonEnd > jsonStart) {
-      cleanText = cleanText.substring(jsonStart, jsonEnd + 1);
-    }
-    
-    console.log("-> 4C. Attempting to parse JSON...");
-    const result = JSON.parse(cleanText);
-    console.log("-> 4D. JSON parsed successfully.");
-    return result;
-  } catch (e) {
-    console.error(`⚠️ JSON PARSE FAILED. Raw text length: ${text.length}. Error: ${e.message}`);
-    console.error(`Raw text preview: ${text.substring(0, 200)}...`);
-    
-    return {
-      summary: "Quiz completed successfully!",
-      strengths: ["Completed the challenge", "Demonstrated Formula Student knowledge"],
-      weak_points: ["Continue studying regulations", "Practice technical problems"],
-      detailed_analysis: "Both teams showed good effort in this Formula Student quiz challenge. Keep practicing with the rulebook and technical materials.",
-      feedback: "Great job completing the team challenge! Keep studying to improve your Formula Student knowledge."
-    };
-  }
-}
-
-
-// ===========================================
-// Topic Detection Helper
-// ===========================================
-function detectTopic(questionText) {
-  if (typeof questionText !== 'string') {
-    return "Unknown/Malformed Question";
-  }
-
-  const text = questionText.toLowerCase();
-  if (text.includes("brake") || text.includes("stopping")) return "Braking";
-  if (text.includes("engine") || text.includes("fuel") || text.includes("power")) return "Powertrain";
-  if (text.includes("chassis") || text.includes("frame")) return "Chassis/Structural";
-  if (text.includes("suspension") || text.includes("tire") || text.includes("damper")) return "Suspension/VD";
-  if (text.includes("battery") || text.includes("voltage") || text.includes("accumulator")) return "EV/Electronics";
-  if (text.includes("aero") || text.includes("wing") || text.includes("drag")) return "Aerodynamics";
-  if (text.includes("cost") || text.includes("presentation")) return "Static Events";
-  return "General Rules";
-}
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { FALLBACK_FEEDBACK, safeJson } from './json.ts';
+
+Deno.test('safeJson parses plain JSON', () => {
+  assertEquals(safeJson('{"summary": "Well played"}'), { summary: 'Well played' });
+});
+
+Deno.test('safeJson strips code fences and surrounding text', () => {
+  const text = 'Here is the analysis:\n```json\n{"summary": "Close match", "strengths": ["Brakes"]}\n```\nGood luck!';
+  assertEquals(safeJson(text), { summary: 'Close match', strengths: ['Brakes'] });
+});
+
+Deno.test('safeJson falls back to generic feedback on invalid JSON', () => {
+  assertEquals(safeJson('{"summary": "cut off'), FALLBACK_FEEDBACK);
+  assertEquals(safeJson(''), FALLBACK_FEEDBACK);
+});
+
+Deno.test('safeJson fallback is a fresh object', () => {
+  const result = safeJson('not json');
+  result.summary = 'changed';
+  assertEquals(FALLBACK_FEEDBACK.summary, 'Quiz completed successfully!');
+});
@@ -0,0 +1,36 @@
+// Returned when the model answer cannot be parsed, so the game still shows feedback
+export const FALLBACK_FEEDBACK = {
+  summary: "Quiz completed successfully!",
+  strengths: ["Completed the challenge", "Demonstrated Formula Student knowledge"],
+  weak_points: ["Continue studying regulations", "Practice technical problems"],
+  detailed_analysis: "Both teams showed good effort in this Formula Student quiz challenge. Keep practicing with the rulebook and technical materials.",
+  feedback: "Great job completing the team challenge! Keep studying to improve your Formula Student knowledge."
+};
+
+// ===========================================
+// Safe JSON Parsing Helper
+// ===========================================
+export function safeJson(text: string) {
+  try {
+    // Clean up the text more thoroughly
+    let cleanText = text.replace(/```json|```/g, "").trim();
+
+    // Remove any leading/trailing non-JSON content
+    const jsonStart = cleanText.indexOf('{');
+    const jsonEnd = cleanText.lastIndexOf('}');
+
+    if (jsonStart !== -1 && jsonEnd !== -1 && jsonEnd > jsonStart) {
+      cleanText = cleanText.substring(jsonStart, jsonEnd + 1);
+    }
+
+    console.log("-> 4C. Attempting to parse JSON...");
+    const result = JSON.parse(cleanText);
+    console.log("-> 4D. JSON parsed successfully.");
+    return result;
+  } catch (e) {
+    console.error(`⚠️ JSON PARSE FAILED. Raw text length: ${text.length}. Error: ${e.message}`);
+    console.error(`Raw text preview: ${text.substring(0, 200)}...`);
+
+    return { ...FALLBACK_FEEDBACK };
+  }
+}
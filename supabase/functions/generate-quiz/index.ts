@@ -1,17 +1,23 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-import { GoogleGenerativeAI } from 'npm:@google/generative-ai@0.24.1';
+import { getLlmProvider, LlmProvider } from '../_shared/llm.ts';
+import { classifyQuestions, TopicDefinition } from '../_shared/topics.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
 };
 
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders });
   }
 
+  // Known once the request is read; the fallback questions ignore it
+  let focus: GenerationFocus = {};
+
   try {
     console.log('🎯 Quiz generation started');
     const supabaseClient = createClient(
@@ -19,10 +25,58 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    const { count = 5, selectedDocuments } = await req.json();
+    const { count = 5, selectedDocuments, changedRules, topic, difficulty } = await req.json();
+    focus = { topic, difficulty };
+    const llm = getLlmProvider();
+
+    const { data: topics, error: topicError } = await supabaseClient
+      .from('topics')
+      .select('slug, name, description')
+      .order('sort_order');
+    if (topicError) throw topicError;
+
+    // null means any topic / mixed difficulty, like leaving the field out
+    if (topic != null && !topics.some(t => t.slug === topic)) {
+      return new Response(JSON.stringify({ error: `Unknown topic: ${topic}` }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400
+      });
+    }
+    if (difficulty != null && !DIFFICULTIES.includes(difficulty)) {
+      return new Response(JSON.stringify({ error: `Difficulty must be one of ${DIFFICULTIES.join(', ')}` }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400
+      });
+    }
     
     console.log('📊 Requested question count:', count);
     console.log('📋 Selected documents:', selectedDocuments?.length || 0);
+    if (topic || difficulty) console.log('🎚️ Focus:', topic || 'any topic', difficulty || 'mixed difficulty');
+
+    // Focused set on rules that changed between two rulebook seasons (sent by rulebook-diff)
+    if (Array.isArray(changedRules) && changedRules.length > 0) {
+      console.log('🔁 Changed rules:', changedRules.length);
+      const changeContext = changedRules.map(rule =>
+        `--- RULE ${rule.rule_id} ---\nOLD VERSION: ${rule.before}\nNEW VERSION: ${rule.after}` +
+        (rule.summary ? `\nCHANGE: ${rule.summary}` : '')
+      ).join('\n\n');
+
+      try {
+        const questions = await generateQuestions(llm, changeContext, count, topics, { focusOnChanges: true });
+        return new Response(JSON.stringify({
+          questions,
+          source: llm.name,
+          requested: count,
+          generated: questions.length
+        }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200
+        });
+      } catch (llmError) {
+        console.error('❌ LLM generation failed:', llmError.message);
+        return getFallbackQuestions(count, focus);
+      }
+    }
 
     // Get documents for context
     console.log('📚 Fetching documents...');
@@ -37,9 +91,11 @@ serve(async (req) => {
       documents = selectedDocs;
       docError = selectedError;
     } else {
+      // Superseded rulebook versions are only used when selected explicitly
       const { data: allDocs, error: allError } = await supabaseClient
         .from('documents')
         .select('content, name')
+        .eq('is_active', true)
         .limit(10);
       documents = allDocs;
       docError = allError;
@@ -47,7 +103,7 @@ serve(async (req) => {
 
     if (docError) {
       console.error('❌ Error fetching documents:', docError);
-      return getFallbackQuestions(count);
+      return getFallbackQuestions(count, focus);
     }
 
     // Filter out invalid docs
@@ -57,7 +113,7 @@ serve(async (req) => {
     ) || [];
 
     if (validDocs.length === 0) {
-      return getFallbackQuestions(count);
+      return getFallbackQuestions(count, focus);
     }
 
     // Combine context. Increased limit to 150k chars to accommodate Rulebooks + Quiz History
@@ -66,52 +122,58 @@ serve(async (req) => {
       `--- DOCUMENT: ${doc.name} ---\n${doc.content}`
     ).join('\n\n').substring(0, 150000); 
 
-    const apiKey = Deno.env.get('GEMINI_API_KEY');
-    if (!apiKey) {
-      return getFallbackQuestions(count);
-    }
-
     try {
-      const questions = await generateQuestionsWithGemini(context, count);
+      const questions = await generateQuestions(llm, context, count, topics, { topic, difficulty });
       return new Response(JSON.stringify({
         questions,
-        source: 'gemini',
+        source: llm.name,
         requested: count,
         generated: questions.length
       }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         status: 200
       });
-    } catch (geminiError) {
-      console.error('❌ Gemini generation failed:', geminiError.message);
-      return getFallbackQuestions(count);
+    } catch (llmError) {
+      console.error('❌ LLM generation failed:', llmError.message);
+      return getFallbackQuestions(count, focus);
     }
 
   } catch (error) {
     console.error('❌ Quiz generation error:', error.message);
-    return getFallbackQuestions(5);
+    return getFallbackQuestions(5, focus);
   }
 });
 
-async function generateQuestionsWithGemini(context, count) {
-  const apiKey = Deno.env.get('GEMINI_API_KEY');
-  const genAI = new GoogleGenerativeAI(apiKey);
-  
-  // Use 1.5 Flash for larger context window and faster speed
-  const model = genAI.getGenerativeModel({
-    model: 'gemini-flash-latest', 
-    generationConfig: {
-      temperature: 0.5, // Lower temperature for more accurate rule-based questions
-      topK: 40,
-      topP: 0.95,
-      maxOutputTokens: 8000,
-      responseMimeType: "application/json"
-    }
-  });
+interface GenerationFocus {
+  focusOnChanges?: boolean;
+  topic?: string; // topic slug, sent by the adaptive quiz mode and the topic filter
+  difficulty?: string; // one of DIFFICULTIES
+}
+
+async function generateQuestions(
+  llm: LlmProvider,
+  context,
+  count,
+  topics: TopicDefinition[],
+  { focusOnChanges = false, topic, difficulty }: GenerationFocus = {}
+) {
+  const topicDefinition = topics.find(t => t.slug === topic);
+  const changeFocus = focusOnChanges ? `
+    FOCUS: The context lists rules that CHANGED between two rulebook seasons (old and new wording).
+    Every question must test one of these changes. Ask about the NEW requirement, use the OLD value or
+    wording as a plausible wrong option, and name the rule number in the explanation.
+    ` : '';
+  const topicFocus = topicDefinition ? `
+    TOPIC: Every question must be about "${topicDefinition.name}"${topicDefinition.description ? ` (${topicDefinition.description})` : ''}.
+    Pick the matching rules and scenarios from the documents.
+    ` : '';
+  const difficultyRule = difficulty
+    ? `DIFFICULTY: Every question must be ${difficulty.toUpperCase()}. Easy questions check a single rule or definition, hard ones combine several rules or need a calculation.`
+    : 'DIFFICULTY: Mix between Medium and Hard. Avoid trivial questions.';
 
   const prompt = `You are an expert engineering exam creator for Formula Student competitions.
     Generate exactly ${count} questions based ONLY on the provided documents.
-    
+    ${changeFocus}${topicFocus}
     INPUT CONTEXT:
     ${context}
 
@@ -130,7 +192,7 @@ async function generateQuestionsWithGemini(context, count) {
          * Provide variables and ask for a specific number.
          * IMPORTANT: For 'input' types, the "options" array should be empty [], and "correct_answer" should be the string representation of the calculated number (e.g., "12.34").
 
-    3. DIFFICULTY: Mix between Medium and Hard. Avoid trivial questions.
+    3. ${difficultyRule}
     4. OUTPUT FORMAT: Return a raw JSON Array.
 
     JSON SCHEMA:
@@ -143,71 +205,84 @@ async function generateQuestionsWithGemini(context, count) {
                              // For multi_choice: Array of indices [0, 2]. 
                              // For input: The string value answer "125.5".
         "explanation": "Detailed derivation or rule reference (e.g., 'According to T.1.2...').",
-        "difficulty": "hard"
+        "difficulty": "${difficulty || 'hard'}"
       }
     ]
   `;
 
-  console.log(`📤 Sending prompt to Gemini...`);
-  const result = await model.generateContent(prompt);
-  const responseText = result.response.text();
+  console.log(`📤 Sending prompt to ${llm.name}...`);
+  // Lower temperature for more accurate rule-based questions
+  const questions = await llm.generateJson<any[]>(prompt, {
+    temperature: 0.5,
+    topK: 40,
+    topP: 0.95,
+    maxOutputTokens: 8000
+  });
 
-  // Clean and Parse JSON
-  let cleanedResponse = responseText.replace(/```json/g, '').replace(/```/g, '').trim();
-  
-  try {
-    let questions = JSON.parse(cleanedResponse);
-    
-    if (!Array.isArray(questions)) throw new Error("Response is not an array");
+  if (!Array.isArray(questions)) throw new Error("Response is not an array");
 
-    // Normalize and Validate
-    return questions.map((q, index) => {
-      let safeType = q.type;
-      let safeAnswer = q.correct_answer;
+  // Normalize and Validate
+  const normalized = questions.map((q, index) => {
+    let safeType = q.type;
+    let safeAnswer = q.correct_answer;
 
-      // Normalize Types
-      if (!['single_choice', 'multi_choice', 'input'].includes(safeType)) {
-        safeType = 'single_choice';
-      }
+    // Normalize Types
+    if (!['single_choice', 'multi_choice', 'input'].includes(safeType)) {
+      safeType = 'single_choice';
+    }
 
-      // Normalize Answers based on type
-      if (safeType === 'input') {
-        // Ensure options is empty for input
-        q.options = []; 
-        // Ensure answer is a string
-        safeAnswer = String(safeAnswer); 
-      } 
-      else if (safeType === 'multi_choice') {
-        // Ensure answer is an array of numbers
-        if (!Array.isArray(safeAnswer)) {
-           safeAnswer = [Number(safeAnswer) || 0];
-        }
-      } 
-      else {
-        // Single choice defaults
-        safeAnswer = Number(safeAnswer);
-        if (isNaN(safeAnswer)) safeAnswer = 0;
+    // Normalize Answers based on type
+    if (safeType === 'input') {
+      // Ensure options is empty for input
+      q.options = []; 
+      // Ensure answer is a string
+      safeAnswer = String(safeAnswer); 
+    } 
+    else if (safeType === 'multi_choice') {
+      // Ensure answer is an array of numbers
+      if (!Array.isArray(safeAnswer)) {
+         safeAnswer = [Number(safeAnswer) || 0];
       }
+    } 
+    else {
+      // Single choice defaults
+      safeAnswer = Number(safeAnswer);
+      if (isNaN(safeAnswer)) safeAnswer = 0;
+    }
 
-      return {
-        id: Date.now() + index.toString(),
-        type: safeType,
-        question: q.question,
-        options: q.options || [],
-        correct_answer: safeAnswer,
-        explanation: q.explanation || 'Based on the provided documents.',
-        difficulty: q.difficulty || 'medium'
-      };
-    });
+    return {
+      id: Date.now() + index.toString(),
+      type: safeType,
+      question: q.question,
+      options: q.options || [],
+      correct_answer: safeAnswer,
+      explanation: q.explanation || 'Based on the provided documents.',
+      difficulty: difficulty || q.difficulty || 'medium',
+      topic: topicDefinition ? topic : null
+    };
+  });
+
+  if (topicDefinition) return normalized;
 
+  // Tag the questions for the topic filters and the mastery model; untagged questions are still usable
+  try {
+    const tags = await classifyQuestions(llm, normalized, topics);
+    return normalized.map((q, index) => ({ ...q, topic: tags[index] }));
   } catch (error) {
-    console.error('❌ JSON Parse Error:', error);
-    console.log('Raw Output:', responseText);
-    throw error;
+    console.error('⚠️ Topic classification failed:', error.message);
+    return normalized;
   }
 }
 
-function getFallbackQuestions(count) {
+function getFallbackQuestions(count, { topic, difficulty }: GenerationFocus = {}) {
+  // The fixed questions would stand in for the requested topic or difficulty and skew the mastery model
+  if (topic != null || difficulty != null) {
+    return new Response(JSON.stringify({ error: 'Could not generate questions for the requested topic or difficulty' }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 400
+    });
+  }
+
   console.log('⚠️ Returning fallback questions');
   const fallback = [
     {
@@ -217,7 +292,8 @@ function getFallbackQuestions(count) {
       options: ['500cc', '600cc', '710cc', 'Unlimited'],
       correct_answer: 2,
       explanation: 'Standard rules typically limit FSAE engines to 710cc.',
-      difficulty: 'medium'
+      difficulty: 'medium',
+      topic: 'powertrain'
     },
     {
       id: 'fb2',
@@ -226,7 +302,8 @@ function getFallbackQuestions(count) {
       options: [],
       correct_answer: "42.50",
       explanation: 'Using the standard scoring formula for skidpad.',
-      difficulty: 'hard'
+      difficulty: 'hard',
+      topic: 'scoring'
     },
     {
       id: 'fb3',
@@ -235,7 +312,8 @@ function getFallbackQuestions(count) {
       options: ['Test velocity > 7 m/s', 'Average deceleration < 20g', 'Peak deceleration < 40g', 'Energy absorbed > 7350J'],
       correct_answer: [0, 1, 2, 3],
       explanation: 'These are standard IAD requirements.',
-      difficulty: 'medium'
+      difficulty: 'medium',
+      topic: 'chassis'
     }
   ];
   return new Response(JSON.stringify({
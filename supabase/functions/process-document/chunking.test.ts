@@ -0,0 +1,122 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { chunkDocument, findRuleHeadings, isAncestorRule, splitRulebookIntoChunks, splitTextIntoChunks } from './chunking.ts';
+
+// Shaped like the output of the PDF extractor in extract.ts
+const RULEBOOK = `
+--- Page 1 ---
+Formula Student Rules 2025
+Version 1.0
+Contents
+T 7 BRAKE SYSTEM ........................................ 2
+T 7.1 General .......................................... 2
+
+--- Page 2 ---
+T TECHNICAL ASPECTS
+T 7 BRAKE SYSTEM
+T 7.1 General
+T 7.1.1 The vehicle must be equipped with a braking system that acts on all four wheels and is operated by a single control.
+T 7.1.2 The brake system must have at least two hydraulic circuits, so that in case of a leak or failure at any point
+in the system, effective braking power is maintained on at least two wheels. See T 7.1.1 for the control.
+T 7.2 Brake Over-Travel Switch
+T 7.2.1 A brake pedal over-travel switch must be installed on the car as part of the shutdown circuit.
+
+--- Page 3 ---
+T 7.2.2 Repeated actuation of the switch must not restore power to these components.
+EV ELECTRIC VEHICLES
+EV 4 TRACTIVE SYSTEM
+EV 4.1 Separation of the tractive system and the low voltage system must be ensured, insulation must be
+guaranteed at all times.
+`;
+
+Deno.test('findRuleHeadings detects numbered rules and part titles', () => {
+  const ids = findRuleHeadings(RULEBOOK).map((h) => h.id);
+  assertEquals(ids, ['T', 'T 7', 'T 7.1', 'T 7.1.1', 'T 7.1.2', 'T 7.2', 'T 7.2.1', 'T 7.2.2', 'EV', 'EV 4', 'EV 4.1']);
+});
+
+Deno.test('findRuleHeadings ignores table of contents entries and wrapped cross-references', () => {
+  const headings = findRuleHeadings(RULEBOOK);
+  const brakeSystem = headings.find((h) => h.id === 'T 7');
+  assertEquals(brakeSystem?.title, 'BRAKE SYSTEM');
+  assert(RULEBOOK.indexOf('T 7 BRAKE SYSTEM ....') < RULEBOOK.indexOf('T TECHNICAL ASPECTS'));
+  assert(brakeSystem!.offset > RULEBOOK.indexOf('T TECHNICAL ASPECTS'));
+
+  const text = 'T 7.1.1 The pedal must be fitted.\nT 7.1.1 must be read together with T 7.2.\nEV4.2 Insulation';
+  assertEquals(findRuleHeadings(text).map((h) => h.id), ['T 7.1.1', 'EV 4.2']);
+});
+
+Deno.test('splitRulebookIntoChunks keeps every rule in one chunk', () => {
+  const chunks = splitRulebookIntoChunks(RULEBOOK).filter((c) => c.rule_id);
+  assertEquals(chunks.map((c) => c.rule_id), ['T 7.1.1', 'T 7.1.2', 'T 7.2.1', 'T 7.2.2', 'EV 4.1']);
+
+  const twoCircuits = chunks.find((c) => c.rule_id === 'T 7.1.2')!;
+  assert(twoCircuits.content.startsWith('T 7.1.2 The brake system'));
+  assert(twoCircuits.content.endsWith('See T 7.1.1 for the control.'));
+  assert(!twoCircuits.content.includes('T 7.2'));
+});
+
+Deno.test('splitRulebookIntoChunks records section path and page', () => {
+  const chunks = splitRulebookIntoChunks(RULEBOOK);
+  const byRule = new Map(chunks.map((c) => [c.rule_id, c]));
+
+  assertEquals(byRule.get('T 7.1.1')?.section_path, 'T TECHNICAL ASPECTS > T 7 BRAKE SYSTEM > T 7.1 General');
+  assertEquals(byRule.get('T 7.2.1')?.section_path, 'T TECHNICAL ASPECTS > T 7 BRAKE SYSTEM > T 7.2 Brake Over-Travel Switch');
+  assertEquals(byRule.get('EV 4.1')?.section_path, 'EV ELECTRIC VEHICLES > EV 4 TRACTIVE SYSTEM');
+
+  assertEquals(byRule.get('T 7.1.1')?.page, 2);
+  assertEquals(byRule.get('T 7.2.2')?.page, 3);
+});
+
+Deno.test('splitRulebookIntoChunks drops page markers from rule text', () => {
+  const chunk = splitRulebookIntoChunks(RULEBOOK).find((c) => c.rule_id === 'T 7.2.1')!;
+  assertEquals(chunk.content, 'T 7.2.1 A brake pedal over-travel switch must be installed on the car as part of the shutdown circuit.');
+});
+
+Deno.test('splitRulebookIntoChunks splits an overlong rule but keeps its rule id', () => {
+  const longRule = 'T 8.1.1 The frame must be made of steel tubing. ' + 'Each tube must meet the minimum dimensions. '.repeat(60);
+  const text = `T 8 CHASSIS\nT 8.1 Frame\n${longRule}\nT 8.1.2 The frame must be inspected.\nT 8.1.3 Welds must be visible.\n`;
+
+  const chunks = splitRulebookIntoChunks(text);
+  const frameChunks = chunks.filter((c) => c.rule_id === 'T 8.1.1');
+  assert(frameChunks.length > 1);
+  assert(frameChunks.every((c) => c.content.length <= 1000));
+  assert(frameChunks.every((c) => c.section_path === 'T 8 CHASSIS > T 8.1 Frame'));
+});
+
+Deno.test('chunkDocument falls back to the generic splitter for non-rulebook text', () => {
+  const text = '--- Page 1 ---\n' + 'Design reports are judged on the engineering process. '.repeat(40);
+  const chunks = chunkDocument(text);
+  assert(chunks.length > 1);
+  assert(chunks.every((c) => c.rule_id === null && c.section_path === null));
+  assertEquals(chunks[0].page, 1);
+});
+
+Deno.test('isAncestorRule', () => {
+  assert(isAncestorRule('T', 'T 7'));
+  assert(isAncestorRule('T 7', 'T 7.1.3'));
+  assert(!isAncestorRule('T 7', 'T 70.1'));
+  assert(!isAncestorRule('D', 'DV 1'));
+});
+
+Deno.test('splitTextIntoChunks keeps short text in one chunk and drops fragments', () => {
+  const text = 'Design reports are judged on the engineering process and its documentation.';
+  assertEquals(splitTextIntoChunks(text), [{ content: text, start: 0, end: text.length }]);
+  assertEquals(splitTextIntoChunks('Too short to index.'), []);
+});
+
+Deno.test('splitTextIntoChunks prefers paragraph breaks and overlaps chunks', () => {
+  const text = 'A'.repeat(700) + '\n\n' + 'B'.repeat(700);
+  const chunks = splitTextIntoChunks(text);
+  assertEquals(chunks.length, 2);
+  assertEquals(chunks[0].content, 'A'.repeat(700));
+  assertEquals(chunks[1].start, 500);
+  assert(chunks[1].content.endsWith('B'.repeat(700)));
+});
+
+Deno.test('splitTextIntoChunks breaks long paragraphs at sentence ends', () => {
+  const text = 'The accumulator container must be insulated. '.repeat(60);
+  const chunks = splitTextIntoChunks(text);
+  assert(chunks.length > 1);
+  assert(chunks.every((c) => c.content.length <= 1000 && c.content.endsWith('.')));
+  for (const chunk of chunks) assertEquals(text.slice(chunk.start, chunk.end).trim(), chunk.content);
+  for (let i = 1; i < chunks.length; i++) assertEquals(chunks[i].start, chunks[i - 1].end - 200);
+});
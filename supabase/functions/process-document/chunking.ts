@@ -0,0 +1,218 @@
+export interface TextChunk {
+  content: string;
+  start: number; // offset of the chunk in the full text
+  end: number;
+}
+
+export interface DocumentChunk extends TextChunk {
+  rule_id: string | null; // e.g. "T 7.1.3"
+  section_path: string | null; // e.g. "T TECHNICAL ASPECTS > T 7 BRAKE SYSTEM > T 7.1 General"
+  page: number | null; // page the chunk starts on
+}
+
+export interface RuleHeading {
+  id: string; // normalised to "PREFIX N.N.N"
+  title: string;
+  offset: number; // start of the heading line
+}
+
+const CHUNK_SIZE = 1000;
+const CHUNK_OVERLAP = 200;
+const MIN_CHUNK_LENGTH = 50;
+// Fewer numbered headings than this and the text is not treated as a rulebook
+const MIN_RULE_HEADINGS = 5;
+const MAX_TITLE_LENGTH = 80;
+
+// Inserted by the PDF extractor in extract.ts
+export const PAGE_MARKER_PATTERN = /--- Page (\d+) ---/g;
+// Rulebook identifiers such as "T 11.3", "EV 5.6.2" or "A2.1"
+export const SECTION_REF_PATTERN = /\b((?:A|T|EV|CV|IN|D|S)\s?\d+(?:\.\d+)+)\b/g;
+
+// Part prefixes used by the Formula Student rulebooks
+const RULE_PREFIXES = 'A|GR|AD|DO|IN|T|CV|EV|DV|S|D';
+// "T 7.1.3 The brake system must..." / "EV4.1 Insulation" / "T 7 BRAKE SYSTEM"
+const NUMBERED_HEADING_PATTERN = new RegExp(`^[ \\t]*(${RULE_PREFIXES})[ \\t]?(\\d+(?:\\.\\d+)*)(?=[ \\t]|$)[ \\t]*(.*)$`, 'gm');
+// "T TECHNICAL ASPECTS"
+const PART_HEADING_PATTERN = new RegExp(`^[ \\t]*(${RULE_PREFIXES})[ \\t]+([A-Z][A-Z &,/-]{3,})[ \\t]*$`, 'gm');
+// Table of contents entries end in dot leaders
+const TOC_LEADER_PATTERN = /\.{3,}|…/;
+
+/**
+ * Document Chunker
+ * Uses the rulebook splitter when the text has a rule numbering hierarchy,
+ * otherwise falls back to the generic splitter
+ */
+export function chunkDocument(text: string): DocumentChunk[] {
+  const headings = findRuleHeadings(text);
+  if (headings.length >= MIN_RULE_HEADINGS) return splitRulebookIntoChunks(text, headings);
+
+  const pageMarkers = findMarkers(text, PAGE_MARKER_PATTERN, (m) => parseInt(m[1]));
+  return splitTextIntoChunks(text).map((chunk) => ({
+    ...toDocumentChunk(chunk, pageMarkers),
+    rule_id: null,
+    section_path: null
+  }));
+}
+
+/**
+ * Semantic Splitter
+ * Tries to break at sensible boundaries (Paragraphs > Sentences > Words)
+ */
+export function splitTextIntoChunks(text: string): TextChunk[] {
+  const chunks: TextChunk[] = [];
+
+  let i = 0;
+  while (i < text.length) {
+    let end = Math.min(i + CHUNK_SIZE, text.length);
+
+    // Try to break at a paragraph or sentence end
+    if (end < text.length) {
+      const nextDoubleNewline = text.lastIndexOf('\n\n', end);
+      const nextNewline = text.lastIndexOf('\n', end);
+      const nextDot = text.lastIndexOf('. ', end);
+
+      if (nextDoubleNewline > i + (CHUNK_SIZE * 0.5)) end = nextDoubleNewline;
+      else if (nextNewline > i + (CHUNK_SIZE * 0.6)) end = nextNewline;
+      else if (nextDot > i + (CHUNK_SIZE * 0.7)) end = nextDot + 1;
+    }
+
+    const chunk = text.slice(i, end).trim();
+    if (chunk.length > MIN_CHUNK_LENGTH) {
+      chunks.push({ content: chunk, start: i, end });
+    }
+
+    i = end - CHUNK_OVERLAP;
+    if (i < 0) i = 0;
+    if (end === text.length) break;
+  }
+
+  return chunks;
+}
+
+/**
+ * Rule Heading Finder
+ * Lines starting with a rule number ("T 7.1.3 ...") or a part title ("T TECHNICAL ASPECTS").
+ * When an id appears more than once (table of contents, page headers) the last occurrence wins.
+ */
+export function findRuleHeadings(text: string): RuleHeading[] {
+  const candidates: RuleHeading[] = [];
+
+  for (const m of text.matchAll(NUMBERED_HEADING_PATTERN)) {
+    const rest = m[3].trim();
+    if (TOC_LEADER_PATTERN.test(rest)) continue;
+    // A wrapped cross-reference ("T 7.1.3 must be...") continues a sentence in lower case
+    if (rest && !/^[A-Z0-9("'“]/.test(rest)) continue;
+    candidates.push({ id: `${m[1]} ${m[2]}`, title: rest, offset: m.index ?? 0 });
+  }
+
+  for (const m of text.matchAll(PART_HEADING_PATTERN)) {
+    candidates.push({ id: m[1], title: m[2].trim(), offset: m.index ?? 0 });
+  }
+
+  const lastById = new Map<string, RuleHeading>();
+  for (const heading of candidates) {
+    const existing = lastById.get(heading.id);
+    if (!existing || heading.offset > existing.offset) lastById.set(heading.id, heading);
+  }
+
+  return Array.from(lastById.values()).sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * Rulebook Splitter
+ * One chunk per rule, so a rule is never cut in half or mixed with its neighbours.
+ * Headings without text of their own only contribute to the section path of their rules,
+ * and rules longer than a chunk are split with the generic splitter, keeping their rule id.
+ */
+export function splitRulebookIntoChunks(text: string, headings: RuleHeading[] = findRuleHeadings(text)): DocumentChunk[] {
+  const pageMarkers = findMarkers(text, PAGE_MARKER_PATTERN, (m) => parseInt(m[1]));
+  const chunks: DocumentChunk[] = [];
+
+  // Front matter before the first rule
+  const preambleEnd = headings.length ? headings[0].offset : text.length;
+  for (const chunk of splitTextIntoChunks(text.slice(0, preambleEnd))) {
+    chunks.push({ ...toDocumentChunk(chunk, pageMarkers), rule_id: null, section_path: null });
+  }
+
+  const ancestors: RuleHeading[] = [];
+  headings.forEach((heading, idx) => {
+    const next = headings[idx + 1];
+    const start = heading.offset;
+    const end = next ? next.offset : text.length;
+
+    while (ancestors.length && !isAncestorRule(ancestors[ancestors.length - 1].id, heading.id)) ancestors.pop();
+    const sectionPath = ancestors.length ? ancestors.map(formatHeadingLabel).join(' > ') : null;
+    ancestors.push(heading);
+
+    const segment = text.slice(start, end);
+    const hasChildren = !!next && isAncestorRule(heading.id, next.id);
+    const ownText = stripPageMarkers(segment.slice(segment.indexOf('\n') + 1 || segment.length)).trim();
+    if (hasChildren && ownText.length < MIN_CHUNK_LENGTH) return;
+
+    const pieces: TextChunk[] = segment.length > CHUNK_SIZE
+      ? splitTextIntoChunks(segment)
+      : [{ content: segment, start: 0, end: segment.length }];
+
+    for (const piece of pieces) {
+      const content = stripPageMarkers(piece.content).trim();
+      if (!content) continue;
+      chunks.push({
+        ...toDocumentChunk({ content, start: start + piece.start, end: start + piece.end }, pageMarkers),
+        rule_id: heading.id,
+        section_path: sectionPath
+      });
+    }
+  });
+
+  return chunks;
+}
+
+// "T 7" is an ancestor of "T 7.1.3", the part "T" of every "T n" rule
+export function isAncestorRule(ancestorId: string, id: string): boolean {
+  return id.startsWith(/\d/.test(ancestorId) ? `${ancestorId}.` : `${ancestorId} `);
+}
+
+function formatHeadingLabel(heading: RuleHeading): string {
+  const title = heading.title.length > MAX_TITLE_LENGTH ? `${heading.title.slice(0, MAX_TITLE_LENGTH)}...` : heading.title;
+  return title ? `${heading.id} ${title}` : heading.id;
+}
+
+function stripPageMarkers(text: string): string {
+  return text.replace(/\n?--- Page \d+ ---\n?/g, '\n');
+}
+
+function toDocumentChunk(chunk: TextChunk, pageMarkers: Marker<number>[]): Omit<DocumentChunk, 'rule_id' | 'section_path'> {
+  return {
+    ...chunk,
+    page: markerAt(pageMarkers, chunk.start) ?? firstMarkerIn(pageMarkers, chunk.start, chunk.end)
+  };
+}
+
+export interface Marker<T> {
+  offset: number;
+  value: T;
+}
+
+/**
+ * Marker Index
+ * Records every match of the pattern with its offset so chunks can be located
+ */
+export function findMarkers<T>(text: string, pattern: RegExp, toValue: (m: RegExpMatchArray) => T): Marker<T>[] {
+  return Array.from(text.matchAll(pattern), (m) => ({ offset: m.index ?? 0, value: toValue(m) }));
+}
+
+// Value of the last marker at or before the offset
+export function markerAt<T>(markers: Marker<T>[], offset: number): T | null {
+  let found: T | null = null;
+  for (const marker of markers) {
+    if (marker.offset > offset) break;
+    found = marker.value;
+  }
+  return found;
+}
+
+// Value of the first marker inside [start, end)
+export function firstMarkerIn<T>(markers: Marker<T>[], start: number, end: number): T | null {
+  const marker = markers.find((m) => m.offset >= start && m.offset < end);
+  return marker ? marker.value : null;
+}
@@ -0,0 +1,47 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { formatTable, htmlToText } from './extract.ts';
+
+Deno.test('formatTable labels every cell with its column header', () => {
+  const rows = [
+    ['Item', 'Limit'],
+    ['Wheelbase', ' 1525 mm '],
+    ['Track', ''],
+    ['', ''],
+    ['Ground clearance', '30 mm', 'static']
+  ];
+
+  assertEquals(
+    formatTable(rows),
+    'Item: Wheelbase | Limit: 1525 mm\nItem: Track\nItem: Ground clearance | Limit: 30 mm | static'
+  );
+});
+
+Deno.test('formatTable joins a single row and skips empty tables', () => {
+  assertEquals(formatTable([['Brakes', '', 'T 7']]), 'Brakes | T 7');
+  assertEquals(formatTable([['', ' '], []]), '');
+  assertEquals(formatTable([]), '');
+});
+
+Deno.test('htmlToText keeps block structure and drops scripts, styles and the head', () => {
+  const html = `<html><head><title>Rules</title><style>p { color: red; }</style></head><body>`
+    + `<h1>Brakes</h1><script>alert(1)</script>`
+    + `<p>The brake   system\n must act on <b>all four</b> wheels.</p>`
+    + `<ul><li>Circuit one</li><li>Circuit two</li></ul>`
+    + `Line one<br>Line two</body></html>`;
+
+  assertEquals(
+    htmlToText(html),
+    'Brakes\n\nThe brake system must act on all four wheels.\n\n- Circuit one\n- Circuit two\nLine one\nLine two'
+  );
+});
+
+Deno.test('htmlToText collapses blank lines between blocks', () => {
+  assertEquals(htmlToText('<p>A paragraph</p><h2>Next heading</h2><div><p>Nested</p></div>'), 'A paragraph\n\nNext heading\n\nNested');
+});
+
+Deno.test('htmlToText flattens tables with formatTable', () => {
+  const html = '<p>Limits</p><table><thead><tr><th>Item</th><th>Limit</th></tr></thead>'
+    + '<tbody><tr><td>Wheelbase</td><td>1525 <i>mm</i></td></tr></tbody></table>';
+
+  assertEquals(htmlToText(html), 'Limits\n\nItem: Wheelbase | Limit: 1525 mm');
+});
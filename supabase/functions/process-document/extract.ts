@@ -0,0 +1,202 @@
+import { Buffer } from 'node:buffer';
+import { getDocumentProxy, extractImages } from 'npm:unpdf@0.12.1';
+import { encode as encodePng } from 'npm:fast-png@6.2.0';
+import { createWorker } from 'npm:tesseract.js@5.1.1';
+import mammoth from 'npm:mammoth@1.8.0';
+import * as XLSX from 'npm:xlsx@0.18.5';
+import { DOMParser, Element, Node, NodeType } from 'https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts';
+import { fromFileUrl } from 'https://deno.land/std@0.168.0/path/mod.ts';
+
+export interface ExtractedText {
+  text: string;
+  ocrPages: number[]; // pages whose text came from OCR
+  nextPage: number | null; // PDF page to continue from when the deadline was reached
+}
+
+export interface ExtractOptions {
+  startPage?: number; // PDFs: first page to read, when continuing an earlier run
+  deadline?: number; // PDFs: epoch ms after which no further page is started
+  ocrPageCount?: number; // PDFs: pages already OCRed in earlier runs, counted against MAX_OCR_PAGES
+}
+
+// Pages with less selectable text than this are treated as scanned images
+const MIN_PAGE_TEXT_LENGTH = 20;
+// OCR is slow; caps the work a fully scanned rulebook can cause
+const MAX_OCR_PAGES = 40;
+const OCR_LANGUAGE = 'eng';
+// eng.traineddata.gz from @tesseract.js-data/eng (4.0.0_best_int), deployed with the function so OCR
+// never downloads language data; the tesseract core comes from the tesseract.js npm dependencies
+const OCR_LANG_PATH = fromFileUrl(new URL('./tessdata', import.meta.url));
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'HEAD', 'SVG']);
+const BLOCK_TAGS = new Set(['P', 'DIV', 'SECTION', 'ARTICLE', 'HEADER', 'FOOTER', 'MAIN', 'ASIDE', 'UL', 'OL', 'PRE', 'BLOCKQUOTE', 'FIGURE', 'DL', 'DT', 'DD']);
+
+/**
+ * Text Extractor
+ * Turns the uploaded file into plain text; PDFs get "--- Page N ---" markers
+ * which the chunker uses for page metadata
+ */
+export async function extractDocumentText(file: Blob, mimeType: string, options: ExtractOptions = {}): Promise<ExtractedText> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  switch (mimeType) {
+    case 'application/pdf':
+      return await extractPdfText(bytes, options);
+    case 'text/plain':
+    case 'text/markdown':
+      // Markdown tables are already readable as text
+      return { text: new TextDecoder().decode(bytes), ocrPages: [], nextPage: null };
+    case 'text/html':
+      return { text: htmlToText(new TextDecoder().decode(bytes)), ocrPages: [], nextPage: null };
+    case DOCX_MIME_TYPE:
+      return { text: await extractDocxText(bytes), ocrPages: [], nextPage: null };
+    case XLSX_MIME_TYPE:
+      return { text: extractXlsxText(bytes), ocrPages: [], nextPage: null };
+    default:
+      throw new Error(`Unsupported file type: ${mimeType}`);
+  }
+}
+
+/**
+ * PDF Extractor
+ * Reads the text layer page by page and falls back to OCR for image-only pages.
+ * Stops at the deadline (after at least one page) and returns the page to continue from
+ */
+async function extractPdfText(bytes: Uint8Array, options: ExtractOptions): Promise<ExtractedText> {
+  const pdf = await getDocumentProxy(bytes);
+  const startPage = options.startPage ?? 1;
+  const ocrPages: number[] = [];
+  let ocrWorker: Awaited<ReturnType<typeof createWorker>> | null = null;
+  let fullText = '';
+
+  try {
+    for (let i = startPage; i <= pdf.numPages; i++) {
+      if (options.deadline && i > startPage && Date.now() > options.deadline) {
+        return { text: fullText, ocrPages, nextPage: i };
+      }
+
+      const page = await pdf.getPage(i);
+      const textContent = await page.getTextContent();
+
+      // Keep line breaks so rule headings ("T 7.1.3 ...") start their own line
+      let pageText = textContent.items
+        .map((item: any) => item.str + (item.hasEOL ? '\n' : ' '))
+        .join('');
+
+      if (pageText.trim().length < MIN_PAGE_TEXT_LENGTH) {
+        if ((options.ocrPageCount ?? 0) + ocrPages.length < MAX_OCR_PAGES) {
+          ocrWorker ??= await createWorker(OCR_LANGUAGE, undefined, { langPath: OCR_LANG_PATH, cacheMethod: 'none' });
+          const ocrText = await ocrPage(pdf, i, ocrWorker);
+          if (ocrText) {
+            pageText = ocrText;
+            ocrPages.push(i);
+          }
+        } else {
+          console.warn(`Skipping OCR for page ${i}, limit of ${MAX_OCR_PAGES} pages reached`);
+        }
+      }
+
+      fullText += `\n--- Page ${i} ---\n${pageText}\n`;
+    }
+  } finally {
+    if (ocrWorker) await ocrWorker.terminate();
+  }
+
+  return { text: fullText, ocrPages, nextPage: null };
+}
+
+// Runs OCR on the largest image of the page, which for a scanned page is the scan itself
+async function ocrPage(pdf: any, pageNumber: number, worker: Awaited<ReturnType<typeof createWorker>>): Promise<string> {
+  const images = await extractImages(pdf, pageNumber);
+  if (!images.length) return '';
+
+  const scan = images.reduce((largest, img) => img.width * img.height > largest.width * largest.height ? img : largest);
+  const png = encodePng({
+    width: scan.width,
+    height: scan.height,
+    data: scan.data,
+    channels: scan.channels,
+    depth: 8
+  });
+
+  const { data } = await worker.recognize(Buffer.from(png));
+  return data.text.trim();
+}
+
+// Converted to HTML rather than raw text so tables keep their rows and columns
+async function extractDocxText(bytes: Uint8Array): Promise<string> {
+  const { value: html } = await mammoth.convertToHtml({ buffer: Buffer.from(bytes) });
+  return htmlToText(html);
+}
+
+// One "--- Sheet: name ---" section per worksheet
+function extractXlsxText(bytes: Uint8Array): string {
+  const workbook = XLSX.read(bytes, { type: 'array' });
+
+  return workbook.SheetNames.map((sheetName) => {
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], { header: 1, raw: false, defval: '' });
+    const text = formatTable(rows.map((row) => row.map((cell) => String(cell ?? ''))));
+    return text ? `\n--- Sheet: ${sheetName} ---\n${text}\n` : '';
+  }).join('');
+}
+
+/**
+ * HTML to Text
+ * Keeps headings, paragraphs and list items on their own lines and flattens tables with formatTable
+ */
+export function htmlToText(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  if (!doc?.body) return '';
+
+  return nodeToText(doc.body)
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function nodeToText(node: Node): string {
+  if (node.nodeType === NodeType.TEXT_NODE) return (node.textContent ?? '').replace(/\s+/g, ' ');
+  if (node.nodeType !== NodeType.ELEMENT_NODE) return '';
+
+  const el = node as Element;
+  const tag = el.tagName;
+  if (SKIPPED_TAGS.has(tag)) return '';
+  if (tag === 'BR') return '\n';
+  if (tag === 'TABLE') return `\n${formatTable(tableRows(el))}\n`;
+
+  const inner = Array.from(el.childNodes).map(nodeToText).join('');
+  if (/^H[1-6]$/.test(tag)) return `\n\n${inner.trim()}\n`;
+  if (tag === 'LI') return `\n- ${inner.trim()}`;
+  if (BLOCK_TAGS.has(tag)) return `\n${inner.trim()}\n`;
+  return inner;
+}
+
+function tableRows(table: Element): string[][] {
+  return Array.from(table.querySelectorAll('tr')).map((row) =>
+    Array.from((row as Element).children)
+      .filter((cell) => cell.tagName === 'TD' || cell.tagName === 'TH')
+      .map((cell) => nodeToText(cell).replace(/\s+/g, ' ').trim())
+  );
+}
+
+/**
+ * Table Formatter
+ * The first row is taken as the header and every other row becomes "Header: value | Header: value",
+ * which stays understandable when a chunk holds only part of the table
+ */
+export function formatTable(rows: string[][]): string {
+  const filled = rows.map((row) => row.map((cell) => cell.trim())).filter((row) => row.some(Boolean));
+  if (filled.length === 0) return '';
+  if (filled.length === 1) return filled[0].filter(Boolean).join(' | ');
+
+  const [header, ...body] = filled;
+  return body.map((row) =>
+    row
+      .map((cell, idx) => (cell && header[idx] ? `${header[idx]}: ${cell}` : cell))
+      .filter(Boolean)
+      .join(' | ')
+  ).join('\n');
+}
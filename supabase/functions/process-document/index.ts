@@ -1,12 +1,27 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-import { GoogleGenerativeAI, TaskType } from 'npm:@google/generative-ai@0.24.1';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { chunkDocument, findMarkers, markerAt, firstMarkerIn, PAGE_MARKER_PATTERN, SECTION_REF_PATTERN } from './chunking.ts';
+import { extractDocumentText } from './extract.ts';
+import { getLlmProvider, LlmProvider } from '../_shared/llm.ts';
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
 };
 
+const BATCH_SIZE = 20; // Reduced batch size for stability
+// Stop well before the edge function wall-clock limit and continue in a fresh invocation
+const RUN_TIME_BUDGET_MS = 100_000;
+// A job that is still "active" but has not moved for this long was killed and can be retried
+const STALE_JOB_MS = 5 * 60 * 1000;
+const ACTIVE_STATUSES = ['queued', 'extracting', 'embedding'];
+// Statuses a job is handed to a fresh invocation in
+const CONTINUABLE_STATUSES = ['extracting', 'embedding'];
+// Raised by check_section_embedding_model when the active model changed during a batch
+const STALE_MODEL_ERROR = '40001';
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
 
@@ -16,115 +31,382 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    const { name, content, file_path, file_size, mime_type, uploaded_by } = await req.json();
+    const { job_id, continue: isContinuation = false, lease, name, file_path, file_size, mime_type, uploaded_by, content_hash } = await req.json();
+
+    // New upload -> queue a job; job_id -> retry (or continuation of) an existing job
+    let job;
+    if (job_id && isContinuation) {
+      // Continuations come from continueJob only
+      if (req.headers.get('Authorization') !== `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`) {
+        throw new Error('Continuations are only accepted from the function itself');
+      }
+      job = await claimContinuation(supabase, job_id, lease);
+    } else if (job_id) {
+      job = await claimJob(supabase, job_id);
+    } else {
+      if (content_hash) {
+        const { data: duplicate } = await supabase
+          .from('documents')
+          .select('name')
+          .eq('content_hash', content_hash)
+          .limit(1)
+          .maybeSingle();
+
+        if (duplicate) throw new Error(`Duplicate of "${duplicate.name}"`);
+      }
+
+      const { data, error } = await supabase
+        .from('ingestion_jobs')
+        .insert({ name, file_path, file_size, mime_type, content_hash, created_by: uploaded_by })
+        .select()
+        .single();
+
+      if (error) throw error;
+      job = data;
+    }
+
+    // Respond right away, progress is reported through the ingestion_jobs row
+    EdgeRuntime.waitUntil(runJob(supabase, job));
+
+    return new Response(JSON.stringify({ success: true, job_id: job.id }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200
+    });
+
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 400
+    });
+  }
+});
+
+/**
+ * Job Claim
+ * Only failed or stalled jobs can be retried; the updated_at check stops two runs
+ * from picking up the same job. The new lease makes pending continuations of the
+ * stalled run invalid
+ */
+async function claimJob(supabase: SupabaseClient, jobId: string) {
+  const { data: job, error } = await supabase
+    .from('ingestion_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .single();
+
+  if (error) throw error;
+
+  const isStale = Date.now() - new Date(job.updated_at).getTime() > STALE_JOB_MS;
+  const claimable = job.status === 'failed' || (ACTIVE_STATUSES.includes(job.status) && isStale);
+  if (!claimable) throw new Error(`Job is ${job.status} and cannot be resumed`);
+
+  const { data: claimed, error: claimError } = await supabase
+    .from('ingestion_jobs')
+    .update({ status: 'queued', error: null, attempts: job.attempts + 1, lease: crypto.randomUUID() })
+    .eq('id', jobId)
+    .eq('updated_at', job.updated_at)
+    .select()
+    .maybeSingle();
+
+  if (claimError) throw claimError;
+  if (!claimed) throw new Error('Job is already being processed');
+  return claimed;
+}
+
+/**
+ * Continuation Claim
+ * Only the run that handed the job off knows its lease. Claiming replaces the lease
+ * in the same update, so a repeated or forged continuation cannot start a second runner
+ */
+async function claimContinuation(supabase: SupabaseClient, jobId: string, lease: unknown) {
+  if (typeof lease !== 'string' || !lease) throw new Error('Continuations need the job lease');
+
+  const { data: claimed, error } = await supabase
+    .from('ingestion_jobs')
+    .update({ lease: crypto.randomUUID() })
+    .eq('id', jobId)
+    .eq('lease', lease)
+    .in('status', CONTINUABLE_STATUSES)
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!claimed) throw new Error('Job is not waiting for this continuation');
+  return claimed;
+}
 
-    // 1. Save Document Metadata
-    const { data: docData, error: docError } = await supabase
+/**
+ * Job Runner
+ * extracting -> embedding -> done, resuming after the last extracted page or stored batch
+ */
+async function runJob(supabase: SupabaseClient, job: any) {
+  const startedAt = Date.now();
+
+  try {
+    // 1. Extract Text and Save Document Metadata (skipped when resuming)
+    let documentId = job.document_id;
+    if (!documentId) {
+      await updateJob(supabase, job.id, { status: 'extracting' });
+      documentId = await createDocument(supabase, job, startedAt + RUN_TIME_BUDGET_MS);
+      if (!documentId) {
+        console.log(`Time budget used, continuing text extraction of ${job.name}`);
+        await continueJob(supabase, job);
+        return;
+      }
+      await linkDocument(supabase, job, documentId);
+    }
+
+    const { data: doc, error: docError } = await supabase
       .from('documents')
-      .insert({
-        name,
-        content, // Full text stored for reference
-        file_path,
-        file_size,
-        mime_type,
-        uploaded_by,
-      })
-      .select()
+      .select('content')
+      .eq('id', documentId)
       .single();
 
     if (docError) throw docError;
 
-    // 2. Chunk Text
-    const chunks = splitTextIntoChunks(content);
-    console.log(`Processing ${chunks.length} chunks for ${name} in batches...`);
+    // 2. Chunk Text (rule by rule for rulebooks)
+    const chunks = chunkDocument(doc.content);
+    const pageMarkers = findMarkers(doc.content, PAGE_MARKER_PATTERN, (m) => parseInt(m[1]));
+    const sectionMarkers = findMarkers(doc.content, SECTION_REF_PATTERN, (m) => m[1].replace(/\s+/g, ' '));
 
-    const apiKey = Deno.env.get('GEMINI_API_KEY');
-    if (!apiKey) throw new Error('GEMINI_API_KEY not set');
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: "text-embedding-004" });
+    // Each batch is a single insert, so the stored rows tell where to resume
+    const { count: processed, error: countError } = await supabase
+      .from('document_sections')
+      .select('id', { count: 'exact', head: true })
+      .eq('document_id', documentId);
+
+    if (countError) throw countError;
+
+    await updateJob(supabase, job.id, { status: 'embedding', total_chunks: chunks.length, processed_chunks: processed ?? 0 });
+    console.log(`Processing ${chunks.length - (processed ?? 0)} of ${chunks.length} chunks for ${job.name} in batches...`);
+
+    const llm = getLlmProvider();
 
     // 3. Batch Process Embeddings
-    const BATCH_SIZE = 20; // Reduced batch size for stability
-    
-    for (let i = 0; i < chunks.length; i += BATCH_SIZE) {
+    for (let i = processed ?? 0; i < chunks.length; i += BATCH_SIZE) {
+      if (Date.now() - startedAt > RUN_TIME_BUDGET_MS) {
+        console.log(`Time budget used, continuing ${job.name} from chunk ${i}`);
+        await continueJob(supabase, job);
+        return;
+      }
+
       const batchChunks = chunks.slice(i, i + BATCH_SIZE);
-      
-      // Prepare requests for Gemini
-      const requests = batchChunks.map(text => ({
-        content: { role: "user", parts: [{ text: text.replace(/\n/g, ' ') }] },
-        taskType: TaskType.RETRIEVAL_DOCUMENT,
-        title: name
-      }));
+      // Read per batch, reembed-documents may switch the model while a long upload runs
+      const embeddingModel = await loadEmbeddingModel(supabase, llm);
 
       console.log(`Embedding batch ${i} - ${i + batchChunks.length}...`);
 
-      const batchResult = await model.batchEmbedContents({ requests });
-      const embeddings = batchResult.embeddings;
+      const embeddings = await llm.embed(batchChunks.map(chunk => chunk.content.replace(/\n/g, ' ')), {
+        model: embeddingModel,
+        taskType: 'document',
+        titles: batchChunks.map(() => job.name)
+      });
 
       // Prepare Data for Insertion
       // IMPORTANT: Ensure embedding is treated as a vector
       const sectionsToInsert = batchChunks.map((chunk, idx) => ({
-        document_id: docData.id,
-        content: chunk,
+        document_id: documentId,
+        content: chunk.content,
         // Postgres vector expects a simple array, Supabase client handles the casting
         // if the table column type is 'vector'.
-        embedding: embeddings[idx].values 
+        embedding: embeddings[idx],
+        embedding_model: embeddingModel,
+        // Rulebook structure
+        rule_id: chunk.rule_id,
+        section_path: chunk.section_path,
+        page: chunk.page,
+        // Citation metadata
+        page_start: chunk.page,
+        page_end: markerAt(pageMarkers, chunk.end - 1),
+        section_ref: chunk.rule_id ?? firstMarkerIn(sectionMarkers, chunk.start, chunk.end) ?? markerAt(sectionMarkers, chunk.start),
+        // Source text of the chunk, used to compare rules between versions
+        char_start: chunk.start,
+        char_end: chunk.end
       }));
 
       const { error: sectionError } = await supabase
         .from('document_sections')
         .insert(sectionsToInsert);
-        
+
+      if (sectionError?.code === STALE_MODEL_ERROR) {
+        console.log(`Embedding model switched, embedding batch ${i} again`);
+        i -= BATCH_SIZE;
+        continue;
+      }
       if (sectionError) throw sectionError;
+
+      await updateJob(supabase, job.id, { processed_chunks: i + batchChunks.length });
     }
 
-    return new Response(JSON.stringify({ success: true, id: docData.id }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      status: 200
-    });
+    // 4. Flag documents this one mostly repeats, before the upload is reported as done
+    await flagNearDuplicates(supabase, documentId);
 
+    await updateJob(supabase, job.id, { status: 'done' });
   } catch (error) {
-    console.error('Error:', error);
-    return new Response(JSON.stringify({ error: error.message }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      status: 400
-    });
+    console.error(`Ingestion job ${job.id} failed:`, error);
+    // Skipped when another run holds the job by now
+    await updateJob(supabase, job.id, { status: 'failed', error: error.message }, job.lease);
   }
-});
+}
 
 /**
- * Semantic Splitter
- * Tries to break at sensible boundaries (Paragraphs > Sentences > Words)
+ * Document Creation
+ * Extracts the text and inserts the document. A PDF that is not done by the deadline
+ * (scanned pages are slow to OCR) is saved to ingestion_extracts and null is returned,
+ * the next run continues from the saved page
  */
-function splitTextIntoChunks(text: string): string[] {
-  const chunkSize = 1000;
-  const overlap = 200;
-  const chunks: string[] = [];
-  
-  let i = 0;
-  while (i < text.length) {
-    let end = Math.min(i + chunkSize, text.length);
-    
-    // Try to break at a paragraph or sentence end
-    if (end < text.length) {
-      const nextDoubleNewline = text.lastIndexOf('\n\n', end);
-      const nextNewline = text.lastIndexOf('\n', end);
-      const nextDot = text.lastIndexOf('. ', end);
-      
-      if (nextDoubleNewline > i + (chunkSize * 0.5)) end = nextDoubleNewline;
-      else if (nextNewline > i + (chunkSize * 0.6)) end = nextNewline;
-      else if (nextDot > i + (chunkSize * 0.7)) end = nextDot + 1;
-    }
+async function createDocument(supabase: SupabaseClient, job: any, deadline: number): Promise<string | null> {
+  const { data: file, error: downloadError } = await supabase.storage
+    .from('documents')
+    .download(job.file_path);
 
-    const chunk = text.slice(i, end).trim();
-    if (chunk.length > 50) { 
-      chunks.push(chunk);
-    }
-    
-    i = end - overlap;
-    if (i < 0) i = 0;
-    if (end === text.length) break;
+  if (downloadError) throw downloadError;
+
+  const { data: partial, error: partialError } = await supabase
+    .from('ingestion_extracts')
+    .select('content, next_page, ocr_pages')
+    .eq('job_id', job.id)
+    .maybeSingle();
+
+  if (partialError) throw partialError;
+
+  const extracted = await extractDocumentText(file, job.mime_type, {
+    startPage: partial?.next_page,
+    deadline,
+    ocrPageCount: partial?.ocr_pages.length
+  });
+  const content = (partial?.content ?? '') + extracted.text;
+  const ocrPages = [...(partial?.ocr_pages ?? []), ...extracted.ocrPages];
+
+  if (extracted.nextPage) {
+    const { error: saveError } = await supabase
+      .from('ingestion_extracts')
+      .upsert({ job_id: job.id, content, next_page: extracted.nextPage, ocr_pages: ocrPages });
+
+    if (saveError) throw saveError;
+    return null;
+  }
+
+  if (!content.replace(/--- Page \d+ ---/g, '').trim()) {
+    throw new Error('No text could be extracted from this document');
+  }
+  if (ocrPages.length) console.log(`OCR used for ${ocrPages.length} page(s) of ${job.name}`);
+
+  const { data: docData, error: docError } = await supabase
+    .from('documents')
+    .insert({
+      name: job.name,
+      content, // Full text stored for reference
+      file_path: job.file_path,
+      file_size: job.file_size,
+      mime_type: job.mime_type,
+      content_hash: job.content_hash,
+      uploaded_by: job.created_by,
+    })
+    .select()
+    .single();
+
+  if (docError) throw docError;
+
+  // The document holds the full text now
+  if (partial) await supabase.from('ingestion_extracts').delete().eq('job_id', job.id);
+  return docData.id;
+}
+
+/**
+ * Near-Duplicate Check
+ * Compares the new sections with the existing ones; the admin decides in the
+ * Documents page whether to merge, replace or keep both
+ */
+async function flagNearDuplicates(supabase: SupabaseClient, documentId: string) {
+  const { data: matches, error } = await supabase.rpc('find_near_duplicate_documents', {
+    target_document_id: documentId
+  });
+
+  // A failed check must not fail an otherwise complete upload
+  if (error) {
+    console.error(`Near-duplicate check failed for document ${documentId}:`, error);
+    return;
+  }
+  if (!matches?.length) return;
+
+  const { error: insertError } = await supabase
+    .from('document_duplicates')
+    .upsert(matches.map((match) => ({ document_id: documentId, ...match })), { onConflict: 'document_id,duplicate_of' });
+
+  if (insertError) console.error(`Failed to flag near-duplicates of document ${documentId}:`, insertError);
+}
+
+// The active model is switched by reembed-documents once all sections use the new one
+async function loadEmbeddingModel(supabase: SupabaseClient, llm: LlmProvider): Promise<string> {
+  const { data, error } = await supabase
+    .from('app_settings')
+    .select('value')
+    .eq('key', 'embedding')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.value?.model || llm.models.embedding;
+}
+
+/**
+ * Document Link
+ * Retries and continuations skip extraction once the job has a document_id, so the
+ * link must be stored; if it is not, the new document is removed before the run fails
+ * and the next run extracts it again instead of inserting a second copy
+ */
+async function linkDocument(supabase: SupabaseClient, job: any, documentId: string) {
+  const { data: linked, error } = await supabase
+    .from('ingestion_jobs')
+    .update({ document_id: documentId })
+    .eq('id', job.id)
+    .eq('lease', job.lease)
+    .select('id')
+    .maybeSingle();
+
+  if (error || !linked) {
+    const { error: deleteError } = await supabase.from('documents').delete().eq('id', documentId);
+    if (deleteError) console.error(`Failed to remove unlinked document ${documentId}:`, deleteError);
+    throw error ?? new Error('Job was taken over by another run');
   }
-  
-  return chunks;
-}
\ No newline at end of file
+}
+
+async function updateJob(supabase: SupabaseClient, jobId: string, fields: Record<string, unknown>, lease?: string) {
+  let query = supabase
+    .from('ingestion_jobs')
+    .update(fields)
+    .eq('id', jobId);
+  if (lease) query = query.eq('lease', lease);
+
+  const { error } = await query;
+
+  if (error) console.error(`Failed to update ingestion job ${jobId}:`, error);
+}
+
+// Hands the job to a fresh invocation, which gets its own time limit, under a new lease
+async function continueJob(supabase: SupabaseClient, job: any) {
+  const lease = crypto.randomUUID();
+  const { data: handedOff, error } = await supabase
+    .from('ingestion_jobs')
+    .update({ lease })
+    .eq('id', job.id)
+    .eq('lease', job.lease)
+    .select('id')
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!handedOff) throw new Error('Job was taken over by another run');
+  job.lease = lease;
+
+  const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/process-document`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`
+    },
+    body: JSON.stringify({ job_id: job.id, continue: true, lease })
+  });
+
+  if (!response.ok) throw new Error(`Failed to continue job: ${await response.text()}`);
+}
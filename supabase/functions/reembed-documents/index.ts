@@ -0,0 +1,252 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getLlmProvider } from '../_shared/llm.ts';
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const BATCH_SIZE = 20;
+// Stop well before the edge function wall-clock limit and continue in a fresh invocation
+const RUN_TIME_BUDGET_MS = 100_000;
+// A job that is still "active" but has not moved for this long was killed and can be replaced
+const STALE_JOB_MS = 5 * 60 * 1000;
+// document_sections.embedding is vector(768)
+const EMBEDDING_DIMENSIONS = 768;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { model, job_id, continue: isContinuation = false, lease } = await req.json();
+
+    // New job -> admin only; job_id + continue -> hand-over from a previous run
+    let job;
+    if (isContinuation) {
+      // Continuations come from continueJob only
+      if (req.headers.get('Authorization') !== `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`) {
+        throw new Error('Continuations are only accepted from the function itself');
+      }
+      job = await claimJob(supabase, job_id, lease);
+    } else {
+      const userId = await requireAdmin(supabase, req);
+      if (typeof model !== 'string' || !model.trim()) throw new Error('model is required');
+      await assertNoActiveJob(supabase);
+
+      // Fail fast on unknown models or a dimension the vector column cannot hold
+      await embedBatch(model.trim(), ['Formula Student']);
+
+      const { count, error: countError } = await outdatedSections(supabase, model.trim(), 'id', { count: 'exact', head: true });
+      if (countError) throw countError;
+
+      const { data, error } = await supabase
+        .from('reembed_jobs')
+        .insert({ model: model.trim(), total_sections: count ?? 0, created_by: userId })
+        .select()
+        .single();
+
+      if (error) throw error;
+      job = data;
+    }
+
+    // Respond right away, progress is reported through the reembed_jobs row
+    EdgeRuntime.waitUntil(runJob(supabase, job));
+
+    return new Response(JSON.stringify({ success: true, job_id: job.id }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200
+    });
+
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 400
+    });
+  }
+});
+
+async function requireAdmin(supabase: SupabaseClient, req: Request): Promise<string> {
+  const token = (req.headers.get('Authorization') ?? '').replace('Bearer ', '');
+  const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+  if (authError || !user) throw new Error('Invalid authentication');
+
+  const { data: adminCheck, error: adminError } = await supabase
+    .from('users')
+    .select('is_admin')
+    .eq('id', user.id)
+    .single();
+
+  if (adminError || !adminCheck?.is_admin) throw new Error('Insufficient permissions');
+  return user.id;
+}
+
+async function assertNoActiveJob(supabase: SupabaseClient) {
+  const { data: active, error } = await supabase
+    .from('reembed_jobs')
+    .select('id, updated_at')
+    .in('status', ['queued', 'running']);
+
+  if (error) throw error;
+  const running = (active || []).some((job) => Date.now() - new Date(job.updated_at).getTime() <= STALE_JOB_MS);
+  if (running) throw new Error('A re-embedding job is already running');
+}
+
+/**
+ * Job Claim
+ * Continuations only pick up running jobs, with the lease of the run that handed the
+ * job off. Claiming replaces the lease in the same update, so a repeated continuation
+ * cannot start a second runner
+ */
+async function claimJob(supabase: SupabaseClient, jobId: unknown, lease: unknown) {
+  if (typeof jobId !== 'string' || typeof lease !== 'string' || !lease) throw new Error('Continuations need the job id and lease');
+
+  const { data: claimed, error } = await supabase
+    .from('reembed_jobs')
+    .update({ lease: crypto.randomUUID() })
+    .eq('id', jobId)
+    .eq('lease', lease)
+    .eq('status', 'running')
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!claimed) throw new Error('Job is not waiting for this continuation');
+  return claimed;
+}
+
+/**
+ * Job Runner
+ * Stages new vectors for the sections that still carry another model, batch by batch,
+ * and switches all sections and the active model at once when none are left. Search
+ * keeps using the old vectors until then. Sections uploaded meanwhile are picked up
+ * by the same query.
+ */
+async function runJob(supabase: SupabaseClient, job: any) {
+  const startedAt = Date.now();
+  let processed = job.processed_sections ?? 0;
+
+  try {
+    await updateJob(supabase, job.id, { status: 'running' });
+
+    while (true) {
+      if (Date.now() - startedAt > RUN_TIME_BUDGET_MS) {
+        console.log(`Time budget used, continuing re-embedding job ${job.id} after ${processed} sections`);
+        await continueJob(supabase, job);
+        return;
+      }
+
+      const { data: sections, error } = await outdatedSections(supabase, job.model, 'id, content, documents(name)')
+        .order('id')
+        .limit(BATCH_SIZE);
+
+      if (error) throw error;
+      if (!sections || sections.length === 0) {
+        // Uploads that came in after the last batch are embedded before switching
+        const { data: missing, error: switchError } = await supabase.rpc('activate_staged_embeddings', {
+          target_model: job.model,
+          switched_by: job.created_by
+        });
+
+        if (switchError) throw switchError;
+        if (missing === 0) break;
+        continue;
+      }
+
+      const embeddings = await embedBatch(
+        job.model,
+        sections.map((section: any) => section.content),
+        sections.map((section: any) => section.documents?.name)
+      );
+
+      const results = await Promise.all(sections.map((section: any, idx: number) =>
+        supabase
+          .from('document_sections')
+          .update({ staged_embedding: embeddings[idx], staged_embedding_model: job.model })
+          .eq('id', section.id)
+      ));
+
+      const failed = results.find((result) => result.error);
+      if (failed) throw failed.error;
+
+      processed += sections.length;
+      await updateJob(supabase, job.id, { processed_sections: processed });
+    }
+
+    await updateJob(supabase, job.id, { status: 'done' });
+  } catch (error) {
+    console.error(`Re-embedding job ${job.id} failed:`, error);
+    // Skipped when another run holds the job by now
+    await updateJob(supabase, job.id, { status: 'failed', error: error.message }, job.lease);
+  }
+}
+
+// Sections neither embedded nor staged with `model`
+function outdatedSections(supabase: SupabaseClient, model: string, columns: string, options?: { count: 'exact'; head: boolean }) {
+  return supabase
+    .from('document_sections')
+    .select(columns, options)
+    .or(`embedding_model.is.null,embedding_model.neq."${model}"`)
+    .or(`staged_embedding_model.is.null,staged_embedding_model.neq."${model}"`);
+}
+
+async function embedBatch(model: string, texts: string[], titles: (string | undefined)[] = []): Promise<number[][]> {
+  const embeddings = await getLlmProvider().embed(texts.map((text) => text.replace(/\n/g, ' ')), {
+    model,
+    taskType: 'document',
+    titles
+  });
+
+  const wrongSize = embeddings.find((embedding) => embedding.length !== EMBEDDING_DIMENSIONS);
+  if (wrongSize) {
+    throw new Error(`${model} returns ${wrongSize.length}-dimensional embeddings, document_sections holds ${EMBEDDING_DIMENSIONS}`);
+  }
+  return embeddings;
+}
+
+async function updateJob(supabase: SupabaseClient, jobId: string, fields: Record<string, unknown>, lease?: string) {
+  let query = supabase
+    .from('reembed_jobs')
+    .update(fields)
+    .eq('id', jobId);
+  if (lease) query = query.eq('lease', lease);
+
+  const { error } = await query;
+
+  if (error) console.error(`Failed to update re-embedding job ${jobId}:`, error);
+}
+
+// Hands the job to a fresh invocation, which gets its own time limit, under a new lease
+async function continueJob(supabase: SupabaseClient, job: any) {
+  const lease = crypto.randomUUID();
+  const { data: handedOff, error } = await supabase
+    .from('reembed_jobs')
+    .update({ lease })
+    .eq('id', job.id)
+    .eq('lease', job.lease)
+    .select('id')
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!handedOff) throw new Error('Job was taken over by another run');
+  job.lease = lease;
+
+  const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/reembed-documents`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`
+    },
+    body: JSON.stringify({ job_id: job.id, continue: true, lease })
+  });
+
+  if (!response.ok) throw new Error(`Failed to continue job: ${await response.text()}`);
+}
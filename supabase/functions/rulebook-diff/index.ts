@@ -0,0 +1,164 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getLlmProvider } from '../_shared/llm.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+// Keeps the summary prompt and the quiz context at a sensible size
+const MAX_SUMMARIZED_CHANGES = 80;
+const MAX_QUIZ_RULES = 60;
+const MAX_RULE_CHARS = 1500;
+
+type ChangeType = 'added' | 'removed' | 'modified';
+
+interface RuleChange {
+  rule_id: string;
+  change_type: ChangeType;
+  before: string | null;
+  after: string | null;
+  summary: string | null;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const {
+      baseDocumentId,
+      targetDocumentId,
+      summarize = true,
+      generateQuiz = false,
+      questionCount = 10
+    } = await req.json();
+
+    if (!baseDocumentId || !targetDocumentId) throw new Error('baseDocumentId and targetDocumentId are required');
+    if (baseDocumentId === targetDocumentId) throw new Error('Choose two different documents to compare');
+
+    // 1. Load both rulebooks
+    const { data: documents, error: docError } = await supabase
+      .from('documents')
+      .select('id, name, season, version')
+      .in('id', [baseDocumentId, targetDocumentId]);
+
+    if (docError) throw docError;
+    const base = documents?.find((doc) => doc.id === baseDocumentId);
+    const target = documents?.find((doc) => doc.id === targetDocumentId);
+    if (!base || !target) throw new Error('Document not found');
+
+    // 2. Align rules by rule number (document_sections.rule_id)
+    const { data: rows, error: diffError } = await supabase.rpc('compare_document_versions', {
+      base_document_id: baseDocumentId,
+      target_document_id: targetDocumentId
+    });
+
+    if (diffError) throw diffError;
+
+    const changes: RuleChange[] = (rows || []).map((row) => ({
+      rule_id: row.rule_id,
+      change_type: row.change_type === 'changed' ? 'modified' : row.change_type,
+      before: row.base_content,
+      after: row.target_content,
+      summary: null
+    }));
+
+    // 3. Describe what changed in each modified rule
+    if (summarize && changes.some((c) => c.change_type === 'modified')) {
+      try {
+        const summaries = await summarizeChanges(changes.filter((c) => c.change_type === 'modified'));
+        for (const change of changes) change.summary = summaries.get(change.rule_id) ?? null;
+      } catch (summaryError) {
+        // The changelog is still useful without summaries
+        console.error('Change summaries failed:', summaryError);
+      }
+    }
+
+    const summary = {
+      added: changes.filter((c) => c.change_type === 'added').length,
+      removed: changes.filter((c) => c.change_type === 'removed').length,
+      modified: changes.filter((c) => c.change_type === 'modified').length,
+      total: changes.length
+    };
+
+    // 4. Optional focused question set on the modified rules
+    let quiz = null;
+    if (generateQuiz) {
+      const modified = changes.filter((c) => c.change_type === 'modified').slice(0, MAX_QUIZ_RULES);
+      if (modified.length === 0) throw new Error('No modified rules to build a quiz from');
+      quiz = await requestChangeQuiz(modified, questionCount);
+    }
+
+    return new Response(JSON.stringify({ base, target, summary, changes, quiz }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200
+    });
+
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 400
+    });
+  }
+});
+
+/**
+ * Change Summaries
+ * One short sentence per modified rule, keyed by rule id
+ */
+async function summarizeChanges(changes: RuleChange[]): Promise<Map<string, string>> {
+  const ruleList = changes.slice(0, MAX_SUMMARIZED_CHANGES).map((c) =>
+    `RULE ${c.rule_id}\nOLD: ${truncate(c.before)}\nNEW: ${truncate(c.after)}`
+  ).join('\n\n');
+
+  const prompt = `You compare two seasons of the Formula Student rulebook.
+For each rule below, describe in one short sentence what changed from OLD to NEW
+(e.g. "Minimum tube wall thickness raised from 1.2 mm to 1.6 mm").
+Ignore pure formatting or renumbering changes and say "Wording only" for them.
+
+${ruleList}
+
+Return a JSON array: [{"rule_id": "T 7.1.2", "summary": "..."}]`;
+
+  const parsed = await getLlmProvider().generateJson<any[]>(prompt, { temperature: 0.1 });
+  if (!Array.isArray(parsed)) throw new Error('Summary response is not an array');
+
+  return new Map(parsed
+    .filter((item) => item && typeof item.rule_id === 'string' && typeof item.summary === 'string')
+    .map((item) => [item.rule_id, item.summary]));
+}
+
+// generate-quiz builds its context from changedRules instead of whole documents
+async function requestChangeQuiz(changes: RuleChange[], count: number) {
+  const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/generate-quiz`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`
+    },
+    body: JSON.stringify({
+      count,
+      changedRules: changes.map((c) => ({
+        rule_id: c.rule_id,
+        before: truncate(c.before),
+        after: truncate(c.after),
+        summary: c.summary
+      }))
+    })
+  });
+
+  if (!response.ok) throw new Error(`generate-quiz failed: ${await response.text()}`);
+  return await response.json();
+}
+
+function truncate(text: string | null): string {
+  if (!text) return '';
+  return text.length > MAX_RULE_CHARS ? `${text.slice(0, MAX_RULE_CHARS)}...` : text;
+}
@@ -0,0 +1,134 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getLlmProvider } from '../_shared/llm.ts';
+import { classifyQuestions } from '../_shared/topics.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/**
+ * Question Tagging
+ * Tags untagged question_bank rows with a topic from the `topics` table. Called after
+ * a question bank import with the new ids, and from the admin page without ids to
+ * work through the untagged backlog; callers repeat while questions get processed
+ * and `remaining` is above 0. Questions the classifier returns no topic for are marked
+ * `llm_failed` and left to the admins.
+ * Rows that already have a topic are never touched, re-tagging is done by admins.
+ * Admins only: the function writes question_bank with the service role.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    await requireAdmin(supabase, req);
+
+    const { question_ids, limit = DEFAULT_LIMIT } = await req.json();
+    if (question_ids !== undefined && !Array.isArray(question_ids)) throw new Error('question_ids must be an array');
+    const batchLimit = Math.max(1, Math.min(MAX_LIMIT, Number(limit) || DEFAULT_LIMIT));
+
+    const { data: topics, error: topicError } = await supabase
+      .from('topics')
+      .select('slug, name, description')
+      .order('sort_order');
+    if (topicError) throw topicError;
+
+    const untagged = (columns: string, options?: { count: 'exact'; head: true }) => {
+      let query = supabase.from('question_bank').select(columns, options).is('topic', null).is('topic_source', null);
+      if (question_ids) query = query.in('id', question_ids);
+      return query;
+    };
+
+    const { data: rows, error } = await untagged('id, question_text, options').order('id').limit(batchLimit);
+    if (error) throw error;
+
+    let tagged = 0;
+    let failed = 0;
+    if (rows.length > 0) {
+      const llm = getLlmProvider();
+      const tags = await classifyQuestions(llm, rows.map(row => ({
+        question: row.question_text,
+        options: optionTexts(row.options)
+      })), topics);
+
+      // One update per topic instead of one per row
+      const idsByTopic = new Map<string, unknown[]>();
+      const failedIds: unknown[] = [];
+      rows.forEach((row, index) => {
+        const topic = tags[index];
+        if (topic) idsByTopic.set(topic, [...(idsByTopic.get(topic) ?? []), row.id]);
+        else failedIds.push(row.id);
+      });
+
+      for (const [topic, ids] of idsByTopic) {
+        const { error: updateError } = await supabase
+          .from('question_bank')
+          .update({ topic, topic_source: 'llm' })
+          .in('id', ids)
+          .is('topic', null);
+        if (updateError) throw updateError;
+        tagged += ids.length;
+      }
+
+      // Otherwise they would come first in every later batch
+      if (failedIds.length > 0) {
+        const { error: failedError } = await supabase
+          .from('question_bank')
+          .update({ topic_source: 'llm_failed' })
+          .in('id', failedIds)
+          .is('topic', null);
+        if (failedError) throw failedError;
+        failed = failedIds.length;
+      }
+    }
+
+    const { count: remaining, error: countError } = await untagged('id', { count: 'exact', head: true });
+    if (countError) throw countError;
+
+    console.log(`🏷️ Tagged ${tagged} of ${rows.length} questions (${failed} not classifiable), ${remaining} untagged left`);
+    return new Response(JSON.stringify({ tagged, failed, processed: rows.length, remaining: remaining ?? 0 }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200
+    });
+
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 400
+    });
+  }
+});
+
+async function requireAdmin(supabase: SupabaseClient, req: Request): Promise<string> {
+  const token = (req.headers.get('Authorization') ?? '').replace('Bearer ', '');
+  const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+  if (authError || !user) throw new Error('Invalid authentication');
+
+  const { data: adminCheck, error: adminError } = await supabase
+    .from('users')
+    .select('is_admin')
+    .eq('id', user.id)
+    .single();
+
+  if (adminError || !adminCheck?.is_admin) throw new Error('Insufficient permissions');
+  return user.id;
+}
+
+// question_bank.options is a (sometimes stringified) array of { text, is_correct }
+function optionTexts(options: unknown): string[] {
+  let parsed = options;
+  if (typeof parsed === 'string') {
+    try { parsed = JSON.parse(parsed); } catch { return []; }
+  }
+  return Array.isArray(parsed) ? parsed.map((option) => String(option?.text ?? '')).filter(Boolean) : [];
+}
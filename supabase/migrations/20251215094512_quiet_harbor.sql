@@ -0,0 +1,140 @@
+/*
+  # Persist Q&A chat conversations
+
+  1. New Tables
+    - `chat_threads`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `title` (text)
+      - `is_shared` (boolean) - shared threads are readable by every signed-in user
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+    - `chat_messages`
+      - `id` (uuid, primary key)
+      - `thread_id` (uuid, references chat_threads)
+      - `content` (text)
+      - `is_user` (boolean)
+      - `sources` (jsonb) - sources returned by chat-rag for assistant turns
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on both tables
+    - Owners have full access to their threads and messages
+    - Shared threads and their messages are readable by authenticated users
+
+  3. Triggers
+    - Bump `chat_threads.updated_at` on update and whenever a message is added
+*/
+
+CREATE TABLE IF NOT EXISTS chat_threads (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title text NOT NULL DEFAULT 'New conversation',
+  is_shared boolean DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS chat_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  thread_id uuid NOT NULL REFERENCES chat_threads(id) ON DELETE CASCADE,
+  content text NOT NULL,
+  is_user boolean NOT NULL DEFAULT false,
+  sources jsonb DEFAULT '[]'::jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE chat_threads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_messages ENABLE ROW LEVEL SECURITY;
+
+-- Chat threads policies
+CREATE POLICY "Users can view their own or shared threads"
+  ON chat_threads
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id OR is_shared = true);
+
+CREATE POLICY "Users can create their own threads"
+  ON chat_threads
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own threads"
+  ON chat_threads
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own threads"
+  ON chat_threads
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Chat messages policies
+CREATE POLICY "Users can view messages in their own or shared threads"
+  ON chat_messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM chat_threads ct
+      WHERE ct.id = chat_messages.thread_id
+      AND (ct.user_id = auth.uid() OR ct.is_shared = true)
+    )
+  );
+
+CREATE POLICY "Users can add messages to their own threads"
+  ON chat_messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM chat_threads ct
+      WHERE ct.id = chat_messages.thread_id
+      AND ct.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete messages in their own threads"
+  ON chat_messages
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM chat_threads ct
+      WHERE ct.id = chat_messages.thread_id
+      AND ct.user_id = auth.uid()
+    )
+  );
+
+-- Indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_chat_threads_user_id ON chat_threads(user_id);
+CREATE INDEX IF NOT EXISTS idx_chat_threads_updated_at ON chat_threads(updated_at);
+CREATE INDEX IF NOT EXISTS idx_chat_messages_thread_id ON chat_messages(thread_id, created_at);
+
+-- Keep updated_at current
+CREATE TRIGGER update_chat_threads_updated_at
+  BEFORE UPDATE ON chat_threads
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Move a thread to the top of the list whenever a new message lands in it
+CREATE OR REPLACE FUNCTION touch_chat_thread()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE chat_threads SET updated_at = now() WHERE id = NEW.thread_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_chat_thread_on_message
+  AFTER INSERT ON chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_chat_thread();
@@ -0,0 +1,66 @@
+/*
+  # Page and section metadata for document chunks
+
+  1. Tables
+    - `document_sections` (created earlier outside of migrations, declared here for reference)
+      - `id` (bigint, primary key)
+      - `document_id` (uuid, references documents)
+      - `content` (text)
+      - `embedding` (vector)
+
+  2. New Columns for document_sections
+    - `page_start` (integer) - first PDF page the chunk covers
+    - `page_end` (integer) - last PDF page the chunk covers
+    - `section_ref` (text) - rule / section identifier found in the chunk, e.g. "T 11.3"
+
+  3. Functions
+    - `match_document_sections` now also returns the chunk id and its page / section metadata
+      so chat-rag can build citations
+*/
+
+CREATE TABLE IF NOT EXISTS document_sections (
+  id bigint PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  document_id uuid REFERENCES documents(id) ON DELETE CASCADE,
+  content text NOT NULL,
+  embedding vector(768)
+);
+
+ALTER TABLE document_sections ADD COLUMN IF NOT EXISTS page_start integer;
+ALTER TABLE document_sections ADD COLUMN IF NOT EXISTS page_end integer;
+ALTER TABLE document_sections ADD COLUMN IF NOT EXISTS section_ref text;
+
+CREATE INDEX IF NOT EXISTS idx_document_sections_document_id ON document_sections(document_id);
+
+-- Return type changes, so the old definition has to go first
+DROP FUNCTION IF EXISTS match_document_sections(vector, float, int);
+
+CREATE OR REPLACE FUNCTION match_document_sections(
+  query_embedding vector(768),
+  match_threshold float,
+  match_count int
+)
+RETURNS TABLE (
+  id bigint,
+  document_id uuid,
+  content text,
+  page_start integer,
+  page_end integer,
+  section_ref text,
+  similarity float
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    ds.id,
+    ds.document_id,
+    ds.content,
+    ds.page_start,
+    ds.page_end,
+    ds.section_ref,
+    1 - (ds.embedding <=> query_embedding) AS similarity
+  FROM document_sections ds
+  WHERE 1 - (ds.embedding <=> query_embedding) > match_threshold
+  ORDER BY ds.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
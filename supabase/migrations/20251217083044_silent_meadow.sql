@@ -0,0 +1,48 @@
+/*
+  # Filter match_document_sections by document
+
+  1. Functions
+    - `match_document_sections` gains an optional `filter_document_ids` parameter
+      - When NULL or empty every document is searched (previous behaviour)
+      - Otherwise the top `match_count` chunks are taken from the selected documents only,
+        instead of being filtered after the global top-k
+*/
+
+DROP FUNCTION IF EXISTS match_document_sections(vector, float, int);
+
+CREATE OR REPLACE FUNCTION match_document_sections(
+  query_embedding vector(768),
+  match_threshold float,
+  match_count int,
+  filter_document_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id bigint,
+  document_id uuid,
+  content text,
+  page_start integer,
+  page_end integer,
+  section_ref text,
+  similarity float
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    ds.id,
+    ds.document_id,
+    ds.content,
+    ds.page_start,
+    ds.page_end,
+    ds.section_ref,
+    1 - (ds.embedding <=> query_embedding) AS similarity
+  FROM document_sections ds
+  WHERE 1 - (ds.embedding <=> query_embedding) > match_threshold
+    AND (
+      filter_document_ids IS NULL
+      OR cardinality(filter_document_ids) = 0
+      OR ds.document_id = ANY(filter_document_ids)
+    )
+  ORDER BY ds.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
@@ -0,0 +1,91 @@
+/*
+  # Hybrid (full-text + vector) retrieval for document sections
+
+  1. New Columns for document_sections
+    - `fts` (tsvector) - generated from `content`, used for lexical matching of rule IDs
+      ("EV 5.6.2"), abbreviations ("TSAL") and exact values
+
+  2. Indexes
+    - GIN index on `fts`
+
+  3. Functions
+    - `hybrid_match_document_sections` ranks chunks by full-text and by vector similarity
+      separately and merges both rankings with reciprocal rank fusion (RRF):
+        score = full_text_weight / (rrf_k + lexical_rank) + semantic_weight / (rrf_k + semantic_rank)
+    - Returns the same columns as `match_document_sections` plus the fused `score`
+*/
+
+ALTER TABLE document_sections
+  ADD COLUMN IF NOT EXISTS fts tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', content)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_document_sections_fts ON document_sections USING gin(fts);
+
+CREATE OR REPLACE FUNCTION hybrid_match_document_sections(
+  query_text text,
+  query_embedding vector(768),
+  match_count int,
+  filter_document_ids uuid[] DEFAULT NULL,
+  match_threshold float DEFAULT 0,
+  full_text_weight float DEFAULT 1,
+  semantic_weight float DEFAULT 1,
+  rrf_k int DEFAULT 50
+)
+RETURNS TABLE (
+  id bigint,
+  document_id uuid,
+  content text,
+  page_start integer,
+  page_end integer,
+  section_ref text,
+  similarity float,
+  score float
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH candidates AS (
+    SELECT ds.*
+    FROM document_sections ds
+    WHERE filter_document_ids IS NULL
+      OR cardinality(filter_document_ids) = 0
+      OR ds.document_id = ANY(filter_document_ids)
+  ),
+  -- Any query term may match; ts_rank_cd rewards chunks that contain more of them
+  lexical_query AS (
+    SELECT replace(plainto_tsquery('english', query_text)::text, '&', '|') AS q
+  ),
+  full_text AS (
+    SELECT
+      c.id,
+      row_number() OVER (ORDER BY ts_rank_cd(c.fts, lq.q::tsquery) DESC) AS rank_ix
+    FROM candidates c, lexical_query lq
+    WHERE lq.q <> '' AND c.fts @@ lq.q::tsquery
+    ORDER BY rank_ix
+    LIMIT least(match_count, 30) * 2
+  ),
+  semantic AS (
+    SELECT
+      c.id,
+      row_number() OVER (ORDER BY c.embedding <=> query_embedding) AS rank_ix
+    FROM candidates c
+    WHERE 1 - (c.embedding <=> query_embedding) > match_threshold
+    ORDER BY rank_ix
+    LIMIT least(match_count, 30) * 2
+  )
+  SELECT
+    ds.id,
+    ds.document_id,
+    ds.content,
+    ds.page_start,
+    ds.page_end,
+    ds.section_ref,
+    1 - (ds.embedding <=> query_embedding) AS similarity,
+    coalesce(full_text_weight / (rrf_k + full_text.rank_ix), 0.0)
+      + coalesce(semantic_weight / (rrf_k + semantic.rank_ix), 0.0) AS score
+  FROM full_text
+  FULL OUTER JOIN semantic ON full_text.id = semantic.id
+  JOIN document_sections ds ON ds.id = coalesce(full_text.id, semantic.id)
+  ORDER BY score DESC
+  LIMIT match_count;
+$$;
@@ -0,0 +1,76 @@
+/*
+  # Admin-editable application settings
+
+  1. New Tables
+    - `app_settings`
+      - `key` (text, primary key) - settings group, e.g. 'chat_rag'
+      - `value` (jsonb) - settings object for that group
+      - `updated_by` (uuid, references auth.users)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS
+    - Authenticated users can read settings
+    - Only admins can insert / update / delete settings
+
+  3. Seed Data
+    - `chat_rag` retrieval and re-ranking defaults used by the chat-rag function
+      - `match_threshold` - minimum cosine similarity for vector candidates
+      - `match_count` - candidates fetched before re-ranking
+      - `rerank_enabled` - score candidates against the question with the LLM
+      - `rerank_top_n` - chunks kept after re-ranking
+      - `rerank_min_score` - minimum re-rank score (0-10) for a chunk to be kept
+      - `context_token_budget` - approximate token budget for the context in the prompt
+*/
+
+CREATE TABLE IF NOT EXISTS app_settings (
+  key text PRIMARY KEY,
+  value jsonb NOT NULL DEFAULT '{}'::jsonb,
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view settings"
+  ON app_settings
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can insert settings"
+  ON app_settings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update settings"
+  ON app_settings
+  FOR UPDATE
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can delete settings"
+  ON app_settings
+  FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+CREATE TRIGGER update_app_settings_updated_at
+  BEFORE UPDATE ON app_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO app_settings (key, value)
+VALUES (
+  'chat_rag',
+  '{
+    "match_threshold": 0.4,
+    "match_count": 25,
+    "rerank_enabled": true,
+    "rerank_top_n": 8,
+    "rerank_min_score": 3,
+    "context_token_budget": 6000
+  }'::jsonb
+)
+ON CONFLICT (key) DO NOTHING;
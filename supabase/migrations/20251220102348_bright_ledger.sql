@@ -0,0 +1,17 @@
+/*
+  # Rulebook structure metadata for document chunks
+
+  1. New Columns for document_sections
+    - `rule_id` (text) - rule the chunk belongs to, e.g. "T 7.1.3"; NULL for non-rulebook text
+    - `section_path` (text) - headings above the rule, e.g. "T TECHNICAL ASPECTS > T 7 BRAKE SYSTEM"
+    - `page` (integer) - page the rule starts on
+
+  2. Indexes
+    - `rule_id`, so chunks can be looked up by rule number
+*/
+
+ALTER TABLE document_sections ADD COLUMN IF NOT EXISTS rule_id text;
+ALTER TABLE document_sections ADD COLUMN IF NOT EXISTS section_path text;
+ALTER TABLE document_sections ADD COLUMN IF NOT EXISTS page integer;
+
+CREATE INDEX IF NOT EXISTS idx_document_sections_rule_id ON document_sections(rule_id);
@@ -0,0 +1,75 @@
+/*
+  # Background ingestion jobs
+
+  1. New Tables
+    - `ingestion_jobs`
+      - `id` (uuid, primary key)
+      - `document_id` (uuid, references documents) - set once the text has been extracted
+      - `name` (text) - original file name
+      - `file_path` (text) - path in the `documents` storage bucket
+      - `file_size` (bigint)
+      - `mime_type` (text)
+      - `status` (text) - queued / extracting / embedding / done / failed
+      - `total_chunks` (integer) - chunks to embed
+      - `processed_chunks` (integer) - chunks embedded and stored so far
+      - `error` (text) - last failure message
+      - `attempts` (integer) - number of retries
+      - `created_by` (uuid, references auth.users)
+      - `created_at`, `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS
+    - Users can view and dismiss their own jobs, admins can view all jobs
+    - Jobs are created and advanced by the process-document function (service role)
+
+  3. Realtime
+    - `ingestion_jobs` is added to the realtime publication for live progress
+*/
+
+CREATE TABLE IF NOT EXISTS ingestion_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id uuid REFERENCES documents(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  file_path text NOT NULL,
+  file_size bigint,
+  mime_type text,
+  status text NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'extracting', 'embedding', 'done', 'failed')),
+  total_chunks integer NOT NULL DEFAULT 0,
+  processed_chunks integer NOT NULL DEFAULT 0,
+  error text,
+  attempts integer NOT NULL DEFAULT 0,
+  created_by uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE ingestion_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own ingestion jobs"
+  ON ingestion_jobs
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = created_by);
+
+CREATE POLICY "Admins can view all ingestion jobs"
+  ON ingestion_jobs
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Users can delete their own ingestion jobs"
+  ON ingestion_jobs
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = created_by);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_created_by ON ingestion_jobs(created_by);
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_status ON ingestion_jobs(status);
+
+CREATE TRIGGER update_ingestion_jobs_updated_at
+  BEFORE UPDATE ON ingestion_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE ingestion_jobs;
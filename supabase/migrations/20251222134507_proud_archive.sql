@@ -0,0 +1,281 @@
+/*
+  # Document families, versions and rulebook diffs
+
+  1. New Tables
+    - `document_families`
+      - `id` (uuid, primary key)
+      - `name` (text) - e.g. "FS Rules"
+      - `description` (text)
+      - `created_by` (uuid, references auth.users)
+      - `created_at`, `updated_at` (timestamp)
+
+  2. New Columns for documents
+    - `family_id` (uuid, references document_families) - documents that are versions of each other
+    - `season` (integer) - competition season, e.g. 2025
+    - `version` (text) - version within the season, e.g. "1.1"
+    - `is_active` (boolean, default true) - at most one active document per family
+
+  3. Security
+    - Enable RLS on `document_families`
+    - Authenticated users can view families, only admins can manage them
+    - Versions are assigned through `set_document_version`, which is admin-only
+
+  4. Functions
+    - `set_document_version` assigns a document to a family and, when requested (or when the
+      family has no active version yet), makes it the active version, deactivating the others
+    - `compare_document_versions` lists the rules added, removed or changed between two documents,
+      matched on `document_sections.rule_id`
+    - `match_document_sections` and `hybrid_match_document_sections` only search active documents
+      when no documents are selected
+*/
+
+CREATE TABLE IF NOT EXISTS document_families (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE document_families ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view document families"
+  ON document_families
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can insert document families"
+  ON document_families
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update document families"
+  ON document_families
+  FOR UPDATE
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can delete document families"
+  ON document_families
+  FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+CREATE TRIGGER update_document_families_updated_at
+  BEFORE UPDATE ON document_families
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS family_id uuid REFERENCES document_families(id) ON DELETE SET NULL;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS season integer;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS version text;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS is_active boolean NOT NULL DEFAULT true;
+
+CREATE INDEX IF NOT EXISTS idx_documents_family_id ON documents(family_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_documents_one_active_per_family
+  ON documents(family_id)
+  WHERE is_active AND family_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION set_document_version(
+  target_document_id uuid,
+  target_family_id uuid,
+  target_season integer,
+  target_version text,
+  make_active boolean DEFAULT false
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  family_has_active boolean;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can manage document versions';
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM documents
+    WHERE family_id = target_family_id AND is_active AND id <> target_document_id
+  ) INTO family_has_active;
+
+  -- Deactivate the current version first so the one-active-per-family index holds
+  IF make_active AND target_family_id IS NOT NULL THEN
+    UPDATE documents
+    SET is_active = false
+    WHERE family_id = target_family_id AND id <> target_document_id;
+  END IF;
+
+  UPDATE documents
+  SET
+    family_id = target_family_id,
+    season = target_season,
+    version = target_version,
+    is_active = make_active OR target_family_id IS NULL OR NOT family_has_active
+  WHERE id = target_document_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION compare_document_versions(
+  base_document_id uuid,
+  target_document_id uuid
+)
+RETURNS TABLE (
+  rule_id text,
+  change_type text,
+  base_content text,
+  target_content text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  WITH base_rules AS (
+    SELECT ds.rule_id, string_agg(ds.content, ' ' ORDER BY ds.id) AS content
+    FROM document_sections ds
+    WHERE ds.document_id = base_document_id AND ds.rule_id IS NOT NULL
+    GROUP BY ds.rule_id
+  ),
+  target_rules AS (
+    SELECT ds.rule_id, string_agg(ds.content, ' ' ORDER BY ds.id) AS content
+    FROM document_sections ds
+    WHERE ds.document_id = target_document_id AND ds.rule_id IS NOT NULL
+    GROUP BY ds.rule_id
+  ),
+  changes AS (
+    SELECT
+      coalesce(t.rule_id, b.rule_id) AS rule_id,
+      CASE
+        WHEN b.rule_id IS NULL THEN 'added'
+        WHEN t.rule_id IS NULL THEN 'removed'
+        ELSE 'changed'
+      END AS change_type,
+      b.content AS base_content,
+      t.content AS target_content
+    FROM base_rules b
+    FULL OUTER JOIN target_rules t ON b.rule_id = t.rule_id
+    -- Line breaks move around between PDF exports, so whitespace is not a change
+    WHERE b.rule_id IS NULL
+      OR t.rule_id IS NULL
+      OR regexp_replace(b.content, '\s+', ' ', 'g') <> regexp_replace(t.content, '\s+', ' ', 'g')
+  )
+  SELECT *
+  FROM changes c
+  -- "T 2.1" before "T 10.1"
+  ORDER BY
+    split_part(c.rule_id, ' ', 1),
+    string_to_array(nullif(split_part(c.rule_id, ' ', 2), ''), '.')::int[] NULLS FIRST;
+$$;
+
+CREATE OR REPLACE FUNCTION match_document_sections(
+  query_embedding vector(768),
+  match_threshold float,
+  match_count int,
+  filter_document_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id bigint,
+  document_id uuid,
+  content text,
+  page_start integer,
+  page_end integer,
+  section_ref text,
+  similarity float
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    ds.id,
+    ds.document_id,
+    ds.content,
+    ds.page_start,
+    ds.page_end,
+    ds.section_ref,
+    1 - (ds.embedding <=> query_embedding) AS similarity
+  FROM document_sections ds
+  WHERE 1 - (ds.embedding <=> query_embedding) > match_threshold
+    AND (
+      CASE
+        WHEN filter_document_ids IS NULL OR cardinality(filter_document_ids) = 0
+          THEN ds.document_id IN (SELECT d.id FROM documents d WHERE d.is_active)
+        ELSE ds.document_id = ANY(filter_document_ids)
+      END
+    )
+  ORDER BY ds.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+CREATE OR REPLACE FUNCTION hybrid_match_document_sections(
+  query_text text,
+  query_embedding vector(768),
+  match_count int,
+  filter_document_ids uuid[] DEFAULT NULL,
+  match_threshold float DEFAULT 0,
+  full_text_weight float DEFAULT 1,
+  semantic_weight float DEFAULT 1,
+  rrf_k int DEFAULT 50
+)
+RETURNS TABLE (
+  id bigint,
+  document_id uuid,
+  content text,
+  page_start integer,
+  page_end integer,
+  section_ref text,
+  similarity float,
+  score float
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH candidates AS (
+    SELECT ds.*
+    FROM document_sections ds
+    WHERE CASE
+      WHEN filter_document_ids IS NULL OR cardinality(filter_document_ids) = 0
+        THEN ds.document_id IN (SELECT d.id FROM documents d WHERE d.is_active)
+      ELSE ds.document_id = ANY(filter_document_ids)
+    END
+  ),
+  -- Any query term may match; ts_rank_cd rewards chunks that contain more of them
+  lexical_query AS (
+    SELECT replace(plainto_tsquery('english', query_text)::text, '&', '|') AS q
+  ),
+  full_text AS (
+    SELECT
+      c.id,
+      row_number() OVER (ORDER BY ts_rank_cd(c.fts, lq.q::tsquery) DESC) AS rank_ix
+    FROM candidates c, lexical_query lq
+    WHERE lq.q <> '' AND c.fts @@ lq.q::tsquery
+    ORDER BY rank_ix
+    LIMIT least(match_count, 30) * 2
+  ),
+  semantic AS (
+    SELECT
+      c.id,
+      row_number() OVER (ORDER BY c.embedding <=> query_embedding) AS rank_ix
+    FROM candidates c
+    WHERE 1 - (c.embedding <=> query_embedding) > match_threshold
+    ORDER BY rank_ix
+    LIMIT least(match_count, 30) * 2
+  )
+  SELECT
+    ds.id,
+    ds.document_id,
+    ds.content,
+    ds.page_start,
+    ds.page_end,
+    ds.section_ref,
+    1 - (ds.embedding <=> query_embedding) AS similarity,
+    coalesce(full_text_weight / (rrf_k + full_text.rank_ix), 0.0)
+      + coalesce(semantic_weight / (rrf_k + semantic.rank_ix), 0.0) AS score
+  FROM full_text
+  FULL OUTER JOIN semantic ON full_text.id = semantic.id
+  JOIN document_sections ds ON ds.id = coalesce(full_text.id, semantic.id)
+  ORDER BY score DESC
+  LIMIT match_count;
+$$;
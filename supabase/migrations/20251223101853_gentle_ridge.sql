@@ -0,0 +1,17 @@
+/*
+  # Content hashes for duplicate detection
+
+  1. New Columns
+    - `documents.content_hash` (text) - SHA-256 of the uploaded file
+    - `ingestion_jobs.content_hash` (text) - hash of the file being processed, so a file that
+      is still in the queue is also recognised as a duplicate
+
+  2. Indexes
+    - `content_hash` on both tables
+*/
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS content_hash text;
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS content_hash text;
+
+CREATE INDEX IF NOT EXISTS idx_documents_content_hash ON documents(content_hash);
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_content_hash ON ingestion_jobs(content_hash);
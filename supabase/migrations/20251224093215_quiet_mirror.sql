@@ -0,0 +1,138 @@
+/*
+  # Near-duplicate document detection
+
+  1. New Tables
+    - `document_duplicates`
+      - `id` (uuid, primary key)
+      - `document_id` (uuid, references documents) - the newly processed document
+      - `duplicate_of` (uuid, references documents) - the existing document it overlaps with
+      - `matched_sections` (integer) - sections of `document_id` with a near-identical section in `duplicate_of`
+      - `total_sections` (integer) - all sections of `document_id`
+      - `overlap` (float) - matched_sections / total_sections
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `document_duplicates`
+    - Authenticated users can view the flags, only admins can dismiss them
+    - Flags are written by process-document with the service role
+
+  3. Functions
+    - `find_near_duplicate_documents` compares every section of a document with its nearest
+      section in the other documents and returns the documents most of it is repeated in
+    - `merge_documents` moves the sections of one document that are not already in another
+      into that document and deletes the first one (admin-only)
+*/
+
+CREATE TABLE IF NOT EXISTS document_duplicates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id uuid NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  duplicate_of uuid NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  matched_sections integer NOT NULL,
+  total_sections integer NOT NULL,
+  overlap float NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (document_id, duplicate_of)
+);
+
+ALTER TABLE document_duplicates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view document duplicates"
+  ON document_duplicates
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can delete document duplicates"
+  ON document_duplicates
+  FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+CREATE INDEX IF NOT EXISTS idx_document_duplicates_document_id ON document_duplicates(document_id);
+CREATE INDEX IF NOT EXISTS idx_document_duplicates_duplicate_of ON document_duplicates(duplicate_of);
+
+CREATE OR REPLACE FUNCTION find_near_duplicate_documents(
+  target_document_id uuid,
+  similarity_threshold float DEFAULT 0.97,
+  min_overlap float DEFAULT 0.8
+)
+RETURNS TABLE (
+  duplicate_of uuid,
+  matched_sections integer,
+  total_sections integer,
+  overlap float
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  WITH sections AS (
+    SELECT ds.id, ds.embedding
+    FROM document_sections ds
+    WHERE ds.document_id = target_document_id AND ds.embedding IS NOT NULL
+  ),
+  nearest AS (
+    SELECT s.id, n.document_id, n.similarity
+    FROM sections s
+    CROSS JOIN LATERAL (
+      SELECT other.document_id, 1 - (other.embedding <=> s.embedding) AS similarity
+      FROM document_sections other
+      WHERE other.document_id <> target_document_id
+      ORDER BY other.embedding <=> s.embedding
+      LIMIT 1
+    ) n
+  ),
+  totals AS (
+    SELECT count(*)::integer AS total FROM sections
+  )
+  SELECT
+    n.document_id AS duplicate_of,
+    count(*)::integer AS matched_sections,
+    t.total AS total_sections,
+    count(*)::float / t.total AS overlap
+  FROM nearest n
+  CROSS JOIN totals t
+  WHERE n.similarity >= similarity_threshold
+  GROUP BY n.document_id, t.total
+  HAVING count(*)::float / t.total >= min_overlap
+  ORDER BY overlap DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION merge_documents(
+  source_document_id uuid,
+  target_document_id uuid,
+  similarity_threshold float DEFAULT 0.97
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  moved_count integer;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can merge documents';
+  END IF;
+
+  IF source_document_id = target_document_id THEN
+    RAISE EXCEPTION 'Cannot merge a document into itself';
+  END IF;
+
+  -- Only sections the target does not already cover are kept
+  UPDATE document_sections ds
+  SET document_id = target_document_id
+  WHERE ds.document_id = source_document_id
+    AND NOT EXISTS (
+      SELECT 1
+      FROM document_sections existing
+      WHERE existing.document_id = target_document_id
+        AND 1 - (existing.embedding <=> ds.embedding) >= similarity_threshold
+    );
+
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+
+  DELETE FROM documents WHERE id = source_document_id;
+
+  RETURN moved_count;
+END;
+$$;
@@ -0,0 +1,278 @@
+/*
+  # Embedding model tracking and re-embedding
+
+  1. New Columns
+    - `document_sections.embedding_model` (text) - model that produced `embedding`;
+      existing rows were all embedded with `text-embedding-004`
+
+  2. New Tables
+    - `reembed_jobs`
+      - `id` (uuid, primary key)
+      - `model` (text) - model the sections are re-embedded with
+      - `status` (text) - queued, running, done or failed
+      - `total_sections` (integer) - sections that still had another model when the job started
+      - `processed_sections` (integer)
+      - `error` (text)
+      - `created_by` (uuid, references auth.users)
+      - `created_at`, `updated_at` (timestamp)
+
+  3. Security
+    - Enable RLS on `reembed_jobs`; only admins can view jobs, the reembed-documents
+      function writes them with the service role
+    - Added to the realtime publication for live progress
+
+  4. Seed Data
+    - `embedding` app setting with the active `model`, switched by reembed-documents once
+      every section has been re-embedded
+
+  5. Functions
+    - `match_document_sections` and `hybrid_match_document_sections` take the model of the
+      query embedding and only search sections embedded with that model
+    - `find_near_duplicate_documents` and `merge_documents` only compare sections of the same model
+*/
+
+ALTER TABLE document_sections ADD COLUMN IF NOT EXISTS embedding_model text;
+
+UPDATE document_sections
+SET embedding_model = 'text-embedding-004'
+WHERE embedding_model IS NULL AND embedding IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_document_sections_embedding_model ON document_sections(embedding_model);
+
+INSERT INTO app_settings (key, value)
+VALUES ('embedding', '{"model": "text-embedding-004"}'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS reembed_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  model text NOT NULL,
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'done', 'failed')),
+  total_sections integer NOT NULL DEFAULT 0,
+  processed_sections integer NOT NULL DEFAULT 0,
+  error text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE reembed_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view re-embedding jobs"
+  ON reembed_jobs
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE TRIGGER update_reembed_jobs_updated_at
+  BEFORE UPDATE ON reembed_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE reembed_jobs;
+
+-- New parameter, so the old signatures are dropped instead of overloaded
+DROP FUNCTION IF EXISTS match_document_sections(vector, float, int, uuid[]);
+DROP FUNCTION IF EXISTS hybrid_match_document_sections(text, vector, int, uuid[], float, float, float, int);
+
+CREATE OR REPLACE FUNCTION match_document_sections(
+  query_embedding vector(768),
+  match_threshold float,
+  match_count int,
+  filter_document_ids uuid[] DEFAULT NULL,
+  query_embedding_model text DEFAULT 'text-embedding-004'
+)
+RETURNS TABLE (
+  id bigint,
+  document_id uuid,
+  content text,
+  page_start integer,
+  page_end integer,
+  section_ref text,
+  similarity float
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    ds.id,
+    ds.document_id,
+    ds.content,
+    ds.page_start,
+    ds.page_end,
+    ds.section_ref,
+    1 - (ds.embedding <=> query_embedding) AS similarity
+  FROM document_sections ds
+  WHERE ds.embedding_model = query_embedding_model
+    AND 1 - (ds.embedding <=> query_embedding) > match_threshold
+    AND (
+      CASE
+        WHEN filter_document_ids IS NULL OR cardinality(filter_document_ids) = 0
+          THEN ds.document_id IN (SELECT d.id FROM documents d WHERE d.is_active)
+        ELSE ds.document_id = ANY(filter_document_ids)
+      END
+    )
+  ORDER BY ds.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+CREATE OR REPLACE FUNCTION hybrid_match_document_sections(
+  query_text text,
+  query_embedding vector(768),
+  match_count int,
+  filter_document_ids uuid[] DEFAULT NULL,
+  match_threshold float DEFAULT 0,
+  full_text_weight float DEFAULT 1,
+  semantic_weight float DEFAULT 1,
+  rrf_k int DEFAULT 50,
+  query_embedding_model text DEFAULT 'text-embedding-004'
+)
+RETURNS TABLE (
+  id bigint,
+  document_id uuid,
+  content text,
+  page_start integer,
+  page_end integer,
+  section_ref text,
+  similarity float,
+  score float
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH candidates AS (
+    SELECT ds.*
+    FROM document_sections ds
+    -- Vectors of different models are not comparable
+    WHERE ds.embedding_model = query_embedding_model
+      AND CASE
+        WHEN filter_document_ids IS NULL OR cardinality(filter_document_ids) = 0
+          THEN ds.document_id IN (SELECT d.id FROM documents d WHERE d.is_active)
+        ELSE ds.document_id = ANY(filter_document_ids)
+      END
+  ),
+  -- Any query term may match; ts_rank_cd rewards chunks that contain more of them
+  lexical_query AS (
+    SELECT replace(plainto_tsquery('english', query_text)::text, '&', '|') AS q
+  ),
+  full_text AS (
+    SELECT
+      c.id,
+      row_number() OVER (ORDER BY ts_rank_cd(c.fts, lq.q::tsquery) DESC) AS rank_ix
+    FROM candidates c, lexical_query lq
+    WHERE lq.q <> '' AND c.fts @@ lq.q::tsquery
+    ORDER BY rank_ix
+    LIMIT least(match_count, 30) * 2
+  ),
+  semantic AS (
+    SELECT
+      c.id,
+      row_number() OVER (ORDER BY c.embedding <=> query_embedding) AS rank_ix
+    FROM candidates c
+    WHERE 1 - (c.embedding <=> query_embedding) > match_threshold
+    ORDER BY rank_ix
+    LIMIT least(match_count, 30) * 2
+  )
+  SELECT
+    ds.id,
+    ds.document_id,
+    ds.content,
+    ds.page_start,
+    ds.page_end,
+    ds.section_ref,
+    1 - (ds.embedding <=> query_embedding) AS similarity,
+    coalesce(full_text_weight / (rrf_k + full_text.rank_ix), 0.0)
+      + coalesce(semantic_weight / (rrf_k + semantic.rank_ix), 0.0) AS score
+  FROM full_text
+  FULL OUTER JOIN semantic ON full_text.id = semantic.id
+  JOIN document_sections ds ON ds.id = coalesce(full_text.id, semantic.id)
+  ORDER BY score DESC
+  LIMIT match_count;
+$$;
+
+CREATE OR REPLACE FUNCTION find_near_duplicate_documents(
+  target_document_id uuid,
+  similarity_threshold float DEFAULT 0.97,
+  min_overlap float DEFAULT 0.8
+)
+RETURNS TABLE (
+  duplicate_of uuid,
+  matched_sections integer,
+  total_sections integer,
+  overlap float
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  WITH sections AS (
+    SELECT ds.id, ds.embedding, ds.embedding_model
+    FROM document_sections ds
+    WHERE ds.document_id = target_document_id AND ds.embedding IS NOT NULL
+  ),
+  nearest AS (
+    SELECT s.id, n.document_id, n.similarity
+    FROM sections s
+    CROSS JOIN LATERAL (
+      SELECT other.document_id, 1 - (other.embedding <=> s.embedding) AS similarity
+      FROM document_sections other
+      WHERE other.document_id <> target_document_id
+        AND other.embedding_model = s.embedding_model
+      ORDER BY other.embedding <=> s.embedding
+      LIMIT 1
+    ) n
+  ),
+  totals AS (
+    SELECT count(*)::integer AS total FROM sections
+  )
+  SELECT
+    n.document_id AS duplicate_of,
+    count(*)::integer AS matched_sections,
+    t.total AS total_sections,
+    count(*)::float / t.total AS overlap
+  FROM nearest n
+  CROSS JOIN totals t
+  WHERE n.similarity >= similarity_threshold
+  GROUP BY n.document_id, t.total
+  HAVING count(*)::float / t.total >= min_overlap
+  ORDER BY overlap DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION merge_documents(
+  source_document_id uuid,
+  target_document_id uuid,
+  similarity_threshold float DEFAULT 0.97
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  moved_count integer;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can merge documents';
+  END IF;
+
+  IF source_document_id = target_document_id THEN
+    RAISE EXCEPTION 'Cannot merge a document into itself';
+  END IF;
+
+  -- Only sections the target does not already cover are kept
+  UPDATE document_sections ds
+  SET document_id = target_document_id
+  WHERE ds.document_id = source_document_id
+    AND NOT EXISTS (
+      SELECT 1
+      FROM document_sections existing
+      WHERE existing.document_id = target_document_id
+        AND existing.embedding_model = ds.embedding_model
+        AND 1 - (existing.embedding <=> ds.embedding) >= similarity_threshold
+    );
+
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+
+  DELETE FROM documents WHERE id = source_document_id;
+
+  RETURN moved_count;
+END;
+$$;
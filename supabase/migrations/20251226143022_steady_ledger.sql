@@ -0,0 +1,128 @@
+/*
+  # Persist self-quiz attempts
+
+  1. New Tables
+    - `quiz_attempts`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `mode` (text) - official, ai or changes
+      - `filters` (jsonb) - settings the quiz was built from (year/event filters, documents, rulebook, time limit)
+      - `question_count` (integer)
+      - `score` (integer) - correctly answered questions, null until the attempt is completed
+      - `feedback` (text) - AI coach feedback shown on the results page
+      - `started_at` (timestamp)
+      - `completed_at` (timestamp) - null for abandoned attempts
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+    - `quiz_attempt_answers`
+      - `id` (uuid, primary key)
+      - `attempt_id` (uuid, references quiz_attempts)
+      - `position` (integer) - index of the question in the attempt
+      - `question_id` (text) - `question_bank.id` in official mode, the generated id otherwise
+      - `question` (jsonb) - the question as it was asked, so generated questions can be reviewed later
+      - `answer` (jsonb) - null when the time ran out
+      - `is_correct` (boolean)
+      - `credit` (float) - partial credit from the grading module
+      - `time_spent_ms` (integer)
+      - `answered_at` (timestamp)
+
+  2. Security
+    - Enable RLS on both tables
+    - Users have full access to their own attempts and answers
+    - Admins can view all attempts
+*/
+
+CREATE TABLE IF NOT EXISTS quiz_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  mode text NOT NULL CHECK (mode IN ('official', 'ai', 'changes')),
+  filters jsonb NOT NULL DEFAULT '{}'::jsonb,
+  question_count integer NOT NULL,
+  score integer,
+  feedback text,
+  started_at timestamptz DEFAULT now(),
+  completed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS quiz_attempt_answers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  attempt_id uuid NOT NULL REFERENCES quiz_attempts(id) ON DELETE CASCADE,
+  position integer NOT NULL,
+  question_id text,
+  question jsonb NOT NULL,
+  answer jsonb,
+  is_correct boolean NOT NULL DEFAULT false,
+  credit float NOT NULL DEFAULT 0,
+  time_spent_ms integer,
+  answered_at timestamptz DEFAULT now(),
+  UNIQUE (attempt_id, position)
+);
+
+-- Enable Row Level Security
+ALTER TABLE quiz_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quiz_attempt_answers ENABLE ROW LEVEL SECURITY;
+
+-- Quiz attempts policies
+CREATE POLICY "Users can view their own quiz attempts"
+  ON quiz_attempts
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id OR is_admin());
+
+CREATE POLICY "Users can create their own quiz attempts"
+  ON quiz_attempts
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own quiz attempts"
+  ON quiz_attempts
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own quiz attempts"
+  ON quiz_attempts
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Quiz attempt answers policies
+CREATE POLICY "Users can view answers of their own quiz attempts"
+  ON quiz_attempt_answers
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM quiz_attempts qa
+      WHERE qa.id = quiz_attempt_answers.attempt_id
+      AND (qa.user_id = auth.uid() OR is_admin())
+    )
+  );
+
+CREATE POLICY "Users can add answers to their own quiz attempts"
+  ON quiz_attempt_answers
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM quiz_attempts qa
+      WHERE qa.id = quiz_attempt_answers.attempt_id
+      AND qa.user_id = auth.uid()
+    )
+  );
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_user_id ON quiz_attempts(user_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_quiz_attempt_answers_attempt_id ON quiz_attempt_answers(attempt_id);
+CREATE INDEX IF NOT EXISTS idx_quiz_attempt_answers_question_id ON quiz_attempt_answers(question_id);
+
+-- Update timestamp trigger
+CREATE TRIGGER update_quiz_attempts_updated_at
+  BEFORE UPDATE ON quiz_attempts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
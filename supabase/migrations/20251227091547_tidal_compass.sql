@@ -0,0 +1,123 @@
+/*
+  # Spaced-repetition schedule for the question bank
+
+  1. New Tables
+    - `question_reviews`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `question_id` (text) - `question_bank.id`
+      - `ease` (float) - SM-2 ease factor, 2.5 for new questions, never below 1.3
+      - `interval_days` (integer) - days until the next review
+      - `repetitions` (integer) - correct answers in a row
+      - `lapses` (integer) - times a learned question was answered wrong again
+      - `due_at` (timestamp)
+      - `last_reviewed_at` (timestamp)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Changes
+    - `quiz_attempts.mode` accepts `review`
+
+  3. Security
+    - Enable RLS on `question_reviews`
+    - Users have full access to their own schedule
+
+  4. Functions
+    - `get_review_questions` returns the caller's due questions, most overdue first, and
+      tops up with questions they have not answered yet
+*/
+
+CREATE TABLE IF NOT EXISTS question_reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  question_id text NOT NULL,
+  ease float NOT NULL DEFAULT 2.5,
+  interval_days integer NOT NULL DEFAULT 0,
+  repetitions integer NOT NULL DEFAULT 0,
+  lapses integer NOT NULL DEFAULT 0,
+  due_at timestamptz NOT NULL DEFAULT now(),
+  last_reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, question_id)
+);
+
+ALTER TABLE quiz_attempts DROP CONSTRAINT IF EXISTS quiz_attempts_mode_check;
+ALTER TABLE quiz_attempts ADD CONSTRAINT quiz_attempts_mode_check
+  CHECK (mode IN ('official', 'ai', 'changes', 'review'));
+
+-- Enable Row Level Security
+ALTER TABLE question_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own question reviews"
+  ON question_reviews
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own question reviews"
+  ON question_reviews
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own question reviews"
+  ON question_reviews
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own question reviews"
+  ON question_reviews
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_question_reviews_user_due ON question_reviews(user_id, due_at);
+
+CREATE TRIGGER update_question_reviews_updated_at
+  BEFORE UPDATE ON question_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION get_review_questions(
+  question_count integer DEFAULT 10,
+  year_filter integer DEFAULT NULL,
+  event_filter text DEFAULT NULL
+)
+RETURNS SETOF question_bank
+LANGUAGE plpgsql
+VOLATILE
+AS $$
+DECLARE
+  due_count integer;
+BEGIN
+  RETURN QUERY
+    SELECT qb.*
+    FROM question_reviews r
+    JOIN question_bank qb ON qb.id::text = r.question_id
+    WHERE r.user_id = auth.uid()
+      AND r.due_at <= now()
+      AND (year_filter IS NULL OR qb.year = year_filter)
+      AND (event_filter IS NULL OR qb.source_event = event_filter)
+    ORDER BY r.due_at
+    LIMIT question_count;
+
+  GET DIAGNOSTICS due_count = ROW_COUNT;
+
+  IF due_count < question_count THEN
+    RETURN QUERY
+      SELECT qb.*
+      FROM question_bank qb
+      WHERE (year_filter IS NULL OR qb.year = year_filter)
+        AND (event_filter IS NULL OR qb.source_event = event_filter)
+        AND NOT EXISTS (
+          SELECT 1 FROM question_reviews r
+          WHERE r.user_id = auth.uid() AND r.question_id = qb.id::text
+        )
+      ORDER BY random()
+      LIMIT question_count - due_count;
+  END IF;
+END;
+$$;
@@ -0,0 +1,70 @@
+/*
+  # Per-topic mastery for the adaptive quiz
+
+  1. New Tables
+    - `topic_mastery`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `topic` (text) - one of the topics in `_shared/topics.ts`
+      - `mastery` (float) - 0..1 estimate, 0.5 for a topic without answers
+      - `answered` (integer) - graded answers on this topic
+      - `last_answered_at` (timestamp)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Changes
+    - `quiz_attempts.mode` accepts `adaptive`
+
+  3. Security
+    - Enable RLS on `topic_mastery`
+    - Users have full access to their own mastery
+*/
+
+CREATE TABLE IF NOT EXISTS topic_mastery (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  topic text NOT NULL,
+  mastery float NOT NULL DEFAULT 0.5 CHECK (mastery >= 0 AND mastery <= 1),
+  answered integer NOT NULL DEFAULT 0,
+  last_answered_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, topic)
+);
+
+ALTER TABLE quiz_attempts DROP CONSTRAINT IF EXISTS quiz_attempts_mode_check;
+ALTER TABLE quiz_attempts ADD CONSTRAINT quiz_attempts_mode_check
+  CHECK (mode IN ('official', 'ai', 'changes', 'review', 'adaptive'));
+
+-- Enable Row Level Security
+ALTER TABLE topic_mastery ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own topic mastery"
+  ON topic_mastery
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own topic mastery"
+  ON topic_mastery
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own topic mastery"
+  ON topic_mastery
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own topic mastery"
+  ON topic_mastery
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_topic_mastery_updated_at
+  BEFORE UPDATE ON topic_mastery
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
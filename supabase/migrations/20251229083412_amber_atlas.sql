@@ -0,0 +1,163 @@
+/*
+  # Topic taxonomy for questions
+
+  1. New Tables
+    - `topics`
+      - `id` (uuid, primary key)
+      - `slug` (text, unique) - stored on questions and in `topic_mastery`
+      - `name` (text) - shown in the app
+      - `description` (text) - what belongs to the topic, also given to the LLM classifier
+      - `sort_order` (integer)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Changes
+    - `question_bank.topic` (text, references `topics.slug`) - null until the question is tagged
+    - `question_bank.topic_source` (text) - `llm` for the classifier, `admin` for manual tags
+    - `topic_mastery.topic` holds topic slugs and references `topics.slug`; the keyword
+      topics used so far are mapped to the closest slug
+    - `get_review_questions` takes a `topic_filter`
+
+  3. Security
+    - Enable RLS on `topics`
+    - Authenticated users can view topics, admins can manage them
+    - Admins can update `question_bank` rows to re-tag them
+*/
+
+CREATE TABLE IF NOT EXISTS topics (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug text UNIQUE NOT NULL,
+  name text NOT NULL,
+  description text,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO topics (slug, name, description, sort_order) VALUES
+  ('general-rules', 'General Rules', 'Competition regulations, eligibility, team and vehicle requirements that belong to no technical area', 1),
+  ('chassis', 'Chassis & Structure', 'Frame, main and front hoop, impact attenuator, side impact structure, cockpit and driver restraint', 2),
+  ('suspension', 'Suspension & Vehicle Dynamics', 'Suspension, steering, wheels and tyres, ground clearance, vehicle dynamics', 3),
+  ('brakes', 'Brakes', 'Brake system, brake circuits, brake over-travel switch, brake test', 4),
+  ('powertrain', 'Powertrain & Fuel', 'Combustion engine, intake restrictor, fuel system, exhaust and noise, drivetrain', 5),
+  ('ev-accumulator', 'EV & Accumulator', 'Tractive system, accumulator and cells, voltage limits, insulation monitoring, charging', 6),
+  ('electronics', 'Electronics & Shutdown', 'Low voltage system, shutdown circuit, brake light, data logging, wiring', 7),
+  ('aero', 'Aerodynamics', 'Wings, undertray, aerodynamic device dimensions and restrictions', 8),
+  ('driverless', 'Driverless', 'Autonomous system, emergency brake system, missions and state machine', 9),
+  ('scoring', 'Scoring & Dynamic Events', 'Scoring formulas, acceleration, skidpad, autocross, endurance and efficiency', 10),
+  ('cost', 'Cost & Manufacturing', 'Cost report, bill of materials, cost tables and manufacturing processes', 11),
+  ('business-plan', 'Business Plan', 'Business plan presentation and its judging', 12),
+  ('engineering-design', 'Engineering Design', 'Engineering design report and event', 13),
+  ('technical-inspection', 'Technical Inspection', 'Scrutineering procedure, tilt, rain, noise and brake inspections', 14)
+ON CONFLICT (slug) DO NOTHING;
+
+-- Question bank tags
+ALTER TABLE question_bank ADD COLUMN IF NOT EXISTS topic text REFERENCES topics(slug) ON UPDATE CASCADE ON DELETE SET NULL;
+ALTER TABLE question_bank ADD COLUMN IF NOT EXISTS topic_source text CHECK (topic_source IN ('llm', 'admin'));
+
+CREATE INDEX IF NOT EXISTS idx_question_bank_topic ON question_bank(topic);
+
+-- Keyword topics -> taxonomy
+UPDATE topic_mastery SET topic = CASE topic
+  WHEN 'Braking' THEN 'brakes'
+  WHEN 'Powertrain' THEN 'powertrain'
+  WHEN 'Chassis/Structural' THEN 'chassis'
+  WHEN 'Suspension/VD' THEN 'suspension'
+  WHEN 'EV/Electronics' THEN 'ev-accumulator'
+  WHEN 'Aerodynamics' THEN 'aero'
+  WHEN 'Static Events' THEN 'cost'
+  WHEN 'General Rules' THEN 'general-rules'
+  ELSE topic
+END;
+
+DELETE FROM topic_mastery WHERE topic NOT IN (SELECT slug FROM topics);
+
+ALTER TABLE topic_mastery
+  ADD CONSTRAINT topic_mastery_topic_fkey FOREIGN KEY (topic) REFERENCES topics(slug) ON UPDATE CASCADE ON DELETE CASCADE;
+
+-- Enable Row Level Security
+ALTER TABLE topics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view topics"
+  ON topics
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can create topics"
+  ON topics
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update topics"
+  ON topics
+  FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete topics"
+  ON topics
+  FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+DROP POLICY IF EXISTS "Admins can update question bank" ON question_bank;
+CREATE POLICY "Admins can update question bank"
+  ON question_bank
+  FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE TRIGGER update_topics_updated_at
+  BEFORE UPDATE ON topics
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP FUNCTION IF EXISTS get_review_questions(integer, integer, text);
+
+CREATE OR REPLACE FUNCTION get_review_questions(
+  question_count integer DEFAULT 10,
+  year_filter integer DEFAULT NULL,
+  event_filter text DEFAULT NULL,
+  topic_filter text DEFAULT NULL
+)
+RETURNS SETOF question_bank
+LANGUAGE plpgsql
+VOLATILE
+AS $$
+DECLARE
+  due_count integer;
+BEGIN
+  RETURN QUERY
+    SELECT qb.*
+    FROM question_reviews r
+    JOIN question_bank qb ON qb.id::text = r.question_id
+    WHERE r.user_id = auth.uid()
+      AND r.due_at <= now()
+      AND (year_filter IS NULL OR qb.year = year_filter)
+      AND (event_filter IS NULL OR qb.source_event = event_filter)
+      AND (topic_filter IS NULL OR qb.topic = topic_filter)
+    ORDER BY r.due_at
+    LIMIT question_count;
+
+  GET DIAGNOSTICS due_count = ROW_COUNT;
+
+  IF due_count < question_count THEN
+    RETURN QUERY
+      SELECT qb.*
+      FROM question_bank qb
+      WHERE (year_filter IS NULL OR qb.year = year_filter)
+        AND (event_filter IS NULL OR qb.source_event = event_filter)
+        AND (topic_filter IS NULL OR qb.topic = topic_filter)
+        AND NOT EXISTS (
+          SELECT 1 FROM question_reviews r
+          WHERE r.user_id = auth.uid() AND r.question_id = qb.id::text
+        )
+      ORDER BY random()
+      LIMIT question_count - due_count;
+  END IF;
+END;
+$$;
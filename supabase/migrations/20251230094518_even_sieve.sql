@@ -0,0 +1,83 @@
+/*
+  # Random, stratified question sampling
+
+  1. Functions
+    - `normalize_question_type(text)` - maps the imported question types onto the app's
+      `single_choice`, `multi_choice` and `input`, like `normalizeQuestionType` in
+      `_shared/grading.ts`
+    - `sample_questions` - draws a random sample from `question_bank` for the official
+      quiz and team games
+      - Optional year, event, type and topic filters
+      - Stratified by year, event, type and topic: every stratum gives one random
+        question before any stratum gives a second, so a sample never comes from
+        one corner of the bank
+      - Questions the caller has not answered yet (no self-quiz answer, no review
+        schedule) come first; answered ones only fill up the rest, least recently
+        answered first
+*/
+
+CREATE OR REPLACE FUNCTION normalize_question_type(question_type text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE replace(lower(coalesce(question_type, '')), '-', '_')
+    WHEN 'single_choice' THEN 'single_choice'
+    WHEN 'multiple_choice' THEN 'single_choice'
+    WHEN 'true_false' THEN 'single_choice'
+    WHEN 'multi_choice' THEN 'multi_choice'
+    ELSE 'input'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION sample_questions(
+  question_count integer DEFAULT 10,
+  year_filter integer DEFAULT NULL,
+  event_filter text DEFAULT NULL,
+  type_filter text DEFAULT NULL,
+  topic_filter text DEFAULT NULL
+)
+RETURNS SETOF question_bank
+LANGUAGE sql
+VOLATILE
+AS $$
+  WITH seen AS (
+    SELECT question_id, max(seen_at) AS last_seen_at
+    FROM (
+      SELECT a.question_id, a.answered_at AS seen_at
+      FROM quiz_attempt_answers a
+      JOIN quiz_attempts qa ON qa.id = a.attempt_id
+      WHERE qa.user_id = auth.uid() AND a.question_id IS NOT NULL
+      UNION ALL
+      SELECT r.question_id, coalesce(r.last_reviewed_at, r.created_at)
+      FROM question_reviews r
+      WHERE r.user_id = auth.uid()
+    ) answered
+    GROUP BY question_id
+  ),
+  candidates AS (
+    SELECT
+      qb.id,
+      s.last_seen_at,
+      row_number() OVER (
+        PARTITION BY s.question_id IS NOT NULL, qb.year, qb.source_event, normalize_question_type(qb.type), qb.topic
+        ORDER BY random()
+      ) AS stratum_rank
+    FROM question_bank qb
+    LEFT JOIN seen s ON s.question_id = qb.id::text
+    WHERE (year_filter IS NULL OR qb.year = year_filter)
+      AND (event_filter IS NULL OR qb.source_event = event_filter)
+      AND (type_filter IS NULL OR normalize_question_type(qb.type) = type_filter)
+      AND (topic_filter IS NULL OR qb.topic = topic_filter)
+  ),
+  picked AS (
+    SELECT id, row_number() OVER (ORDER BY last_seen_at NULLS FIRST, stratum_rank, random()) AS position
+    FROM candidates
+    ORDER BY position
+    LIMIT question_count
+  )
+  SELECT qb.*
+  FROM picked p
+  JOIN question_bank qb ON qb.id = p.id
+  ORDER BY random();
+$$;
@@ -0,0 +1,32 @@
+/*
+  # Resumable text extraction
+
+  1. New Tables
+    - `ingestion_extracts`
+      - `job_id` (uuid, primary key, references ingestion_jobs)
+      - `content` (text) - text of the PDF pages extracted so far
+      - `next_page` (integer) - page the next run continues from
+      - `ocr_pages` (integer[]) - pages whose text came from OCR
+      - `created_at`, `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS without policies: only the process-document function (service role)
+      reads and writes partial extractions. Kept out of `ingestion_jobs`, whose rows
+      are sent to the browser over realtime
+*/
+
+CREATE TABLE IF NOT EXISTS ingestion_extracts (
+  job_id uuid PRIMARY KEY REFERENCES ingestion_jobs(id) ON DELETE CASCADE,
+  content text NOT NULL DEFAULT '',
+  next_page integer NOT NULL,
+  ocr_pages integer[] NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE ingestion_extracts ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_ingestion_extracts_updated_at
+  BEFORE UPDATE ON ingestion_extracts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
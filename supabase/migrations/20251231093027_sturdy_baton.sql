@@ -0,0 +1,10 @@
+/*
+  # Leases for ingestion job continuations
+
+  1. Changes
+    - `ingestion_jobs.lease` (uuid) - replaced whenever a run claims the job or hands it to a
+      continuation. A continuation is only accepted with the current lease and claims the job
+      in the same update, so two runners never process one job
+*/
+
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS lease uuid NOT NULL DEFAULT gen_random_uuid();
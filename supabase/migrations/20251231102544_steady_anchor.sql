@@ -0,0 +1,98 @@
+/*
+  # Rule diffs from the source text
+
+  1. Changes
+    - `document_sections.char_start` / `char_end` (integer) - offsets of the chunk in
+      `documents.content`. Null for sections stored before this migration
+    - `document_rule_texts` returns the text of every rule of a document, cut from
+      `documents.content` between the first and last offset of its chunks. Chunks of long
+      rules overlap, so concatenating them repeated text wherever the chunk boundaries fell
+    - `compare_document_versions` compares these rule texts, so a rule whose chunk
+      boundaries moved between versions is no longer reported as changed. Documents
+      processed before this migration fall back to the concatenated chunks
+
+  2. Functions
+    - `document_rule_texts(document_id)`
+*/
+
+ALTER TABLE document_sections ADD COLUMN IF NOT EXISTS char_start integer;
+ALTER TABLE document_sections ADD COLUMN IF NOT EXISTS char_end integer;
+
+CREATE OR REPLACE FUNCTION document_rule_texts(target_document_id uuid)
+RETURNS TABLE (
+  rule_id text,
+  content text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT
+    r.rule_id,
+    CASE
+      -- Offsets are JavaScript string offsets, the same as character positions for the
+      -- text of a rulebook; page markers are dropped like in the chunks
+      WHEN r.has_offsets THEN trim(regexp_replace(
+        substr(d.content, r.char_start + 1, r.char_end - r.char_start),
+        '\n?--- Page \d+ ---\n?', E'\n', 'g'
+      ))
+      ELSE r.chunk_text
+    END AS content
+  FROM (
+    SELECT
+      ds.rule_id,
+      bool_and(ds.char_start IS NOT NULL AND ds.char_end IS NOT NULL) AS has_offsets,
+      min(ds.char_start) AS char_start,
+      max(ds.char_end) AS char_end,
+      string_agg(ds.content, ' ' ORDER BY ds.id) AS chunk_text
+    FROM document_sections ds
+    WHERE ds.document_id = target_document_id AND ds.rule_id IS NOT NULL
+    GROUP BY ds.rule_id
+  ) r
+  JOIN documents d ON d.id = target_document_id;
+$$;
+
+CREATE OR REPLACE FUNCTION compare_document_versions(
+  base_document_id uuid,
+  target_document_id uuid
+)
+RETURNS TABLE (
+  rule_id text,
+  change_type text,
+  base_content text,
+  target_content text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  WITH base_rules AS (
+    SELECT * FROM document_rule_texts(base_document_id)
+  ),
+  target_rules AS (
+    SELECT * FROM document_rule_texts(target_document_id)
+  ),
+  changes AS (
+    SELECT
+      coalesce(t.rule_id, b.rule_id) AS rule_id,
+      CASE
+        WHEN b.rule_id IS NULL THEN 'added'
+        WHEN t.rule_id IS NULL THEN 'removed'
+        ELSE 'changed'
+      END AS change_type,
+      b.content AS base_content,
+      t.content AS target_content
+    FROM base_rules b
+    FULL OUTER JOIN target_rules t ON b.rule_id = t.rule_id
+    -- Line breaks move around between PDF exports, so whitespace is not a change
+    WHERE b.rule_id IS NULL
+      OR t.rule_id IS NULL
+      OR regexp_replace(b.content, '\s+', ' ', 'g') <> regexp_replace(t.content, '\s+', ' ', 'g')
+  )
+  SELECT *
+  FROM changes c
+  -- "T 2.1" before "T 10.1"
+  ORDER BY
+    split_part(c.rule_id, ' ', 1),
+    string_to_array(nullif(split_part(c.rule_id, ' ', 2), ''), '.')::int[] NULLS FIRST;
+$$;
@@ -0,0 +1,68 @@
+/*
+  # Staged re-embedding
+
+  1. Changes
+    - `document_sections.staged_embedding` (vector) / `staged_embedding_model` (text) - vectors
+      written by a running re-embedding job. Search keeps using `embedding` until the job
+      finishes, so no section drops out of retrieval while the job runs, and a failed job
+      leaves the active vectors untouched
+    - `reembed_jobs.lease` (uuid) - replaced on every hand-over to a continuation; a
+      continuation is only accepted with the current lease
+
+  2. Functions
+    - `activate_staged_embeddings(target_model)` - switches every section and the `embedding`
+      app setting to `target_model` in one transaction. Returns the number of sections that
+      have no staged vector for the model yet (uploaded while the job ran), in which case
+      nothing is switched and the job embeds those first. Only callable with the service role
+*/
+
+ALTER TABLE document_sections ADD COLUMN IF NOT EXISTS staged_embedding vector(768);
+ALTER TABLE document_sections ADD COLUMN IF NOT EXISTS staged_embedding_model text;
+
+ALTER TABLE reembed_jobs ADD COLUMN IF NOT EXISTS lease uuid NOT NULL DEFAULT gen_random_uuid();
+
+CREATE OR REPLACE FUNCTION activate_staged_embeddings(target_model text, switched_by uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  missing_count integer;
+BEGIN
+  -- Uploads wait until the switch is done, so the count below is final. Batches they embedded
+  -- with the old model are rejected by check_section_embedding_model afterwards
+  LOCK TABLE document_sections IN SHARE MODE;
+
+  SELECT count(*) INTO missing_count
+  FROM document_sections
+  WHERE embedding_model IS DISTINCT FROM target_model
+    AND staged_embedding_model IS DISTINCT FROM target_model;
+
+  IF missing_count > 0 THEN
+    RETURN missing_count;
+  END IF;
+
+  UPDATE document_sections
+  SET
+    embedding = staged_embedding,
+    embedding_model = staged_embedding_model,
+    staged_embedding = NULL,
+    staged_embedding_model = NULL
+  WHERE staged_embedding_model = target_model
+    AND embedding_model IS DISTINCT FROM target_model;
+
+  -- Leftovers of earlier jobs
+  UPDATE document_sections
+  SET staged_embedding = NULL, staged_embedding_model = NULL
+  WHERE staged_embedding_model IS NOT NULL;
+
+  INSERT INTO app_settings (key, value, updated_by)
+  VALUES ('embedding', jsonb_build_object('model', target_model), switched_by)
+  ON CONFLICT (key) DO UPDATE
+  SET value = EXCLUDED.value, updated_by = EXCLUDED.updated_by;
+
+  RETURN 0;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION activate_staged_embeddings(text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION activate_staged_embeddings(text, uuid) TO service_role;
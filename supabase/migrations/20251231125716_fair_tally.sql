@@ -0,0 +1,9 @@
+/*
+  # Quiz scores with partial credit
+
+  1. Changes
+    - `quiz_attempts.score` (float) - sum of the answer credits, so a partly right multiple
+      choice answer counts the same in the score as in the review
+*/
+
+ALTER TABLE quiz_attempts ALTER COLUMN score TYPE float USING score::float;
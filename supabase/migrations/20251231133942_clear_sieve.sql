@@ -0,0 +1,63 @@
+/*
+  # Sampling without repeats
+
+  1. Functions
+    - `sample_questions` takes `include_seen` (default false). Without it, questions the caller
+      has answered before are left out and fewer rows than requested come back; the quiz and
+      team pages then ask before filling up with answered questions. With it, unseen questions
+      still come first and the answered ones are stratified the same way, instead of being
+      taken least recently answered first
+*/
+
+DROP FUNCTION IF EXISTS sample_questions(integer, integer, text, text, text);
+
+CREATE OR REPLACE FUNCTION sample_questions(
+  question_count integer DEFAULT 10,
+  year_filter integer DEFAULT NULL,
+  event_filter text DEFAULT NULL,
+  type_filter text DEFAULT NULL,
+  topic_filter text DEFAULT NULL,
+  include_seen boolean DEFAULT false
+)
+RETURNS SETOF question_bank
+LANGUAGE sql
+VOLATILE
+AS $$
+  WITH seen AS (
+    SELECT a.question_id
+    FROM quiz_attempt_answers a
+    JOIN quiz_attempts qa ON qa.id = a.attempt_id
+    WHERE qa.user_id = auth.uid() AND a.question_id IS NOT NULL
+    UNION
+    SELECT r.question_id
+    FROM question_reviews r
+    WHERE r.user_id = auth.uid()
+  ),
+  candidates AS (
+    SELECT
+      qb.id,
+      s.question_id IS NOT NULL AS is_seen,
+      row_number() OVER (
+        PARTITION BY s.question_id IS NOT NULL, qb.year, qb.source_event, normalize_question_type(qb.type), qb.topic
+        ORDER BY random()
+      ) AS stratum_rank
+    FROM question_bank qb
+    LEFT JOIN seen s ON s.question_id = qb.id::text
+    WHERE (year_filter IS NULL OR qb.year = year_filter)
+      AND (event_filter IS NULL OR qb.source_event = event_filter)
+      AND (type_filter IS NULL OR normalize_question_type(qb.type) = type_filter)
+      AND (topic_filter IS NULL OR qb.topic = topic_filter)
+      AND (include_seen OR s.question_id IS NULL)
+  ),
+  picked AS (
+    -- Every stratum gives one question before any gives a second, unseen ones first
+    SELECT id
+    FROM candidates
+    ORDER BY is_seen, stratum_rank, random()
+    LIMIT question_count
+  )
+  SELECT qb.*
+  FROM picked p
+  JOIN question_bank qb ON qb.id = p.id
+  ORDER BY random();
+$$;
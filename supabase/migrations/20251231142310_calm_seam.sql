@@ -0,0 +1,51 @@
+/*
+  # Merged sections drop their source offsets
+
+  1. Functions
+    - `merge_documents` clears `char_start` / `char_end` of the sections it moves. The
+      offsets point into the content of the source document, which is deleted, so
+      `document_rule_texts` would cut the target's content at the wrong place; without
+      them it falls back to the chunk text for the rules these sections belong to
+*/
+
+CREATE OR REPLACE FUNCTION merge_documents(
+  source_document_id uuid,
+  target_document_id uuid,
+  similarity_threshold float DEFAULT 0.97
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  moved_count integer;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can merge documents';
+  END IF;
+
+  IF source_document_id = target_document_id THEN
+    RAISE EXCEPTION 'Cannot merge a document into itself';
+  END IF;
+
+  -- Only sections the target does not already cover are kept
+  UPDATE document_sections ds
+  SET document_id = target_document_id,
+      char_start = NULL,
+      char_end = NULL
+  WHERE ds.document_id = source_document_id
+    AND NOT EXISTS (
+      SELECT 1
+      FROM document_sections existing
+      WHERE existing.document_id = target_document_id
+        AND existing.embedding_model = ds.embedding_model
+        AND 1 - (existing.embedding <=> ds.embedding) >= similarity_threshold
+    );
+
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+
+  DELETE FROM documents WHERE id = source_document_id;
+
+  RETURN moved_count;
+END;
+$$;
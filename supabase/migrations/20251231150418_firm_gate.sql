@@ -0,0 +1,43 @@
+/*
+  # Sections are stored with the active embedding model only
+
+  1. Functions
+    - `check_section_embedding_model` rejects new sections whose `embedding_model` is not
+      the model in the `embedding` app setting, with SQLSTATE 40001. An upload that embedded
+      a batch with the old model while `activate_staged_embeddings` switched models would
+      otherwise store sections no search in their scope accepts; process-document re-reads
+      the model and embeds the batch again
+
+  2. Triggers
+    - `check_document_section_embedding_model` before insert on `document_sections`
+*/
+
+CREATE OR REPLACE FUNCTION check_section_embedding_model()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  active_model text;
+BEGIN
+  IF NEW.embedding IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Runs after the insert got its lock, so a switch that held it is visible here
+  SELECT value->>'model' INTO active_model
+  FROM app_settings
+  WHERE key = 'embedding';
+
+  IF active_model IS NOT NULL AND NEW.embedding_model IS DISTINCT FROM active_model THEN
+    RAISE EXCEPTION 'Section embedded with % but the active embedding model is %', NEW.embedding_model, active_model
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_document_section_embedding_model
+  BEFORE INSERT ON document_sections
+  FOR EACH ROW
+  EXECUTE FUNCTION check_section_embedding_model();
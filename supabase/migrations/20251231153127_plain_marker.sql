@@ -0,0 +1,13 @@
+/*
+  # Questions the classifier could not tag
+
+  1. Changes
+    - `question_bank.topic_source` also takes `llm_failed`, set by tag-questions on questions
+      the classifier returned no valid topic for. They stay untagged but are not sent to the
+      classifier again, so they no longer block the untagged backlog; clearing the topic on
+      the admin page queues a question again
+*/
+
+ALTER TABLE question_bank DROP CONSTRAINT IF EXISTS question_bank_topic_source_check;
+ALTER TABLE question_bank ADD CONSTRAINT question_bank_topic_source_check
+  CHECK (topic_source IN ('llm', 'admin', 'llm_failed'));
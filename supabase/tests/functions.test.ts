@@ -0,0 +1,159 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { startMockGemini } from './mock-gemini/server.ts';
+
+/**
+ * Edge Function Integration Tests
+ * Runs process-document, chat-rag, generate-quiz and generate-feedback on a local
+ * Supabase stack with Gemini replaced by the mock server. See README "Testing".
+ * Skipped unless SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are set.
+ */
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+// Must match GEMINI_BASE_URL in the env file the functions are served with
+const MOCK_GEMINI_PORT = parseInt(Deno.env.get('MOCK_GEMINI_PORT') ?? '8089');
+const JOB_TIMEOUT_MS = 60_000;
+
+const DOCUMENT_TEXT = `T TECHNICAL ASPECTS
+T 7 BRAKE SYSTEM
+T 7.1 General
+T 7.1.1 The vehicle must be equipped with a braking system that acts on all four wheels and is operated by a single control.
+T 7.1.2 The brake system must have at least two hydraulic circuits, so that in case of a leak or failure at any point
+in the system, effective braking power is maintained on at least two wheels.
+EV ELECTRIC VEHICLES
+EV 4 TRACTIVE SYSTEM
+EV 4.1 Separation of the tractive system and the low voltage system must be ensured at all times.
+`;
+
+async function invoke(name: string, body: Record<string, unknown>) {
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${SERVICE_ROLE_KEY}` },
+    body: JSON.stringify(body)
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(`${name} failed: ${JSON.stringify(data)}`);
+  return data;
+}
+
+Deno.test({
+  name: 'edge functions against the mock Gemini server',
+  ignore: !SUPABASE_URL || !SERVICE_ROLE_KEY,
+  sanitizeOps: false,
+  sanitizeResources: false,
+  async fn(t) {
+    const supabase = createClient(SUPABASE_URL!, SERVICE_ROLE_KEY!, { auth: { persistSession: false } });
+    const mock = startMockGemini({ port: MOCK_GEMINI_PORT });
+    const filePath = `tests/${crypto.randomUUID()}.txt`;
+    let userId: string | undefined;
+    let documentId: string | undefined;
+
+    try {
+      const { data: created, error: userError } = await supabase.auth.admin.createUser({
+        email: `function-tests-${crypto.randomUUID()}@example.com`,
+        password: crypto.randomUUID(),
+        email_confirm: true
+      });
+      if (userError) throw userError;
+      userId = created.user.id;
+
+      const { error: uploadError } = await supabase.storage
+        .from('documents')
+        .upload(filePath, new Blob([DOCUMENT_TEXT]), { contentType: 'text/plain' });
+      if (uploadError) throw uploadError;
+
+      await t.step('process-document chunks and embeds the upload', async () => {
+        const { job_id } = await invoke('process-document', {
+          name: 'Mock Rules.txt',
+          file_path: filePath,
+          file_size: DOCUMENT_TEXT.length,
+          mime_type: 'text/plain',
+          uploaded_by: userId
+        });
+
+        let job;
+        const deadline = Date.now() + JOB_TIMEOUT_MS;
+        do {
+          await new Promise((resolve) => setTimeout(resolve, 500));
+          ({ data: job } = await supabase.from('ingestion_jobs').select('*').eq('id', job_id).single());
+        } while (!['done', 'failed'].includes(job.status) && Date.now() < deadline);
+
+        assertEquals(job.status, 'done', job.error ?? undefined);
+        documentId = job.document_id;
+
+        const { data: sections } = await supabase
+          .from('document_sections')
+          .select('rule_id, embedding_model')
+          .eq('document_id', documentId)
+          .order('id');
+
+        assertEquals(sections!.map((s) => s.rule_id).filter(Boolean), ['T 7.1.1', 'T 7.1.2', 'EV 4.1']);
+        assert(sections!.every((s) => s.embedding_model === 'text-embedding-004'));
+        assert(mock.requests.some((r) => r.method === 'batchEmbedContents'));
+      });
+
+      await t.step('chat-rag answers from the uploaded document', async () => {
+        const result = await invoke('chat-rag', {
+          query: 'How many hydraulic circuits must the brake system have?',
+          selectedDocuments: [documentId]
+        });
+
+        assert(result.response.startsWith('Mock answer'), result.response);
+        assert(result.sources.length > 0);
+        assertEquals(result.sources[0].document_id, documentId);
+        assertEquals(result.sources[0].section_ref, 'T 7.1.2');
+      });
+
+      await t.step('generate-quiz builds questions instead of the fallback set', async () => {
+        const result = await invoke('generate-quiz', { count: 3, selectedDocuments: [documentId] });
+
+        assertEquals(result.source, 'gemini');
+        assertEquals(result.questions.length, 3);
+        assert(result.questions.every((q: { question: string }) => q.question.startsWith('Mock question')));
+        assert(result.questions.every((q: { topic: string | null }) => typeof q.topic === 'string'));
+      });
+
+      await t.step('generate-quiz tags questions with the requested topic and difficulty', async () => {
+        const result = await invoke('generate-quiz', {
+          count: 1,
+          selectedDocuments: [documentId],
+          topic: 'brakes',
+          difficulty: 'easy'
+        });
+
+        assertEquals(result.questions.length, 1);
+        assertEquals(result.questions[0].topic, 'brakes');
+        assertEquals(result.questions[0].difficulty, 'easy');
+      });
+
+      await t.step('generate-feedback returns the model feedback', async () => {
+        const result = await invoke('generate-feedback', {
+          mode: 'individual',
+          questions: [{ type: 'single_choice', question: 'How many brake circuits are required?', correct_answer: 1 }],
+          answers: [1],
+          score: 1,
+          totalQuestions: 1
+        });
+
+        assertEquals(result.summary, 'Mock summary of the quiz performance.');
+      });
+
+      await t.step('generate-feedback analyses a team game', async () => {
+        const result = await invoke('generate-feedback', {
+          mode: 'team',
+          scores: { '1': 2, '2': 1 },
+          questions: { '1': [{ question: 'How many brake circuits are required?' }], '2': [] }
+        });
+
+        assertEquals(result.summary, 'Mock summary of the quiz performance.');
+        assertEquals(result.feedback, 'Mock feedback paragraph.');
+      });
+    } finally {
+      await mock.close();
+      await supabase.storage.from('documents').remove([filePath]);
+      // Documents, sections and jobs go with the user
+      if (userId) await supabase.auth.admin.deleteUser(userId);
+    }
+  }
+});
@@ -0,0 +1,111 @@
+import { mockEmbedding } from '../../functions/_shared/llm.ts';
+
+/**
+ * Mock Responses
+ * Answers are derived from the prompt and a seed only, so the same request
+ * always gets the same answer. The prompts of the edge functions are recognised
+ * by their wording and answered in the shape the function expects.
+ */
+
+export { mockEmbedding };
+
+export function generateMockText(prompt: string, seed: number): string {
+  const random = seededRandom(hashString(prompt) ^ seed);
+
+  const quizCount = prompt.match(/Generate exactly (\d+) questions/);
+  if (quizCount) return JSON.stringify(mockQuestions(prompt, parseInt(quizCount[1]), random));
+
+  if (prompt.includes('grading search results')) return JSON.stringify(mockRerankScores(prompt));
+
+  if (prompt.includes('topic classifier')) return JSON.stringify(mockTopicTags(prompt));
+
+  const followUp = prompt.match(/FOLLOW-UP QUESTION: "([\s\S]*?)"\s*$/);
+  if (followUp) return followUp[1];
+
+  if (prompt.includes('what changed from OLD to NEW')) {
+    const ruleIds = [...prompt.matchAll(/^RULE (.+)$/gm)].map((m) => m[1].trim());
+    return JSON.stringify(ruleIds.map((rule_id) => ({ rule_id, summary: `Mock change summary for ${rule_id}` })));
+  }
+
+  if (prompt.includes('Faculty Advisor') || prompt.includes('technical judge')) {
+    return JSON.stringify({
+      summary: 'Mock summary of the quiz performance.',
+      strengths: ['Mock strength'],
+      weak_points: ['Mock weak point'],
+      feedback: 'Mock feedback paragraph.',
+      detailed_analysis: 'Mock feedback paragraph.'
+    });
+  }
+
+  // Chat answer citing the first source, if the prompt has any
+  const citation = prompt.includes('[1]') ? ' [1]' : '';
+  return `Mock answer ${Math.floor(random() * 1000)}: according to the provided documents${citation}.`;
+}
+
+function mockQuestions(prompt: string, count: number, random: () => number) {
+  const context = prompt.split('INPUT CONTEXT:').pop()!.split('INSTRUCTIONS:')[0];
+  const words = [...new Set(context.match(/[A-Za-z]{6,}/g) ?? ['regulations'])];
+  const types = ['single_choice', 'multi_choice', 'input'];
+
+  return Array.from({ length: count }, (_, idx) => {
+    const type = types[idx % types.length];
+    const topic = words[Math.floor(random() * words.length)];
+    return {
+      type,
+      question: `Mock question ${idx + 1} about ${topic}?`,
+      options: type === 'input' ? [] : ['Option A', 'Option B', 'Option C', 'Option D'],
+      correct_answer: type === 'input'
+        ? String(Math.floor(random() * 100))
+        : type === 'multi_choice' ? [0, 2] : Math.floor(random() * 4),
+      explanation: `Mock explanation referencing ${topic}.`,
+      difficulty: 'medium'
+    };
+  });
+}
+
+// Scores by word overlap with the question, so relevant passages rank first
+function mockRerankScores(prompt: string) {
+  const question = prompt.match(/QUESTION: "([\s\S]*?)"/)?.[1] ?? '';
+  const questionWords = new Set(question.toLowerCase().match(/[a-z0-9]{3,}/g) ?? []);
+
+  return [...prompt.matchAll(/<passage id="(\d+)">([\s\S]*?)<\/passage>/g)].map((m) => {
+    const passageWords = new Set(m[2].toLowerCase().match(/[a-z0-9]{3,}/g) ?? []);
+    const shared = [...questionWords].filter((word) => passageWords.has(word)).length;
+    const score = questionWords.size === 0 || shared === 0 ? 0 : Math.max(5, Math.round((10 * shared) / questionWords.size));
+    return { id: parseInt(m[1]), score };
+  });
+}
+
+// First topic whose slug words appear in the question, otherwise the first listed topic
+function mockTopicTags(prompt: string) {
+  const slugs = [...prompt.matchAll(/^- ([a-z0-9-]+):/gm)].map((m) => m[1]);
+  const questions = prompt.split('QUESTIONS:').pop()!;
+
+  return [...questions.matchAll(/^(\d+)\. (.*)$/gm)].map((m) => {
+    const text = m[2].toLowerCase();
+    const topic = slugs.find((slug) => slug.split('-').every((word) => text.includes(word))) ?? slugs[0];
+    return { index: parseInt(m[1]), topic };
+  });
+}
+
+// FNV-1a
+export function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,121 @@
+import { assert, assertEquals, assertNotEquals, assertRejects } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { getLlmProvider } from '../../functions/_shared/llm.ts';
+import { buildClassificationPrompt } from '../../functions/_shared/topics.ts';
+import { startMockGemini } from './server.ts';
+
+// The real Gemini SDK (through the shared provider) against the mock server
+function mockProvider(url: string) {
+  return getLlmProvider({
+    provider: 'gemini',
+    models: { fast: 'gemini-flash-latest', quality: 'gemini-3-pro-preview', embedding: 'text-embedding-004' },
+    geminiApiKey: 'test-key',
+    geminiBaseUrl: url
+  });
+}
+
+Deno.test('embeddings are 768-dimensional and deterministic', async () => {
+  const server = startMockGemini();
+  try {
+    const llm = mockProvider(server.url);
+    const [a, b, c] = await llm.embed(['T 7.1.1 Brake system', 'T 7.1.1 Brake system', 'EV 4.1 Tractive system']);
+
+    assertEquals(a.length, 768);
+    assertEquals(a, b);
+    assertNotEquals(a, c);
+    assertEquals(server.requests[0], { model: 'text-embedding-004', method: 'batchEmbedContents', text: 'T 7.1.1 Brake system' });
+  } finally {
+    await server.close();
+  }
+});
+
+Deno.test('quiz prompts get the requested number of questions', async () => {
+  const server = startMockGemini();
+  try {
+    const questions = await mockProvider(server.url).generateJson<any[]>(
+      'Generate exactly 4 questions based ONLY on the provided documents.\nINPUT CONTEXT:\nThe accumulator container must be insulated.'
+    );
+
+    assertEquals(questions.length, 4);
+    assertEquals(questions.map((q) => q.type), ['single_choice', 'multi_choice', 'input', 'single_choice']);
+    assertEquals(questions[2].options, []);
+    assert(questions.every((q) => typeof q.question === 'string' && q.explanation));
+  } finally {
+    await server.close();
+  }
+});
+
+Deno.test('topic classifier prompts tag every question', async () => {
+  const server = startMockGemini();
+  try {
+    const tags = await mockProvider(server.url).generateJson<{ index: number; topic: string }[]>(buildClassificationPrompt(
+      [{ question: 'Which brakes must act on all four wheels?' }, { question: 'Who may enter the pit lane?' }],
+      [
+        { slug: 'general-rules', name: 'General Rules', description: null },
+        { slug: 'brakes', name: 'Brakes', description: null }
+      ]
+    ));
+
+    assertEquals(tags, [{ index: 0, topic: 'brakes' }, { index: 1, topic: 'general-rules' }]);
+  } finally {
+    await server.close();
+  }
+});
+
+Deno.test('re-rank prompts score passages by overlap with the question', async () => {
+  const server = startMockGemini();
+  try {
+    const scores = await mockProvider(server.url).generateJson<{ id: number; score: number }[]>(`
+      You are grading search results for a Formula Student rules assistant.
+      QUESTION: "How many brake circuits are required?"
+      PASSAGES:
+      <passage id="0">The accumulator must be insulated.</passage>
+      <passage id="1">The brake system must have two hydraulic circuits.</passage>
+    `);
+
+    assertEquals(scores.map((s) => s.id), [0, 1]);
+    assertEquals(scores[0].score, 0);
+    assert(scores[1].score >= 5);
+  } finally {
+    await server.close();
+  }
+});
+
+Deno.test('answers depend only on prompt and seed', async () => {
+  const first = startMockGemini({ seed: 1 });
+  const second = startMockGemini({ seed: 1 });
+  const other = startMockGemini({ seed: 2 });
+  try {
+    const prompt = 'Answer the question using the context.\n[1] T 7.1.1 Brake system';
+    const answer = await mockProvider(first.url).generate(prompt);
+
+    assertEquals(await mockProvider(second.url).generate(prompt), answer);
+    assertNotEquals(await mockProvider(other.url).generate(prompt), answer);
+    assert(answer.includes('[1]'));
+  } finally {
+    await Promise.all([first.close(), second.close(), other.close()]);
+  }
+});
+
+Deno.test('streamed answers match the non-streamed answer', async () => {
+  const server = startMockGemini();
+  try {
+    const llm = mockProvider(server.url);
+    const prompt = 'Answer the question using the context.';
+    let streamed = '';
+    for await (const text of llm.generateStream(prompt)) streamed += text;
+
+    assertEquals(streamed, await llm.generate(prompt));
+    assertEquals(server.requests[0].method, 'streamGenerateContent');
+  } finally {
+    await server.close();
+  }
+});
+
+Deno.test('failing models return errors', async () => {
+  const server = startMockGemini({ failModels: ['gemini-flash-latest'] });
+  try {
+    await assertRejects(() => mockProvider(server.url).generate('Hello'));
+  } finally {
+    await server.close();
+  }
+});
@@ -0,0 +1,122 @@
+import { generateMockText, mockEmbedding } from './responses.ts';
+
+/**
+ * Mock Gemini Server
+ * Stand-in for generativelanguage.googleapis.com with deterministic answers.
+ * Implements the endpoints the SDK calls:
+ *   POST /v1beta/models/{model}:embedContent
+ *   POST /v1beta/models/{model}:batchEmbedContents
+ *   POST /v1beta/models/{model}:generateContent
+ *   POST /v1beta/models/{model}:streamGenerateContent?alt=sse
+ *
+ * Point the edge functions at it with GEMINI_BASE_URL (any GEMINI_API_KEY works):
+ *   deno run --allow-net --allow-env supabase/tests/mock-gemini/server.ts
+ */
+
+export interface MockGeminiOptions {
+  seed?: number; // same seed + same prompt -> same answer
+  failModels?: string[]; // models that answer with a 500, to exercise the fallbacks
+}
+
+export interface MockGeminiRequest {
+  model: string;
+  method: string;
+  text: string; // prompt or first text to embed
+}
+
+const ROUTE_PATTERN = /^\/v1(?:beta)?\/models\/([^/:]+):(embedContent|batchEmbedContents|generateContent|streamGenerateContent)$/;
+
+export function createMockGeminiHandler(options: MockGeminiOptions = {}) {
+  const seed = options.seed ?? 42;
+  const requests: MockGeminiRequest[] = [];
+
+  const handler = async (req: Request): Promise<Response> => {
+    const url = new URL(req.url);
+    const route = url.pathname.match(ROUTE_PATTERN);
+    if (req.method !== 'POST' || !route) return errorResponse(404, `No mock for ${req.method} ${url.pathname}`);
+
+    const [, model, method] = route;
+    const body = await req.json();
+
+    if (options.failModels?.includes(model)) return errorResponse(500, `Mock failure for ${model}`);
+
+    switch (method) {
+      case 'embedContent': {
+        const text = contentText(body.content);
+        requests.push({ model, method, text });
+        return Response.json({ embedding: { values: mockEmbedding(text) } });
+      }
+
+      case 'batchEmbedContents': {
+        const texts = (body.requests ?? []).map((request: any) => contentText(request.content));
+        requests.push({ model, method, text: texts[0] ?? '' });
+        return Response.json({ embeddings: texts.map((text: string) => ({ values: mockEmbedding(text) })) });
+      }
+
+      case 'generateContent': {
+        const prompt = (body.contents ?? []).map(contentText).join('\n');
+        requests.push({ model, method, text: prompt });
+        return Response.json(candidateResponse(generateMockText(prompt, seed)));
+      }
+
+      default: {
+        const prompt = (body.contents ?? []).map(contentText).join('\n');
+        requests.push({ model, method, text: prompt });
+        return streamResponse(generateMockText(prompt, seed));
+      }
+    }
+  };
+
+  return { handler, requests };
+}
+
+// Starts the server; port 0 picks a free port
+export function startMockGemini(options: MockGeminiOptions & { port?: number } = {}) {
+  const { handler, requests } = createMockGeminiHandler(options);
+  const server = Deno.serve({ port: options.port ?? 0, onListen: () => {} }, handler);
+
+  return {
+    url: `http://localhost:${server.addr.port}`,
+    requests,
+    close: () => server.shutdown()
+  };
+}
+
+function contentText(content: any): string {
+  return (content?.parts ?? []).map((part: any) => part.text ?? '').join('');
+}
+
+function candidateResponse(text: string) {
+  return {
+    candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP', index: 0 }],
+    usageMetadata: { promptTokenCount: 0, candidatesTokenCount: 0, totalTokenCount: 0 }
+  };
+}
+
+// Server-sent events, one word per event like a real token stream
+function streamResponse(text: string): Response {
+  const encoder = new TextEncoder();
+  const pieces = text.match(/\S+\s*/g) ?? [text];
+
+  const body = new ReadableStream({
+    start(controller) {
+      for (const piece of pieces) {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(candidateResponse(piece))}\r\n\r\n`));
+      }
+      controller.close();
+    }
+  });
+
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+function errorResponse(status: number, message: string): Response {
+  return Response.json({ error: { code: status, message, status: 'MOCK_ERROR' } }, { status });
+}
+
+if (import.meta.main) {
+  const port = parseInt(Deno.env.get('PORT') ?? '8089');
+  const seed = parseInt(Deno.env.get('MOCK_GEMINI_SEED') ?? '42');
+  const { handler } = createMockGeminiHandler({ seed });
+  Deno.serve({ port, hostname: '0.0.0.0' }, handler);
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
@@ -7,4 +8,8 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  test: {
+    // supabase/ holds Deno tests, run with `npm run test:functions`
+    include: ['src/**/*.test.ts'],
+  },
 })
\ No newline at end of file